@@ -0,0 +1,40 @@
+import { expect, test } from "@playwright/test";
+import { loginAs, resetMockBackend } from "./helpers";
+
+test.beforeEach(async ({ page }) => {
+  await resetMockBackend(page);
+  await loginAs(page, "ADMIN", "/admin");
+});
+
+test("an admin marks a student and promotes them to teacher", async ({
+  page,
+}) => {
+  await page
+    .locator("tr", { hasText: "student2@example.com" })
+    .getByRole("link", { name: "Manage" })
+    .click();
+  await expect(page).toHaveURL(/\/admin\/users\/\d+$/);
+
+  await page.getByLabel("Mark this user").fill("Copied answers.");
+  await page.getByRole("button", { name: "Mark User" }).click();
+  await expect(page.getByText("Marked: Copied answers.")).toBeVisible();
+
+  await page.getByLabel("Role").selectOption("TEACHER");
+  page.once("dialog", (dialog) => dialog.accept());
+  await page.getByRole("button", { name: "Save Role" }).click();
+  await expect(page.getByRole("button", { name: "Save Role" })).toBeDisabled();
+
+  await page.goto("/admin");
+  const row = page.locator("tr", { hasText: "student2@example.com" });
+  await expect(row).toContainText("Teacher");
+  await expect(row).toContainText("Marked – Copied answers.");
+});
+
+test("an admin can't change their own role", async ({ page }) => {
+  await page
+    .locator("tr", { hasText: "admin@example.com" })
+    .getByRole("link", { name: "Manage" })
+    .click();
+  await expect(page.getByLabel("Role")).toBeDisabled();
+  await expect(page.getByText("You can't change your own role.")).toBeVisible();
+});
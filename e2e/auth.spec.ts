@@ -0,0 +1,39 @@
+import { expect, test } from "@playwright/test";
+import { loginAs, resetMockBackend, signInWithDevRole } from "./helpers";
+
+// Route protection in middleware.ts: sign-in redirects and role checks
+
+test.beforeEach(async ({ page }) => {
+  await resetMockBackend(page);
+});
+
+test("an anonymous visitor is sent to login and back after signing in", async ({
+  page,
+}) => {
+  await page.goto("/quizzes/new");
+  await expect(page).toHaveURL(/\/login\?callbackUrl=/);
+
+  await signInWithDevRole(page, "TEACHER");
+  await expect(page).toHaveURL(/\/quizzes\/new$/);
+  await expect(page.getByLabel("Quiz Title")).toBeVisible();
+});
+
+test("a student can't open the quiz editor", async ({ page }) => {
+  await loginAs(page, "STUDENT");
+  await page.goto("/quizzes/new");
+  await expect(page).toHaveURL(/\/unauthorized\?reason=role/);
+});
+
+test("a teacher can't open the admin console", async ({ page }) => {
+  await loginAs(page, "TEACHER");
+  await page.goto("/admin");
+  await expect(page).toHaveURL(/\/unauthorized\?reason=role/);
+});
+
+test("wrong credentials are reported on the login page", async ({ page }) => {
+  await page.goto("/login");
+  await page.getByLabel("Username").fill("student");
+  await page.getByLabel("Password").fill("not-the-password");
+  await page.locator("form").getByRole("button", { name: "Sign in" }).click();
+  await expect(page).toHaveURL(/error=CredentialsSignin/);
+});
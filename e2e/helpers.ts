@@ -0,0 +1,32 @@
+import { Page, expect } from "@playwright/test";
+import { User } from "@/types/quiz";
+
+// Shared steps for the journeys; they run against `npm run dev:mock`.
+
+/** Restores the mock backend's seed data so each test starts from the same state. */
+export async function resetMockBackend(page: Page) {
+  const response = await page.request.post("/api/mock-backend/mock/reset/");
+  expect(response.ok()).toBe(true);
+}
+
+/** Picks a role in the login page's development login and signs in. */
+export async function signInWithDevRole(page: Page, role: User["role"]) {
+  const roleSelect = page.getByLabel("Development login as");
+  await roleSelect.selectOption(role);
+  // The button next to the select; the password form has its own "Sign in"
+  await roleSelect
+    .locator("xpath=..")
+    .getByRole("button", { name: "Sign in" })
+    .click();
+}
+
+/** Signs in as the seeded user with the given role via the development login. */
+export async function loginAs(
+  page: Page,
+  role: User["role"],
+  callbackUrl = "/quizzes",
+) {
+  await page.goto(`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+  await signInWithDevRole(page, role);
+  await expect(page).toHaveURL(new RegExp(`${callbackUrl}$`));
+}
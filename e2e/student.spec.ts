@@ -0,0 +1,76 @@
+import { expect, test } from "@playwright/test";
+import { loginAs, resetMockBackend } from "./helpers";
+
+test.beforeEach(async ({ page }) => {
+  await resetMockBackend(page);
+  await loginAs(page, "STUDENT");
+});
+
+test("a student attempts a quiz, confirms the submission and sees the results", async ({
+  page,
+}) => {
+  await page.getByRole("heading", { name: "General Knowledge" }).waitFor();
+  await page
+    .locator("div.border", {
+      has: page.getByRole("heading", { name: "General Knowledge" }),
+    })
+    .getByRole("link", { name: "View / Attempt" })
+    .click();
+  await expect(page).toHaveURL(/\/quizzes\/\d+$/);
+
+  // Everything but the numeric question
+  await page.getByLabel("Paris", { exact: true }).check();
+  await page.getByLabel("True", { exact: true }).check();
+  await page.getByLabel("2", { exact: true }).check();
+  await page.getByLabel("7", { exact: true }).check();
+  await page.getByLabel("Answer to question 4").fill("mars");
+
+  await page.getByRole("button", { name: "Submit Quiz" }).click();
+  const dialog = page.getByRole("dialog", { name: "Submit your answers?" });
+  await expect(dialog).toContainText("You have answered 4 of 5 questions.");
+
+  // Going back keeps the answers
+  await dialog.getByRole("button", { name: "Keep Answering" }).click();
+  await expect(dialog).toBeHidden();
+  await expect(page.getByLabel("Paris", { exact: true })).toBeChecked();
+
+  await page.getByRole("button", { name: "Submit Quiz" }).click();
+  await dialog.getByRole("button", { name: "Submit Anyway" }).click();
+
+  await expect(page).toHaveURL(/\/attempts\/\d+$/);
+  await expect(
+    page.getByRole("heading", { name: "Quiz Attempt Results" }),
+  ).toBeVisible();
+  await expect(page.getByText("Score: 5.00")).toBeVisible();
+  const resultFor = (questionText: string) =>
+    page.locator("div.border", { has: page.getByText(questionText) }).last();
+  await expect(resultFor("What is the capital of France?")).toContainText(
+    "(1 / 1 points)",
+  );
+  await expect(
+    resultFor("What is 0.1 + 0.2, to two decimal places?"),
+  ).toContainText("(0 / 1 points)");
+});
+
+test("a marked student can view but not attempt a quiz", async ({ page }) => {
+  await page.context().clearCookies();
+  await page.goto("/login");
+  await page.getByLabel("Username").fill("marked");
+  await page.getByLabel("Password").fill("password");
+  await page.locator("form").getByRole("button", { name: "Sign in" }).click();
+  await expect(page).not.toHaveURL(/\/login/);
+
+  await page.goto("/quizzes");
+  await page
+    .locator("div.border", {
+      has: page.getByRole("heading", { name: "General Knowledge" }),
+    })
+    .getByRole("link", { name: "View / Attempt" })
+    .click();
+  await expect(
+    page.getByRole("heading", { name: "General Knowledge" }),
+  ).toBeVisible();
+  await expect(page.getByRole("button", { name: "Submit Quiz" })).toHaveCount(
+    0,
+  );
+});
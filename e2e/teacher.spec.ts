@@ -0,0 +1,50 @@
+import { expect, test } from "@playwright/test";
+import { loginAs, resetMockBackend } from "./helpers";
+
+test.beforeEach(async ({ page }) => {
+  await resetMockBackend(page);
+  await loginAs(page, "TEACHER");
+});
+
+test("a teacher creates a quiz and then deletes it", async ({ page }) => {
+  const title = "Capitals of Europe";
+
+  // Create: one single choice question with two options
+  await page.goto("/quizzes/new");
+  await page.getByLabel("Quiz Title").fill(title);
+  await page.getByLabel("Timing (minutes)").fill("5");
+  await page.locator("#q-0-text").fill("What is the capital of Italy?");
+  await page.getByPlaceholder("Option 1 Text").fill("Rome");
+  await page.getByRole("button", { name: "Add Answer Option" }).click();
+  await page.getByPlaceholder("Option 2 Text").fill("Milan");
+  await page.locator('input[name="q-0-correct"]').first().check();
+  await page.getByRole("button", { name: "Create Quiz" }).click();
+
+  await expect(page).toHaveURL(/\/quizzes\/\d+$/);
+  const quizUrl = page.url();
+  await expect(page.getByRole("heading", { name: title })).toBeVisible();
+
+  await page.goto("/quizzes");
+  await expect(page.getByRole("heading", { name: title })).toBeVisible();
+
+  // Delete from the quiz's page, accepting the confirmation
+  await page.goto(quizUrl);
+  page.once("dialog", (dialog) => dialog.accept());
+  await page.getByRole("button", { name: "Delete" }).click();
+  await expect(page.getByText("Quiz not found")).toBeVisible();
+
+  await page.goto("/quizzes");
+  await expect(page.getByRole("heading", { name: title })).toHaveCount(0);
+});
+
+test("a teacher sees validation errors before anything is saved", async ({
+  page,
+}) => {
+  await page.goto("/quizzes/new");
+  await page.getByLabel("Quiz Title").fill("Incomplete");
+  await page.getByPlaceholder("Option 1 Text").fill("Only option");
+  await page.getByRole("button", { name: "Create Quiz" }).click();
+
+  await expect(page.getByText("Question text is required.")).toBeVisible();
+  await expect(page).toHaveURL(/\/quizzes\/new$/);
+});
@@ -0,0 +1,30 @@
+import { defineConfig, devices } from "@playwright/test";
+
+// End-to-end journeys against the in-app mock backend (npm run dev:mock),
+// signing in through the development role login.
+const PORT = 3000;
+const BASE_URL = `http://localhost:${PORT}`;
+
+export default defineConfig({
+  testDir: "./e2e",
+  // The tests share the mock backend's in-memory state
+  fullyParallel: false,
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "github" : "list",
+  use: {
+    baseURL: BASE_URL,
+    trace: "retain-on-failure",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: "npm run dev:mock",
+    url: BASE_URL,
+    reuseExistingServer: !process.env.CI,
+    timeout: 180 * 1000, // First compile is slow
+    env: {
+      NEXTAUTH_URL: BASE_URL,
+      NEXTAUTH_SECRET: "e2e-secret",
+    },
+  },
+});
@@ -0,0 +1,246 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+import { User } from "@/types/quiz";
+import Pagination from "@/components/Pagination";
+import {
+  PAGE_SIZE_OPTIONS,
+  PageResult,
+  SearchParams,
+  toPageResult,
+} from "@/lib/pagination";
+import {
+  USER_MARKED_OPTIONS,
+  USER_ROLE_OPTIONS,
+  UserListQuery,
+  describeRole,
+  filterUsers,
+  parseUserListQuery,
+  toUserListParams,
+  userListHref,
+} from "@/lib/userListQuery";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+
+async function getUsers(
+  accessToken: string,
+  query: UserListQuery,
+): Promise<PageResult<User> | ApiError> {
+  try {
+    const data = await createApiClient(accessToken).users.list(
+      toUserListParams(query),
+    );
+    // Fall back to client-side filtering/paging if the backend ignored the params
+    return toPageResult(data, query.page, query.limit, (users) =>
+      filterUsers(users, query),
+    );
+  } catch (error) {
+    console.error("Failed to fetch users:", error);
+    if (!isApiError(error)) throw error;
+    return error; // Rendered by the page
+  }
+}
+
+export default async function AdminUsersPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const customSession = session as
+    | (typeof session & { accessToken?: string; user?: User })
+    | null;
+
+  if (!customSession?.accessToken || !customSession?.user) {
+    redirect("/login?callbackUrl=/admin");
+  }
+  // Middleware already restricts /admin; checked again in case it's bypassed or misconfigured
+  if (customSession.user.role !== "ADMIN") {
+    redirect("/unauthorized?reason=role");
+  }
+
+  const query = parseUserListQuery(searchParams);
+  const result = await getUsers(customSession.accessToken, query);
+  const hasFilters = Boolean(query.search || query.role || query.marked);
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Admin: Users</h1>
+
+      {/* Filters - a plain GET form so the URL always reflects the current view */}
+      <form
+        method="get"
+        action="/admin"
+        className="bg-white p-4 rounded shadow-sm border mb-6 grid grid-cols-1 md:grid-cols-5 gap-3 items-end"
+      >
+        <div className="md:col-span-2">
+          <label htmlFor="search" className="form-label">
+            Username or email
+          </label>
+          <input
+            type="search"
+            id="search"
+            name="search"
+            defaultValue={query.search}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="role" className="form-label">
+            Role
+          </label>
+          <select
+            id="role"
+            name="role"
+            defaultValue={query.role}
+            className="form-input"
+          >
+            <option value="">Any role</option>
+            {USER_ROLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="marked" className="form-label">
+            Marked
+          </label>
+          <select
+            id="marked"
+            name="marked"
+            defaultValue={query.marked}
+            className="form-input"
+          >
+            {USER_MARKED_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="limit" className="form-label">
+            Per page
+          </label>
+          <select
+            id="limit"
+            name="limit"
+            defaultValue={query.limit}
+            className="form-input"
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-5 flex justify-end space-x-3">
+          <Link href="/admin" className="btn btn-secondary">
+            Clear
+          </Link>
+          {/* Submitting resets to page 1 since `page` isn't a form field */}
+          <button type="submit" className="btn btn-primary">
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {isApiError(result) ? (
+        <ApiErrorNotice
+          status={result.status}
+          backendMessage={result.backendMessage}
+          callbackUrl="/admin"
+        />
+      ) : result.items.length === 0 ? (
+        <p>
+          {hasFilters ? "No users match these filters." : "No users found."}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto bg-white rounded shadow">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    User
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    Role
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    Marked
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {result.items.map((user) => (
+                  <tr key={user.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <p className="font-medium text-gray-900">
+                        {user.username}
+                      </p>
+                      <p className="text-gray-500">{user.email}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {describeRole(user.role)}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {user.is_marked ? (
+                        <span className="text-red-700">
+                          Marked
+                          {user.marked_reason && (
+                            <span className="text-gray-500">
+                              {" "}
+                              &ndash; {user.marked_reason}
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-gray-500">No</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <Link
+                        href={`/admin/users/${user.id}`}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Manage
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <Pagination
+            page={result.page}
+            pageCount={result.pageCount}
+            total={result.total}
+            limit={result.limit}
+            hrefForPage={(page) => userListHref(query, { page })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { User, UserAdminUpdate } from "@/types/quiz";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import { USER_ROLE_OPTIONS } from "@/lib/userListQuery";
+
+interface UserAdminControlsProps {
+  user: User;
+  isSelf: boolean; // Admins can't change their own role, so they can't lock themselves out
+}
+
+// Change a user's role, or mark/unmark them with a reason.
+export default function UserAdminControls({
+  user,
+  isSelf,
+}: UserAdminControlsProps) {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [role, setRole] = useState<User["role"]>(user.role);
+  const [reason, setReason] = useState(user.marked_reason ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (changes: UserAdminUpdate, fallback: string) => {
+    if (!session?.accessToken) {
+      setError("Authentication required.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await createApiClient(session.accessToken).users.update(user.id, changes);
+      router.refresh();
+    } catch (err) {
+      console.error("Failed to update user:", err);
+      setError(getApiErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRoleSave = () => {
+    if (
+      !confirm(`Change ${user.username}'s role from ${user.role} to ${role}?`)
+    ) {
+      return;
+    }
+    save({ role }, "Could not change the user's role.");
+  };
+
+  const handleMark = () => {
+    if (!reason.trim()) {
+      setError("Enter a reason for marking this user.");
+      return;
+    }
+    save(
+      { is_marked: true, marked_reason: reason.trim() },
+      "Could not mark the user.",
+    );
+  };
+
+  const handleUnmark = () => {
+    setReason("");
+    save(
+      { is_marked: false, marked_reason: null },
+      "Could not unmark the user.",
+    );
+  };
+
+  return (
+    <section className="bg-white p-4 rounded shadow-sm border space-y-6">
+      <div>
+        <label htmlFor="user-role" className="form-label">
+          Role
+        </label>
+        <div className="flex items-center space-x-3">
+          <select
+            id="user-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as User["role"])}
+            className="form-input max-w-xs"
+            disabled={isSelf || busy}
+          >
+            {USER_ROLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleRoleSave}
+            className="btn btn-primary btn-sm"
+            disabled={isSelf || busy || role === user.role}
+          >
+            Save Role
+          </button>
+        </div>
+        {isSelf && (
+          <p className="text-xs text-gray-500 mt-1">
+            You can&apos;t change your own role.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="marked-reason" className="form-label">
+          {user.is_marked ? "Marked because" : "Mark this user"}
+        </label>
+        <textarea
+          id="marked-reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="form-input"
+          rows={2}
+          placeholder="Reason (required to mark)"
+          disabled={busy}
+        />
+        <div className="flex space-x-3 mt-2">
+          <button
+            type="button"
+            onClick={handleMark}
+            className="btn btn-warning btn-sm"
+            disabled={
+              busy ||
+              !reason.trim() ||
+              (user.is_marked && reason.trim() === user.marked_reason)
+            }
+          >
+            {user.is_marked ? "Update Reason" : "Mark User"}
+          </button>
+          {user.is_marked && (
+            <button
+              type="button"
+              onClick={handleUnmark}
+              className="btn btn-secondary btn-sm"
+              disabled={busy}
+            >
+              Unmark User
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,240 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+import { QuizAttemptResult, QuizReadOnly, User } from "@/types/quiz";
+import { PageResult, toPageResult } from "@/lib/pagination";
+import {
+  filterAndSortQuizzes,
+  parseQuizListQuery,
+  quizListHref,
+  toQuizListParams,
+} from "@/lib/quizListQuery";
+import {
+  attemptListHref,
+  filterAndSortAttempts,
+  parseAttemptListQuery,
+  toAttemptListParams,
+} from "@/lib/attemptListQuery";
+import { describeRole } from "@/lib/userListQuery";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import UserAdminControls from "./UserAdminControls"; // Client Component
+
+async function getUser(
+  id: string,
+  accessToken: string,
+): Promise<User | ApiError> {
+  try {
+    return await createApiClient(accessToken).users.get(id);
+  } catch (error) {
+    console.error(`Failed to fetch user ${id}:`, error);
+    if (!isApiError(error)) throw error;
+    if (error.status === 404) {
+      notFound();
+    }
+    return error; // Rendered by the page
+  }
+}
+
+// The list endpoints filter by username substring, so results are narrowed to
+// this exact user before display. Only the first page is shown here; the
+// "View all" links open the full, filterable lists.
+async function getUserQuizzes(
+  user: User,
+  accessToken: string,
+): Promise<PageResult<QuizReadOnly> | ApiError> {
+  const query = parseQuizListQuery({ teacher: user.username });
+  try {
+    const data = await createApiClient(accessToken).quizzes.list(
+      toQuizListParams(query),
+    );
+    const result = toPageResult(data, query.page, query.limit, (quizzes) =>
+      filterAndSortQuizzes(quizzes, query),
+    );
+    return {
+      ...result,
+      items: result.items.filter((quiz) => quiz.teacher.id === user.id),
+    };
+  } catch (error) {
+    console.error(`Failed to fetch quizzes for user ${user.id}:`, error);
+    if (!isApiError(error)) throw error;
+    return error;
+  }
+}
+
+async function getUserAttempts(
+  user: User,
+  accessToken: string,
+): Promise<PageResult<QuizAttemptResult> | ApiError> {
+  const query = parseAttemptListQuery({ student: user.username });
+  try {
+    const data = await createApiClient(accessToken).attempts.list(
+      toAttemptListParams(query),
+    );
+    const result = toPageResult(data, query.page, query.limit, (attempts) =>
+      filterAndSortAttempts(attempts, query),
+    );
+    return {
+      ...result,
+      items: result.items.filter((attempt) => attempt.user.id === user.id),
+    };
+  } catch (error) {
+    console.error(`Failed to fetch attempts for user ${user.id}:`, error);
+    if (!isApiError(error)) throw error;
+    return error;
+  }
+}
+
+export default async function AdminUserDetailPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const session = await getServerSession(authOptions);
+  const customSession = session as
+    | (typeof session & { accessToken?: string; user?: User })
+    | null;
+  const callbackUrl = `/admin/users/${params.id}`;
+
+  if (!customSession?.accessToken || !customSession?.user) {
+    redirect(`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+  }
+  // Middleware already restricts /admin; checked again in case it's bypassed or misconfigured
+  if (customSession.user.role !== "ADMIN") {
+    redirect("/unauthorized?reason=role");
+  }
+
+  const accessToken = customSession.accessToken;
+  const user = await getUser(params.id, accessToken);
+
+  if (isApiError(user)) {
+    return (
+      <ApiErrorNotice
+        status={user.status}
+        backendMessage={user.backendMessage}
+        callbackUrl={callbackUrl}
+        backHref="/admin"
+        backLabel="Back to Users"
+      />
+    );
+  }
+
+  const [quizzes, attempts] = await Promise.all([
+    getUserQuizzes(user, accessToken),
+    getUserAttempts(user, accessToken),
+  ]);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link href="/admin" className="text-blue-600 hover:underline text-sm">
+          &larr; Back to Users
+        </Link>
+        <h1 className="text-3xl font-bold mt-2">{user.username}</h1>
+        <p className="text-gray-600">
+          {user.email} &middot; {describeRole(user.role)}
+        </p>
+        {user.is_marked && (
+          <p className="mt-2 text-red-700">
+            Marked{user.marked_reason ? `: ${user.marked_reason}` : ""}
+          </p>
+        )}
+      </div>
+
+      <UserAdminControls
+        user={user}
+        isSelf={user.id === customSession.user.id}
+      />
+
+      <section>
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-2xl font-semibold">Quizzes</h2>
+          <Link
+            href={quizListHref(parseQuizListQuery({ teacher: user.username }))}
+            className="text-blue-600 hover:underline text-sm"
+          >
+            View all
+          </Link>
+        </div>
+        {isApiError(quizzes) ? (
+          <ApiErrorNotice
+            status={quizzes.status}
+            backendMessage={quizzes.backendMessage}
+            callbackUrl={callbackUrl}
+          />
+        ) : quizzes.items.length === 0 ? (
+          <p className="text-gray-600">
+            This user hasn&apos;t created any quizzes.
+          </p>
+        ) : (
+          <ul className="bg-white rounded shadow divide-y divide-gray-200">
+            {quizzes.items.map((quiz) => (
+              <li
+                key={quiz.id}
+                className="px-4 py-3 flex justify-between items-center text-sm"
+              >
+                <Link
+                  href={`/quizzes/${quiz.id}`}
+                  className="font-medium text-indigo-600 hover:text-indigo-900"
+                >
+                  {quiz.title}
+                </Link>
+                <span className="text-gray-500">
+                  {quiz.questions.length} question
+                  {quiz.questions.length === 1 ? "" : "s"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-2xl font-semibold">Attempts</h2>
+          <Link
+            href={attemptListHref(
+              parseAttemptListQuery({ student: user.username }),
+            )}
+            className="text-blue-600 hover:underline text-sm"
+          >
+            View all
+          </Link>
+        </div>
+        {isApiError(attempts) ? (
+          <ApiErrorNotice
+            status={attempts.status}
+            backendMessage={attempts.backendMessage}
+            callbackUrl={callbackUrl}
+          />
+        ) : attempts.items.length === 0 ? (
+          <p className="text-gray-600">
+            This user hasn&apos;t attempted any quizzes.
+          </p>
+        ) : (
+          <ul className="bg-white rounded shadow divide-y divide-gray-200">
+            {attempts.items.map((attempt) => (
+              <li
+                key={attempt.id}
+                className="px-4 py-3 flex justify-between items-center text-sm"
+              >
+                <Link
+                  href={`/attempts/${attempt.id}`}
+                  className="font-medium text-indigo-600 hover:text-indigo-900"
+                >
+                  {attempt.quiz.title}
+                </Link>
+                <span className="text-gray-500">
+                  {attempt.score.toFixed(2)} &middot;{" "}
+                  {new Date(attempt.submission_time).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MockFile, handleMockRequest } from "@/mock-backend/router";
+
+// /api/mock-backend/* - a stand-in for the Django backend, for offline
+// development and end-to-end tests (see src/mock-backend). Only served when
+// MOCK_BACKEND=true outside production; point BACKEND_API_URL and
+// NEXT_PUBLIC_BACKEND_API_URL at http://localhost:3000/api/mock-backend.
+
+const PREFIX = "/api/mock-backend";
+
+const isEnabled = () =>
+  process.env.MOCK_BACKEND === "true" && process.env.NODE_ENV !== "production";
+
+async function handle(req: NextRequest) {
+  if (!isEnabled()) {
+    return NextResponse.json({ detail: "Not found." }, { status: 404 });
+  }
+
+  let body: unknown = null;
+  if (req.headers.get("content-type")?.startsWith("multipart/form-data")) {
+    body = await readUploadedFile(req);
+  } else if (req.method !== "GET" && req.method !== "DELETE") {
+    try {
+      body = await req.json();
+    } catch {
+      body = null; // No or invalid JSON body
+    }
+  }
+
+  // Next.js redirects away the trailing slash the backend's paths end with
+  const path = req.nextUrl.pathname.slice(PREFIX.length).replace(/\/?$/, "/");
+  const response = await handleMockRequest({
+    method: req.method,
+    path,
+    baseUrl: `${req.nextUrl.origin}${PREFIX}`,
+    authorization: req.headers.get("authorization"),
+    body,
+  });
+  if (response.file) {
+    return new NextResponse(Buffer.from(response.file.data), {
+      status: response.status,
+      headers: { "Content-Type": response.file.contentType },
+    });
+  }
+  return response.body === undefined
+    ? new NextResponse(null, { status: response.status })
+    : NextResponse.json(response.body, { status: response.status });
+}
+
+// The "file" field of a multipart upload
+async function readUploadedFile(req: NextRequest): Promise<MockFile | null> {
+  try {
+    const file = (await req.formData()).get("file");
+    if (!(file instanceof Blob)) return null;
+    return {
+      name: file instanceof File ? file.name : "upload",
+      contentType: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+    };
+  } catch {
+    return null; // Malformed form data
+  }
+}
+
+export {
+  handle as GET,
+  handle as POST,
+  handle as PUT,
+  handle as PATCH,
+  handle as DELETE,
+};
@@ -1,39 +1,38 @@
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
-import { fetchApi } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
 import { QuizAttemptResult, User } from "@/types/quiz";
 import AnswerResultDisplay from "@/components/AnswerResultDisplay"; // Client or Server component
+import {
+  DEFAULT_WRONG_SELECTION_PENALTY,
+  describeScoringPolicy,
+  getScoreBreakdown,
+} from "@/lib/scoring";
 import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
+import { toPlainText } from "@/lib/richText";
+import { getExplanationRelease } from "@/lib/explanations";
 
 async function getAttemptDetail(
   id: string,
-  accessToken: string | null,
-): Promise<QuizAttemptResult | null> {
-  if (!accessToken) return null;
+  accessToken: string,
+): Promise<QuizAttemptResult | ApiError> {
   try {
-    const attempt = await fetchApi<QuizAttemptResult>(`/attempts/${id}/`, {
-      method: "GET",
-      accessToken: accessToken,
-    });
+    const attempt = await createApiClient(accessToken).attempts.get(id);
     return attempt;
-  } catch (error: any) {
+  } catch (error) {
     console.error(`Failed to fetch attempt ${id}:`, error);
-    if (
-      error.message?.includes("404") ||
-      error.message?.includes("Not found")
-    ) {
+    if (!isApiError(error)) throw error; // Unexpected errors go to the error boundary
+    if (error.status === 404) {
       notFound();
     }
-    if (
-      error.message?.includes("403") ||
-      error.message?.includes("Forbidden")
-    ) {
+    if (error.status === 403) {
       console.warn(`Permission denied fetching attempt ${id}.`);
-      // Don't use notFound, just return null to indicate permission issue
-      return null;
     }
-    return null; // Other errors
+    // 401/403/5xx... are rendered by the page
+    return error;
   }
 }
 
@@ -55,20 +54,17 @@ export default async function AttemptDetailPage({
   const attempt = await getAttemptDetail(params.id, customSession.accessToken);
 
   // Handle fetch failure or permission denied
-  if (!attempt) {
-    // If fetch returned null due to permission error from API (403)
+  if (isApiError(attempt)) {
+    // Note: notFound() has already been triggered if it was a 404 during fetch
     return (
-      <div className="text-center p-6 bg-red-100 border border-red-300 rounded">
-        <p>You do not have permission to view this attempt result.</p>
-        <Link
-          href="/attempts"
-          className="text-blue-600 hover:underline mt-2 inline-block"
-        >
-          Back to Attempts
-        </Link>
-      </div>
+      <ApiErrorNotice
+        status={attempt.status}
+        backendMessage={attempt.backendMessage}
+        callbackUrl={`/attempts/${params.id}`}
+        backHref="/attempts"
+        backLabel="Back to Attempts"
+      />
     );
-    // Note: notFound() should have been triggered if it was a 404 during fetch
   }
 
   // Optional: Add another layer of authorization check here if needed,
@@ -95,6 +91,12 @@ export default async function AttemptDetailPage({
     );
   }
 
+  const breakdown = getScoreBreakdown(attempt);
+  const policy = describeScoringPolicy(attempt.quiz.scoring_policy);
+  // The quiz's teacher and admins always see the explanations
+  const explanations = getExplanationRelease(attempt.quiz);
+  const showExplanations = isQuizTeacher || isAdmin || explanations.visible;
+
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold">Quiz Attempt Results</h1>
@@ -133,18 +135,95 @@ export default async function AttemptDetailPage({
         )}
       </div>
 
+      {/* How the total score was reached */}
+      {breakdown.answers.length > 0 && (
+        <div className="bg-white p-6 rounded shadow">
+          <h2 className="text-xl font-semibold mb-1">Score Breakdown</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Scoring: {policy.label}. {policy.description}
+            {attempt.quiz.scoring_policy === "NEGATIVE_MARKING" &&
+              ` Each wrong selection costs ${Math.round((attempt.quiz.wrong_selection_penalty ?? DEFAULT_WRONG_SELECTION_PENALTY) * 100)}% of the question's points.`}
+          </p>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-4 font-medium">Question</th>
+                <th className="py-1 pr-4 font-medium text-right">Earned</th>
+                <th className="py-1 pr-4 font-medium text-right">Possible</th>
+                <th className="py-1 font-medium text-right">Running Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.answers.map(({ result, score }, index) => {
+                const runningTotal = breakdown.answers
+                  .slice(0, index + 1)
+                  .reduce((sum, a) => sum + a.score.earned, 0);
+                return (
+                  <tr key={result.id} className="border-b last:border-0">
+                    <td className="py-1 pr-4">
+                      {index + 1}. {toPlainText(result.question.text)}
+                    </td>
+                    <td
+                      className={`py-1 pr-4 text-right ${score.earned < 0 ? "text-red-700" : ""}`}
+                    >
+                      {score.earned}
+                    </td>
+                    <td className="py-1 pr-4 text-right">{score.possible}</td>
+                    <td className="py-1 text-right">
+                      {runningTotal.toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold border-t">
+                <td className="py-1 pr-4">Total</td>
+                <td className="py-1 pr-4 text-right">
+                  {breakdown.totalEarned}
+                </td>
+                <td className="py-1 pr-4 text-right">
+                  {breakdown.totalPossible}
+                </td>
+                <td className="py-1 text-right">
+                  {breakdown.totalEarned.toFixed(2)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+          {breakdown.hasComputedScores &&
+            Math.abs(breakdown.totalEarned - attempt.score) > 0.005 && (
+              <p className="text-xs text-gray-500 mt-2">
+                Some per-question points were estimated here and don&apos;t add
+                up to the recorded score of {attempt.score.toFixed(2)}; the
+                recorded score is final.
+              </p>
+            )}
+        </div>
+      )}
+
       <div className="mt-6">
         <h2 className="text-xl font-semibold mb-4 border-t pt-4">
           Detailed Answers
         </h2>
+        {!showExplanations && explanations.visibleFrom && (
+          <p className="text-sm text-gray-600 mb-4">
+            Explanations will be shown here once the quiz closes on{" "}
+            {explanations.visibleFrom.toLocaleString()}.
+          </p>
+        )}
         {attempt.participant_answers.length > 0 ? (
           <div className="space-y-4">
-            {attempt.participant_answers.map((answerResult, index) => (
-              <div key={answerResult.id}>
+            {breakdown.answers.map(({ result, score }, index) => (
+              <div key={result.id}>
                 <p className="text-lg font-medium mb-2">
                   Question {index + 1}:
                 </p>
-                <AnswerResultDisplay answerResult={answerResult} />
+                <AnswerResultDisplay
+                  answerResult={result}
+                  score={score}
+                  showExplanations={showExplanations}
+                />
               </div>
             ))}
           </div>
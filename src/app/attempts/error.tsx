@@ -0,0 +1,20 @@
+"use client"; // Error boundaries must be Client Components
+
+import RouteErrorNotice from "@/components/RouteErrorNotice";
+
+export default function AttemptError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <RouteErrorNotice
+      error={error}
+      reset={reset}
+      backHref="/attempts"
+      backLabel="Back to Attempts"
+    />
+  );
+}
@@ -0,0 +1,55 @@
+import { getServerSession } from "next-auth/next";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { createApiClient } from "@/lib/apiClient";
+import { isApiError } from "@/lib/api";
+import { describeApiError } from "@/lib/apiErrorMessages";
+import { CSV_BOM } from "@/lib/csv";
+import { fetchAllPages } from "@/lib/pagination";
+import {
+  exportAttemptsToCsv,
+  filterAndSortAttempts,
+  parseAttemptListQuery,
+  toAttemptListParams,
+} from "@/lib/attemptListQuery";
+
+// GET /attempts/export?<same filters as /attempts>
+// Downloads every attempt matching the filters (not just the visible page) as CSV.
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { detail: "Authentication required." },
+      { status: 401 },
+    );
+  }
+
+  const query = parseAttemptListQuery(
+    Object.fromEntries(req.nextUrl.searchParams),
+  );
+  const api = createApiClient(session.accessToken);
+
+  try {
+    const attempts = await fetchAllPages((page, limit) =>
+      api.attempts.list({ ...toAttemptListParams(query), page, limit }),
+    );
+    // Re-apply locally in case the backend ignored the filter params
+    const csv = exportAttemptsToCsv(filterAndSortAttempts(attempts, query));
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(CSV_BOM + csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="attempts-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export attempts:", error);
+    if (!isApiError(error)) throw error;
+    const { message } = describeApiError(error.status, error.backendMessage);
+    return NextResponse.json(
+      { detail: message },
+      { status: error.status ?? 502 },
+    );
+  }
+}
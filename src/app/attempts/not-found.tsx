@@ -0,0 +1,12 @@
+import RouteNotFoundNotice from "@/components/RouteNotFoundNotice";
+
+export default function AttemptNotFound() {
+  return (
+    <RouteNotFoundNotice
+      title="Attempt not found"
+      message="This attempt doesn't exist, or you don't have access to it."
+      backHref="/attempts"
+      backLabel="Back to Attempts"
+    />
+  );
+}
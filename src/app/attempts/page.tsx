@@ -1,27 +1,51 @@
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
-import { fetchApi } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
 import { QuizAttemptResult, User } from "@/types/quiz";
+import Pagination from "@/components/Pagination";
+import {
+  PAGE_SIZE_OPTIONS,
+  PageResult,
+  SearchParams,
+  toPageResult,
+} from "@/lib/pagination";
+import {
+  ATTEMPT_SORT_OPTIONS,
+  AttemptListQuery,
+  attemptListHref,
+  filterAndSortAttempts,
+  parseAttemptListQuery,
+  toAttemptListParams,
+} from "@/lib/attemptListQuery";
 import Link from "next/link";
 import { redirect } from "next/navigation";
 
 async function getAttempts(
-  accessToken: string | null,
-): Promise<QuizAttemptResult[]> {
-  if (!accessToken) return [];
+  accessToken: string,
+  query: AttemptListQuery,
+): Promise<PageResult<QuizAttemptResult> | ApiError> {
   try {
-    const attempts = await fetchApi<QuizAttemptResult[]>("/attempts/", {
-      method: "GET",
-      accessToken: accessToken,
-    });
-    return attempts;
+    const data = await createApiClient(accessToken).attempts.list(
+      toAttemptListParams(query),
+    );
+    // Fall back to client-side filtering/paging if the backend ignored the params
+    return toPageResult(data, query.page, query.limit, (attempts) =>
+      filterAndSortAttempts(attempts, query),
+    );
   } catch (error) {
     console.error("Failed to fetch attempts:", error);
-    return [];
+    if (!isApiError(error)) throw error;
+    return error; // Rendered by the page
   }
 }
 
-export default async function AttemptsPage() {
+export default async function AttemptsPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
   const session = await getServerSession(authOptions);
   const customSession = session as
     | (typeof session & { accessToken?: string; user?: User })
@@ -32,16 +56,147 @@ export default async function AttemptsPage() {
     redirect("/login?callbackUrl=/attempts");
   }
 
-  const attempts = await getAttempts(customSession.accessToken);
+  const query = parseAttemptListQuery(searchParams);
+  const result = await getAttempts(customSession.accessToken, query);
+  const attempts = isApiError(result) ? [] : result.items;
   const userRole = customSession.user.role;
   const showUserDetails = userRole === "ADMIN" || userRole === "TEACHER";
+  const hasFilters = Boolean(
+    query.quiz || query.student || query.from || query.to,
+  );
 
   return (
     <div>
-      <h1 className="text-3xl font-bold mb-6">Quiz Attempts</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Quiz Attempts</h1>
+        {/* Exports every matching row, not just this page */}
+        <a
+          href={attemptListHref(
+            query,
+            { page: 1, limit: undefined },
+            "/attempts/export",
+          )}
+          className="btn btn-secondary"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      {/* Filters - a plain GET form so the URL always reflects the current view */}
+      <form
+        method="get"
+        action="/attempts"
+        className="bg-white p-4 rounded shadow-sm border mb-6 grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+      >
+        <div>
+          <label htmlFor="quiz" className="form-label">
+            Quiz
+          </label>
+          <input
+            type="search"
+            id="quiz"
+            name="quiz"
+            defaultValue={query.quiz}
+            placeholder="Quiz title"
+            className="form-input"
+          />
+        </div>
+        {showUserDetails && (
+          <div>
+            <label htmlFor="student" className="form-label">
+              Student
+            </label>
+            <input
+              type="search"
+              id="student"
+              name="student"
+              defaultValue={query.student}
+              placeholder="Username or email"
+              className="form-input"
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="from" className="form-label">
+            Submitted From
+          </label>
+          <input
+            type="date"
+            id="from"
+            name="from"
+            defaultValue={query.from}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="to" className="form-label">
+            Submitted To
+          </label>
+          <input
+            type="date"
+            id="to"
+            name="to"
+            defaultValue={query.to}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="sort" className="form-label">
+            Sort
+          </label>
+          <select
+            id="sort"
+            name="sort"
+            defaultValue={query.sort}
+            className="form-input"
+          >
+            {ATTEMPT_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="limit" className="form-label">
+            Per page
+          </label>
+          <select
+            id="limit"
+            name="limit"
+            defaultValue={query.limit}
+            className="form-input"
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-6 flex justify-end space-x-3">
+          <Link href="/attempts" className="btn btn-secondary">
+            Clear
+          </Link>
+          {/* Submitting resets to page 1 since `page` isn't a form field */}
+          <button type="submit" className="btn btn-primary">
+            Apply
+          </button>
+        </div>
+      </form>
 
-      {attempts.length === 0 ? (
-        <p>No attempts found.</p>
+      {isApiError(result) ? (
+        <ApiErrorNotice
+          status={result.status}
+          backendMessage={result.backendMessage}
+          callbackUrl="/attempts"
+        />
+      ) : attempts.length === 0 ? (
+        <p>
+          {hasFilters
+            ? "No attempts match these filters."
+            : "No attempts found."}
+        </p>
       ) : (
         <div className="bg-white shadow rounded-lg overflow-hidden">
           <table className="min-w-full divide-y divide-gray-200">
@@ -112,6 +267,16 @@ export default async function AttemptsPage() {
           </table>
         </div>
       )}
+
+      {!isApiError(result) && (
+        <Pagination
+          page={result.page}
+          pageCount={result.pageCount}
+          total={result.total}
+          limit={result.limit}
+          hrefForPage={(page) => attemptListHref(query, { page })}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,16 @@
+import AccessProblemNotice from "@/components/AccessProblemNotice";
+import { SearchParams, readSearchParam } from "@/lib/pagination";
+
+// NextAuth's error page (`pages.error` in lib/auth.ts). NextAuth redirects
+// here with ?error=<code> when a sign-in fails.
+export default function AuthErrorPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return (
+    <AccessProblemNotice
+      reason={readSearchParam(searchParams, "error") || null}
+    />
+  );
+}
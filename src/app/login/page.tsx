@@ -1,24 +1,56 @@
 "use client";
 
-import { useSession, signIn } from "next-auth/react";
+import {
+  useSession,
+  signIn,
+  getProviders,
+  ClientSafeProvider,
+} from "next-auth/react";
 import { useRouter, useSearchParams } from "next/navigation"; // Use App Router's navigation
-import { useEffect } from "react";
+import { FormEvent, useEffect, useState } from "react";
+import { describeAccessReason, isSessionErrorCode } from "@/lib/accessReasons";
+import { USER_ROLE_OPTIONS } from "@/lib/userListQuery";
 
 export default function LoginPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get("callbackUrl") || "/quizzes"; // Default redirect after login
+  const error = searchParams.get("error");
+  // Configured providers (see authOptions.providers); null until loaded
+  const [providers, setProviders] = useState<ClientSafeProvider[] | null>(null);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [signingIn, setSigningIn] = useState(false);
+  const [devRole, setDevRole] = useState("STUDENT");
 
   useEffect(() => {
-    // If user is already authenticated, redirect them away from login page
-    if (status === "authenticated") {
+    getProviders()
+      .then((result) => setProviders(Object.values(result ?? {})))
+      .catch((e) => {
+        console.error("Failed to load sign-in providers:", e);
+        setProviders([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    // If user is already authenticated, redirect them away from login page.
+    // A session with a token error is about to be signed out by SessionWatcher,
+    // so it doesn't count.
+    if (status === "authenticated" && !isSessionErrorCode(session?.error)) {
       router.push(callbackUrl);
     }
-  }, [status, router, callbackUrl]);
+  }, [status, session?.error, router, callbackUrl]);
 
-  // Show loading state or the login button
-  if (status === "loading") {
+  const handleCredentialsSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    // Redirects on success; failures come back to this page as ?error=CredentialsSignin
+    signIn("credentials", { username, password, callbackUrl });
+  };
+
+  // Show loading state or the login options
+  if (status === "loading" || providers === null) {
     return (
       <div className="flex justify-center items-center min-h-[200px]">
         <p>Loading...</p>
@@ -26,29 +58,122 @@ export default function LoginPage() {
     );
   }
 
-  // Only show login button if not authenticated
+  const oauthProviders = providers.filter((p) => p.type === "oauth");
+
+  // Only show the login options if not authenticated
   if (status === "unauthenticated") {
     return (
       <div className="max-w-md mx-auto mt-10 p-8 border rounded shadow-lg bg-white text-center">
         <h1 className="text-2xl font-semibold mb-6">Login</h1>
-        <p className="mb-6 text-gray-600">
-          Sign in using your Google Account to continue.
-        </p>
-        <button
-          onClick={() => signIn("google", { callbackUrl })} // Pass callbackUrl
-          className="btn btn-primary w-full flex items-center justify-center space-x-2"
-        >
-          {/* Basic Google Icon Placeholder */}
-          <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
-            <path d="M21.35,11.1H12.18V13.83H18.69C18.36,17.64 15.19,19.27 12.19,19.27C8.36,19.27 5,16.25 5,12C5,7.9 8.2,4.73 12.19,4.73C14.03,4.73 15.69,5.36 16.95,6.57L19.05,4.47C17.22,2.77 14.81,1.73 12.19,1.73C6.92,1.73 2.73,6.09 2.73,12C2.73,17.91 6.92,22.27 12.19,22.27C17.6,22.27 21.96,18.36 21.96,12.33C21.96,11.97 21.66,11.1 21.35,11.1Z" />
-          </svg>
-          <span>Sign in with Google</span>
-        </button>
-        {/* Display potential errors passed via URL query params by NextAuth */}
-        {searchParams.get("error") && (
-          <p className="mt-4 text-red-500 bg-red-100 p-3 rounded">
-            Login failed: {searchParams.get("error")}
-          </p>
+        {/* Development only: sign in as a seeded user of the mock backend */}
+        {providers.some((p) => p.id === "dev-login") && (
+          <div className="mb-6 p-4 rounded border border-dashed border-orange-400 bg-orange-50 text-left">
+            <label htmlFor="dev-role" className="form-label">
+              Development login as
+            </label>
+            <div className="flex space-x-3">
+              <select
+                id="dev-role"
+                value={devRole}
+                onChange={(e) => setDevRole(e.target.value)}
+                className="form-input"
+              >
+                {USER_ROLE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => {
+                  setSigningIn(true);
+                  signIn("dev-login", { role: devRole, callbackUrl });
+                }}
+                className="btn btn-warning"
+                disabled={signingIn}
+              >
+                Sign in
+              </button>
+            </div>
+          </div>
+        )}
+        {providers.some((p) => p.id === "credentials") && (
+          <form
+            onSubmit={handleCredentialsSubmit}
+            className="space-y-4 text-left"
+          >
+            <div>
+              <label htmlFor="username" className="form-label">
+                Username
+              </label>
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="form-input"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="form-label">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="form-input"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              className="btn btn-primary w-full"
+              disabled={signingIn}
+            >
+              {signingIn ? "Signing in..." : "Sign in"}
+            </button>
+          </form>
+        )}
+        {oauthProviders.length > 0 && (
+          <div className="mt-6 space-y-3">
+            <p className="text-sm text-gray-500">
+              {providers.some((p) => p.type === "credentials")
+                ? "Or continue with"
+                : "Sign in to continue."}
+            </p>
+            {oauthProviders.map((provider) => (
+              <button
+                key={provider.id}
+                onClick={() => signIn(provider.id, { callbackUrl })} // Pass callbackUrl
+                className="btn btn-secondary w-full flex items-center justify-center space-x-2"
+              >
+                {provider.id === "google" && (
+                  /* Basic Google Icon Placeholder */
+                  <svg
+                    className="w-5 h-5"
+                    viewBox="0 0 24 24"
+                    fill="currentColor"
+                  >
+                    <path d="M21.35,11.1H12.18V13.83H18.69C18.36,17.64 15.19,19.27 12.19,19.27C8.36,19.27 5,16.25 5,12C5,7.9 8.2,4.73 12.19,4.73C14.03,4.73 15.69,5.36 16.95,6.57L19.05,4.47C17.22,2.77 14.81,1.73 12.19,1.73C6.92,1.73 2.73,6.09 2.73,12C2.73,17.91 6.92,22.27 12.19,22.27C17.6,22.27 21.96,18.36 21.96,12.33C21.96,11.97 21.66,11.1 21.35,11.1Z" />
+                  </svg>
+                )}
+                <span>Sign in with {provider.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {/* Explain errors passed via URL query params (NextAuth codes or our own reasons) */}
+        {error && (
+          <div className="mt-4 text-red-700 bg-red-100 p-3 rounded text-left">
+            <p className="font-semibold">{describeAccessReason(error).title}</p>
+            <p className="text-sm">{describeAccessReason(error).message}</p>
+          </div>
         )}
       </div>
     );
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { BankQuestion, Difficulty } from "@/types/quiz";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import {
+  DIFFICULTY_OPTIONS,
+  formatTags,
+  parseTags,
+} from "@/lib/questionBankQuery";
+
+interface BankQuestionActionsProps {
+  question: BankQuestion;
+}
+
+// Edit the bank metadata of a question (subject, tags, difficulty) or delete it.
+// Quizzes the question was inserted into keep their own copy either way.
+export default function BankQuestionActions({
+  question,
+}: BankQuestionActionsProps) {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [subject, setSubject] = useState(question.subject);
+  const [tagsText, setTagsText] = useState(formatTags(question.tags));
+  const [difficulty, setDifficulty] = useState<Difficulty>(question.difficulty);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!session?.accessToken) {
+      setError("Authentication required.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await createApiClient(session.accessToken).questionBank.update(
+        question.id,
+        { subject: subject.trim(), tags: parseTags(tagsText), difficulty },
+      );
+      setEditing(false);
+      router.refresh();
+    } catch (err) {
+      console.error("Failed to update bank question:", err);
+      setError(getApiErrorMessage(err, "Could not update the question."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        "Delete this question from the bank? Quizzes that already use it keep their copy.",
+      )
+    ) {
+      return;
+    }
+    if (!session?.accessToken) {
+      setError("Authentication required.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await createApiClient(session.accessToken).questionBank.delete(
+        question.id,
+      );
+      router.refresh();
+    } catch (err) {
+      console.error("Failed to delete bank question:", err);
+      setError(getApiErrorMessage(err, "Could not delete the question."));
+      setBusy(false); // Keep the buttons visible to show the error
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex flex-col items-end space-y-1">
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setEditing(true)}
+            className="btn btn-secondary btn-sm"
+            disabled={busy}
+          >
+            Edit Tags
+          </button>
+          <button
+            onClick={handleDelete}
+            className="btn btn-danger btn-sm"
+            disabled={busy}
+          >
+            {busy ? "Deleting..." : "Delete"}
+          </button>
+        </div>
+        {error && <p className="text-red-500 text-xs">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 w-64">
+      <input
+        type="text"
+        aria-label="Subject"
+        value={subject}
+        onChange={(e) => setSubject(e.target.value)}
+        placeholder="Subject"
+        className="form-input"
+      />
+      <input
+        type="text"
+        aria-label="Tags"
+        value={tagsText}
+        onChange={(e) => setTagsText(e.target.value)}
+        placeholder="Tags, comma-separated"
+        className="form-input"
+      />
+      <select
+        aria-label="Difficulty"
+        value={difficulty}
+        onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+        className="form-input"
+      >
+        {DIFFICULTY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={() => setEditing(false)}
+          className="btn btn-secondary btn-sm"
+          disabled={busy}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="btn btn-primary btn-sm"
+          disabled={busy}
+        >
+          {busy ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+import { BankQuestion, User } from "@/types/quiz";
+import BankQuestionSummary from "@/components/BankQuestionSummary";
+import Pagination from "@/components/Pagination";
+import {
+  PAGE_SIZE_OPTIONS,
+  PageResult,
+  SearchParams,
+  toPageResult,
+} from "@/lib/pagination";
+import {
+  BankQuestionQuery,
+  DIFFICULTY_OPTIONS,
+  bankQuestionListHref,
+  filterBankQuestions,
+  formatTags,
+  parseBankQuestionQuery,
+  toBankQuestionListParams,
+} from "@/lib/questionBankQuery";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import BankQuestionActions from "./BankQuestionActions"; // Client component for edit/delete
+
+async function getBankQuestions(
+  accessToken: string,
+  query: BankQuestionQuery,
+): Promise<PageResult<BankQuestion> | ApiError> {
+  try {
+    const data = await createApiClient(accessToken).questionBank.list(
+      toBankQuestionListParams(query),
+    );
+    // Fall back to client-side filtering/paging if the backend ignored the params
+    return toPageResult(data, query.page, query.limit, (questions) =>
+      filterBankQuestions(questions, query),
+    );
+  } catch (error) {
+    console.error("Failed to fetch question bank:", error);
+    if (!isApiError(error)) throw error;
+    return error; // Rendered by the page
+  }
+}
+
+export default async function QuestionBankPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const session = await getServerSession(authOptions);
+  const customSession = session as
+    | (typeof session & { accessToken?: string; user?: User })
+    | null;
+
+  if (!customSession?.accessToken || !customSession?.user) {
+    redirect("/login?callbackUrl=/question-bank");
+  }
+
+  const user = customSession.user;
+  // Middleware already restricts this page; this is a fallback check
+  if (user.role !== "TEACHER" && user.role !== "ADMIN") {
+    return (
+      <div className="text-center p-6 bg-red-100 border border-red-300 rounded">
+        <p>Only teachers and admins can use the question bank.</p>
+        <Link
+          href="/quizzes"
+          className="text-blue-600 hover:underline mt-2 inline-block"
+        >
+          Back to Quizzes
+        </Link>
+      </div>
+    );
+  }
+
+  const query = parseBankQuestionQuery(searchParams);
+  const result = await getBankQuestions(customSession.accessToken, query);
+  const hasFilters = Boolean(
+    query.search || query.tags.length || query.subject || query.difficulty,
+  );
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Question Bank</h1>
+        <p className="text-gray-600 mt-1">
+          Reusable questions shared by all teachers. Save questions here from
+          the quiz editor, then insert them into other quizzes or draw them at
+          random with a question pool.
+        </p>
+      </div>
+
+      {/* Filters - a plain GET form so the URL always reflects the current view */}
+      <form
+        method="get"
+        action="/question-bank"
+        className="bg-white p-4 rounded shadow-sm border mb-6 grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+      >
+        <div className="md:col-span-2">
+          <label htmlFor="search" className="form-label">
+            Question text
+          </label>
+          <input
+            type="search"
+            id="search"
+            name="search"
+            defaultValue={query.search}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="tags" className="form-label">
+            Tags
+          </label>
+          <input
+            type="text"
+            id="tags"
+            name="tags"
+            defaultValue={formatTags(query.tags)}
+            placeholder="cells, term 1"
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="subject" className="form-label">
+            Subject
+          </label>
+          <input
+            type="text"
+            id="subject"
+            name="subject"
+            defaultValue={query.subject}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="difficulty" className="form-label">
+            Difficulty
+          </label>
+          <select
+            id="difficulty"
+            name="difficulty"
+            defaultValue={query.difficulty}
+            className="form-input"
+          >
+            <option value="">Any</option>
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="limit" className="form-label">
+            Per page
+          </label>
+          <select
+            id="limit"
+            name="limit"
+            defaultValue={query.limit}
+            className="form-input"
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-6 flex justify-end space-x-3">
+          <Link href="/question-bank" className="btn btn-secondary">
+            Clear
+          </Link>
+          {/* Submitting resets to page 1 since `page` isn't a form field */}
+          <button type="submit" className="btn btn-primary">
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {isApiError(result) ? (
+        <ApiErrorNotice
+          status={result.status}
+          backendMessage={result.backendMessage}
+          callbackUrl="/question-bank"
+        />
+      ) : (
+        <>
+          {result.items.length === 0 && (
+            <p>
+              {hasFilters
+                ? "No bank questions match these filters."
+                : "The question bank is empty. Use “Save to Question Bank” in the quiz editor to add questions."}
+            </p>
+          )}
+          <ul className="space-y-3">
+            {result.items.map((question) => (
+              <li
+                key={question.id}
+                className="bg-white p-4 rounded shadow-sm border flex justify-between items-start space-x-4"
+              >
+                <BankQuestionSummary question={question} />
+                {(user.role === "ADMIN" || user.id === question.owner.id) && (
+                  <BankQuestionActions question={question} />
+                )}
+              </li>
+            ))}
+          </ul>
+          <Pagination
+            page={result.page}
+            pageCount={result.pageCount}
+            total={result.total}
+            limit={result.limit}
+            hrefForPage={(page) => bankQuestionListHref(query, { page })}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { fetchApi } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
 import { useState } from "react";
 
 interface QuizDeleteButtonProps {
@@ -33,16 +34,13 @@ export default function QuizDeleteButton({
     setError(null);
 
     try {
-      await fetchApi(`/quizzes/${quizId}/`, {
-        method: "DELETE",
-        accessToken: session.accessToken,
-      });
+      await createApiClient(session.accessToken).quizzes.delete(quizId);
       // Refresh the page data after successful deletion
       router.refresh();
       // Optionally, show a success message before refresh or redirect
-    } catch (err: any) {
+    } catch (err) {
       console.error("Failed to delete quiz:", err);
-      setError(err.message || "Could not delete the quiz.");
+      setError(getApiErrorMessage(err, "Could not delete the quiz."));
       setIsDeleting(false); // Keep button visible to show error
     }
     // No need to set isDeleting to false if router.refresh() works as expected
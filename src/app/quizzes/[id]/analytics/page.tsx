@@ -0,0 +1,280 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import { fetchAllPages } from "@/lib/pagination";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+import RichText from "@/components/RichText";
+import { QuizAttemptResult, QuizReadOnly, User } from "@/types/quiz";
+import {
+  EASY_QUESTION_THRESHOLD,
+  HARD_QUESTION_THRESHOLD,
+  MIN_RESPONSES_FOR_FLAG,
+  QuestionStats,
+  computeQuizAnalytics,
+} from "@/lib/quizAnalytics";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+
+async function getAnalyticsData(
+  id: string,
+  accessToken: string,
+): Promise<{ quiz: QuizReadOnly; attempts: QuizAttemptResult[] } | ApiError> {
+  try {
+    const api = createApiClient(accessToken);
+    const [quiz, attempts] = await Promise.all([
+      api.quizzes.get(id),
+      fetchAllPages((page, limit) =>
+        api.attempts.list({ quiz: id, page, limit }),
+      ),
+    ]);
+    return { quiz, attempts };
+  } catch (error) {
+    console.error(`Failed to fetch analytics data for quiz ${id}:`, error);
+    if (!isApiError(error)) throw error;
+    if (error.status === 404) {
+      notFound();
+    }
+    return error;
+  }
+}
+
+const formatScore = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Horizontal bar used for per-question and per-option shares
+function ShareBar({ share, className }: { share: number; className: string }) {
+  return (
+    <div className="w-full bg-gray-200 rounded h-3">
+      <div
+        className={`h-3 rounded ${className}`}
+        style={{ width: `${Math.round(share * 100)}%` }}
+      />
+    </div>
+  );
+}
+
+function QuestionFlag({ flag }: { flag: QuestionStats["flag"] }) {
+  if (flag === "hard") {
+    return (
+      <span className="text-xs font-medium bg-red-100 text-red-700 px-2 py-0.5 rounded">
+        Unusually hard
+      </span>
+    );
+  }
+  if (flag === "easy") {
+    return (
+      <span className="text-xs font-medium bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">
+        Unusually easy
+      </span>
+    );
+  }
+  return null;
+}
+
+export default async function QuizAnalyticsPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const session = await getServerSession(authOptions);
+  const customSession = session as
+    | (typeof session & { accessToken?: string; user?: User })
+    | null;
+  const user = customSession?.user;
+
+  // Protect route - must be logged in (middleware also enforces the role)
+  if (!customSession?.accessToken || !user) {
+    redirect(`/login?callbackUrl=/quizzes/${params.id}/analytics`);
+  }
+
+  const data = await getAnalyticsData(params.id, customSession.accessToken);
+
+  if (isApiError(data)) {
+    return (
+      <ApiErrorNotice
+        status={data.status}
+        backendMessage={data.backendMessage}
+        callbackUrl={`/quizzes/${params.id}/analytics`}
+        backHref={`/quizzes/${params.id}`}
+        backLabel="Back to Quiz"
+      />
+    );
+  }
+
+  const { quiz, attempts } = data;
+
+  // Only the quiz owner or an admin may see its analytics
+  const isAdmin = user.role === "ADMIN";
+  const isOwner = user.role === "TEACHER" && user.id === quiz.teacher.id;
+
+  if (!isOwner && !isAdmin) {
+    console.warn(
+      `User ${user.id} attempted to view analytics for quiz ${quiz.id} without permission.`,
+    );
+    return (
+      <div className="text-center p-6 bg-red-100 border border-red-300 rounded">
+        <p>You do not have permission to view analytics for this quiz.</p>
+        <Link
+          href={`/quizzes/${quiz.id}`}
+          className="text-blue-600 hover:underline mt-2 inline-block"
+        >
+          Back to Quiz
+        </Link>
+      </div>
+    );
+  }
+
+  const analytics = computeQuizAnalytics(quiz, attempts);
+  const largestBucket = Math.max(...analytics.histogram.map((b) => b.count), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Analytics: {quiz.title}</h1>
+        <Link
+          href={`/quizzes/${quiz.id}`}
+          className="text-blue-600 hover:underline"
+        >
+          Back to Quiz
+        </Link>
+      </div>
+
+      {!analytics.scores ? (
+        <p className="text-gray-600 text-center p-6 bg-gray-50 rounded border">
+          No attempts have been submitted for this quiz yet.
+        </p>
+      ) : (
+        <>
+          {/* Score Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              ["Attempts", String(analytics.attemptCount)],
+              ["Mean", formatScore(analytics.scores.mean)],
+              ["Median", formatScore(analytics.scores.median)],
+              ["Min", formatScore(analytics.scores.min)],
+              ["Max", formatScore(analytics.scores.max)],
+            ].map(([label, value]) => (
+              <div
+                key={label}
+                className="bg-white p-4 rounded shadow-sm border text-center"
+              >
+                <p className="text-sm text-gray-500">{label}</p>
+                <p className="text-2xl font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500">
+            Scores are out of {analytics.maxPossibleScore} point(s).
+          </p>
+
+          {/* Score Distribution */}
+          <section className="bg-white p-4 rounded shadow-sm border">
+            <h2 className="text-xl font-semibold mb-4">Score Distribution</h2>
+            <div className="flex items-end gap-2 h-40">
+              {analytics.histogram.map((bucket, index) => (
+                <div
+                  key={index}
+                  className="flex-1 flex flex-col items-center justify-end h-full"
+                  title={`${formatScore(bucket.from)}-${formatScore(bucket.to)}: ${bucket.count} attempt(s)`}
+                >
+                  <span className="text-xs text-gray-600">
+                    {bucket.count > 0 ? bucket.count : ""}
+                  </span>
+                  <div
+                    className="w-full bg-blue-500 rounded-t"
+                    style={{
+                      height: `${(bucket.count / largestBucket) * 100}%`,
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-1">
+              {analytics.histogram.map((bucket, index) => (
+                <span
+                  key={index}
+                  className="flex-1 text-center text-xs text-gray-500"
+                >
+                  {formatScore(bucket.from)}
+                </span>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+
+      {/* Per-Question Breakdown */}
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">Questions</h2>
+        <p className="text-sm text-gray-500">
+          Questions answered correctly by fewer than{" "}
+          {formatPercent(HARD_QUESTION_THRESHOLD)} or more than{" "}
+          {formatPercent(EASY_QUESTION_THRESHOLD)} of students are flagged once
+          at least {MIN_RESPONSES_FOR_FLAG} students have answered them.
+        </p>
+        {analytics.questions.map((stats, index) => (
+          <div
+            key={stats.question.id}
+            className="bg-white p-4 rounded shadow-sm border space-y-3"
+          >
+            <div className="flex justify-between items-start gap-4">
+              <div className="font-medium flex gap-1">
+                <span>{index + 1}.</span>
+                <RichText text={stats.question.text} />
+              </div>
+              <QuestionFlag flag={stats.flag} />
+            </div>
+            <div className="text-sm text-gray-600">
+              {stats.correctCount} of {stats.responseCount} correct (
+              {formatPercent(stats.correctShare)})
+              {stats.skippedCount > 0 &&
+                `, ${stats.skippedCount} unanswered or ungraded`}
+            </div>
+            <ShareBar share={stats.correctShare} className="bg-green-500" />
+
+            {stats.question.question_type === "TRUE_FALSE" ? (
+              <ul className="text-sm space-y-1">
+                <li>Answered True: {stats.trueCount}</li>
+                <li>Answered False: {stats.falseCount}</li>
+              </ul>
+            ) : (
+              stats.options.length > 0 && (
+                <ul className="space-y-2">
+                  {stats.options.map((optionStats) => (
+                    <li key={optionStats.option.id} className="text-sm">
+                      <div className="flex justify-between">
+                        <span
+                          className={
+                            optionStats.isCorrect
+                              ? "font-medium text-green-700"
+                              : ""
+                          }
+                        >
+                          <RichText text={optionStats.option.text} inline />
+                          {optionStats.isCorrect && " (correct)"}
+                        </span>
+                        <span className="text-gray-600">
+                          {optionStats.pickedCount} (
+                          {formatPercent(optionStats.pickedShare)})
+                        </span>
+                      </div>
+                      <ShareBar
+                        share={optionStats.pickedShare}
+                        className={
+                          optionStats.isCorrect ? "bg-green-400" : "bg-gray-400"
+                        }
+                      />
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
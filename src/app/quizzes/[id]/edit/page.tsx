@@ -0,0 +1,87 @@
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
+import { QuizReadOnly, User } from "@/types/quiz";
+import { toQuizWritable } from "@/lib/quizConversion";
+import QuizManageForm from "@/components/QuizManageForm"; // Client Component
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+
+async function getQuizForEdit(
+  id: string,
+  accessToken: string,
+): Promise<QuizReadOnly | ApiError> {
+  try {
+    const quiz = await createApiClient(accessToken).quizzes.get(id);
+    return quiz;
+  } catch (error) {
+    console.error(`Failed to fetch quiz ${id} for editing:`, error);
+    if (!isApiError(error)) throw error;
+    if (error.status === 404) {
+      notFound();
+    }
+    return error;
+  }
+}
+
+export default async function EditQuizPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const session = await getServerSession(authOptions);
+  const customSession = session as
+    | (typeof session & { accessToken?: string; user?: User })
+    | null;
+  const user = customSession?.user;
+
+  // Protect route - must be logged in (middleware also enforces the role)
+  if (!customSession?.accessToken || !user) {
+    redirect(`/login?callbackUrl=/quizzes/${params.id}/edit`);
+  }
+
+  const quiz = await getQuizForEdit(params.id, customSession.accessToken);
+
+  if (isApiError(quiz)) {
+    return (
+      <ApiErrorNotice
+        status={quiz.status}
+        backendMessage={quiz.backendMessage}
+        callbackUrl={`/quizzes/${params.id}/edit`}
+        backHref="/quizzes"
+        backLabel="Back to Quizzes"
+      />
+    );
+  }
+
+  // Only the quiz owner or an admin may edit it
+  const isAdmin = user.role === "ADMIN";
+  const isOwner = user.role === "TEACHER" && user.id === quiz.teacher.id;
+
+  if (!isOwner && !isAdmin) {
+    console.warn(
+      `User ${user.id} attempted to edit quiz ${quiz.id} without permission.`,
+    );
+    return (
+      <div className="text-center p-6 bg-red-100 border border-red-300 rounded">
+        <p>You do not have permission to edit this quiz.</p>
+        <Link
+          href={`/quizzes/${quiz.id}`}
+          className="text-blue-600 hover:underline mt-2 inline-block"
+        >
+          Back to Quiz
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">Edit Quiz</h1>
+      {/* Render the client component form with the quiz converted to its writable shape */}
+      <QuizManageForm quiz={toQuizWritable(quiz)} isEditMode={true} />
+    </div>
+  );
+}
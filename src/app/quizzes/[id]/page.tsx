@@ -1,55 +1,40 @@
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
-import { fetchApi } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
 import { QuizReadOnly, User } from "@/types/quiz";
 import QuizAttemptForm from "@/components/QuizAttemptForm"; // Client Component
 import Link from "next/link";
-import { notFound, redirect } from "next/navigation";
+import { notFound } from "next/navigation";
 import QuizDeleteButton from "../QuizDeleteButton"; // Re-use delete button
+import QuizExportButtons from "@/components/QuizExportButtons"; // Client Component
+import RichText from "@/components/RichText";
+import { describeDifficulty, formatTags } from "@/lib/questionBankQuery";
 
 async function getQuizDetail(
   id: string,
   accessToken: string | null,
-): Promise<QuizReadOnly | null> {
+): Promise<QuizReadOnly | ApiError> {
   if (!accessToken) {
     // Allow viewing quiz details even if not logged in, maybe?
     // Adjust based on backend permission (AllowAny for GET /quizzes/{id}/)
     console.warn(
       "Fetching quiz detail without access token (assuming public access).",
     );
-    // If details require auth, return null or throw error
-    // return null;
   }
   try {
     // If AllowAny, attempt fetch even without token, otherwise require token
-    const quiz = await fetchApi<QuizReadOnly>(`/quizzes/${id}/`, {
-      method: "GET",
-      // Only pass token if available and potentially required by backend
-      ...(accessToken && { accessToken: accessToken }),
-    });
+    const quiz = await createApiClient(accessToken).quizzes.get(id);
     return quiz;
-  } catch (error: any) {
+  } catch (error) {
     console.error(`Failed to fetch quiz ${id}:`, error);
-    if (
-      error.message?.includes("404") ||
-      error.message?.includes("Not found")
-    ) {
+    if (!isApiError(error)) throw error; // Unexpected errors go to the error boundary
+    if (error.status === 404) {
       notFound(); // Trigger Next.js 404 page
     }
-    // Handle other errors (e.g., permission denied if token was required but invalid/missing)
-    if (
-      error.message?.includes("Authentication credentials were not provided")
-    ) {
-      // Maybe redirect to login if auth is strictly required for viewing
-      // redirect('/login?callbackUrl=/quizzes/' + id);
-      console.error("Authentication required to view this quiz detail.");
-      // Decide how to handle - show limited info, or force login?
-      // For now, let it fail and potentially show an error message below.
-      return null; // Indicate failure
-    }
-    // Rethrow for other unexpected errors
-    // throw error; // Or return null to show a generic error message
-    return null;
+    // Other failures (401/403/5xx...) are rendered by the page
+    return error;
   }
 }
 
@@ -70,33 +55,16 @@ export default async function QuizDetailPage({
     customSession?.accessToken ?? null,
   );
 
-  if (!quiz) {
-    // Handle case where quiz fetch failed or returned null
-    // Check if it was an auth issue vs not found
-    if (!customSession?.accessToken) {
-      return (
-        <div className="text-center p-6 bg-yellow-100 border border-yellow-300 rounded">
-          <p>
-            You might need to{" "}
-            <Link
-              href={`/login?callbackUrl=/quizzes/${params.id}`}
-              className="font-bold text-blue-600 hover:underline"
-            >
-              log in
-            </Link>{" "}
-            to view the details or attempt this quiz.
-          </p>
-        </div>
-      );
-    }
-    // If logged in but still no quiz, assume fetch failed or non-existent
+  if (isApiError(quiz)) {
     return (
-      <div className="text-center p-6 bg-red-100 border border-red-300 rounded">
-        Quiz details could not be loaded. It might not exist or there was an
-        error.
-      </div>
+      <ApiErrorNotice
+        status={quiz.status}
+        backendMessage={quiz.backendMessage}
+        callbackUrl={`/quizzes/${params.id}`}
+        backHref="/quizzes"
+        backLabel="Back to Quizzes"
+      />
     );
-    // Or use notFound() if appropriate based on getQuizDetail logic
   }
 
   // Determine user's ability to interact
@@ -123,6 +91,13 @@ export default async function QuizDetailPage({
           >
             Edit Quiz
           </Link>
+          <Link
+            href={`/quizzes/${quiz.id}/analytics`}
+            className="btn btn-secondary btn-sm"
+          >
+            Analytics
+          </Link>
+          <QuizExportButtons quiz={quiz} />
           {/* Use the client component for delete */}
           <QuizDeleteButton quizId={quiz.id} quizTitle={quiz.title} />
         </div>
@@ -154,7 +129,13 @@ export default async function QuizDetailPage({
           )}
           {isMarked && (
             <p className="text-red-600 bg-red-100 p-3 rounded mb-4">
-              You are marked and cannot submit new attempts.
+              You are marked and cannot submit new attempts.{" "}
+              <Link
+                href="/unauthorized?reason=marked"
+                className="font-bold hover:underline"
+              >
+                Why?
+              </Link>
             </p>
           )}
           {!quiz.is_available_for_submission && isStudent && !isMarked && (
@@ -182,7 +163,10 @@ export default async function QuizDetailPage({
             <ul className="list-decimal pl-5 space-y-3">
               {quiz.questions.map((q) => (
                 <li key={q.id} className="text-gray-800">
-                  {q.text} ({q.points} points)
+                  <RichText text={q.text} />
+                  <span className="text-sm text-gray-500">
+                    ({q.points} points)
+                  </span>
                 </li>
               ))}
             </ul>
@@ -191,6 +175,24 @@ export default async function QuizDetailPage({
               No questions found in this quiz preview.
             </p>
           )}
+          {quiz.question_pools && quiz.question_pools.length > 0 && (
+            <div className="mt-4">
+              <h3 className="font-semibold mb-2">
+                Plus random questions from the question bank
+              </h3>
+              <ul className="list-disc pl-5 space-y-1 text-gray-800">
+                {quiz.question_pools.map((pool, index) => (
+                  <li key={pool.id ?? index}>
+                    {pool.count} question{pool.count === 1 ? "" : "s"} tagged{" "}
+                    {formatTags(pool.tags)}
+                    {pool.subject && ` in ${pool.subject}`}
+                    {pool.difficulty &&
+                      ` (${describeDifficulty(pool.difficulty).toLowerCase()})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
     </div>
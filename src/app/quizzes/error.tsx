@@ -0,0 +1,20 @@
+"use client"; // Error boundaries must be Client Components
+
+import RouteErrorNotice from "@/components/RouteErrorNotice";
+
+export default function QuizError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <RouteErrorNotice
+      error={error}
+      reset={reset}
+      backHref="/quizzes"
+      backLabel="Back to Quizzes"
+    />
+  );
+}
@@ -10,9 +10,12 @@ export default async function NewQuizPage() {
   const user = customSession?.user;
 
   // Protect route: Only Teachers or Admins can create quizzes
-  if (!user || (user.role !== "TEACHER" && user.role !== "ADMIN")) {
+  if (!user) {
+    redirect("/login?callbackUrl=/quizzes/new");
+  }
+  if (user.role !== "TEACHER" && user.role !== "ADMIN") {
     console.log("Unauthorized access attempt to /quizzes/new");
-    redirect("/login?error=Unauthorized"); // Or redirect to an unauthorized page
+    redirect("/unauthorized?reason=role");
   }
 
   return (
@@ -0,0 +1,12 @@
+import RouteNotFoundNotice from "@/components/RouteNotFoundNotice";
+
+export default function QuizNotFound() {
+  return (
+    <RouteNotFoundNotice
+      title="Quiz not found"
+      message="This quiz doesn't exist or has been deleted."
+      backHref="/quizzes"
+      backLabel="Back to Quizzes"
+    />
+  );
+}
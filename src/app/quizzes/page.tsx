@@ -1,35 +1,69 @@
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
-import { fetchApi } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { ApiError, isApiError } from "@/lib/api";
+import ApiErrorNotice from "@/components/ApiErrorNotice";
 import { QuizReadOnly, User } from "@/types/quiz"; // Use your defined types
 import QuizCard from "@/components/QuizCard";
+import Pagination from "@/components/Pagination";
+import {
+  PAGE_SIZE_OPTIONS,
+  PageResult,
+  SearchParams,
+  toPageResult,
+} from "@/lib/pagination";
+import {
+  QUIZ_SORT_OPTIONS,
+  QUIZ_STATUS_OPTIONS,
+  QuizListQuery,
+  filterAndSortQuizzes,
+  parseQuizListQuery,
+  quizListHref,
+  toQuizListParams,
+} from "@/lib/quizListQuery";
 import Link from "next/link";
 import QuizDeleteButton from "./QuizDeleteButton"; // Client component for delete action
 
-// Helper function to fetch quizzes (can be reused)
-async function getQuizzes(accessToken: string | null): Promise<QuizReadOnly[]> {
-  if (!accessToken) return []; // Handle case where user isn't logged in or token is missing
+// Helper function to fetch one page of quizzes (can be reused)
+async function getQuizzes(
+  accessToken: string | null,
+  query: QuizListQuery,
+): Promise<PageResult<QuizReadOnly> | ApiError> {
+  if (!accessToken) {
+    // Handle case where user isn't logged in or token is missing
+    return toPageResult([], query.page, query.limit, (items) => items);
+  }
   try {
-    const quizzes = await fetchApi<QuizReadOnly[]>("/quizzes/", {
-      method: "GET",
-      accessToken: accessToken,
-    });
-    return quizzes;
+    const data = await createApiClient(accessToken).quizzes.list(
+      toQuizListParams(query),
+    );
+    // Fall back to client-side filtering/paging if the backend ignored the params
+    return toPageResult(data, query.page, query.limit, (quizzes) =>
+      filterAndSortQuizzes(quizzes, query),
+    );
   } catch (error) {
     console.error("Failed to fetch quizzes:", error);
-    // Handle error appropriately, maybe return empty array or throw
-    return [];
+    if (!isApiError(error)) throw error;
+    return error; // Rendered by the page
   }
 }
 
-export default async function QuizzesPage() {
+export default async function QuizzesPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
   const session = await getServerSession(authOptions);
   // Type assertion for custom session properties
   const customSession = session as
     | (typeof session & { accessToken?: string; user?: User })
     | null;
   const user = customSession?.user;
-  const quizzes = await getQuizzes(customSession?.accessToken ?? null);
+  const query = parseQuizListQuery(searchParams);
+  const result = await getQuizzes(customSession?.accessToken ?? null, query);
+  const loadError = isApiError(result) ? result : null;
+  const quizzes = isApiError(result) ? [] : result.items;
+  const hasFilters = Boolean(query.search || query.teacher || query.status);
 
   // Determine if the user can add/manage quizzes
   const canManageQuizzes = user?.role === "ADMIN" || user?.role === "TEACHER";
@@ -45,6 +79,102 @@ export default async function QuizzesPage() {
         )}
       </div>
 
+      {/* Filters - a plain GET form so the URL always reflects the current view */}
+      {customSession?.accessToken && (
+        <form
+          method="get"
+          action="/quizzes"
+          className="bg-white p-4 rounded shadow-sm border mb-6 grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+        >
+          <div className="md:col-span-2">
+            <label htmlFor="search" className="form-label">
+              Title
+            </label>
+            <input
+              type="search"
+              id="search"
+              name="search"
+              defaultValue={query.search}
+              placeholder="Search by title"
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label htmlFor="teacher" className="form-label">
+              Teacher
+            </label>
+            <input
+              type="text"
+              id="teacher"
+              name="teacher"
+              defaultValue={query.teacher}
+              placeholder="Username"
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label htmlFor="status" className="form-label">
+              Status
+            </label>
+            <select
+              id="status"
+              name="status"
+              defaultValue={query.status}
+              className="form-input"
+            >
+              {QUIZ_STATUS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="sort" className="form-label">
+              Sort
+            </label>
+            <select
+              id="sort"
+              name="sort"
+              defaultValue={query.sort}
+              className="form-input"
+            >
+              {QUIZ_SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="limit" className="form-label">
+              Per page
+            </label>
+            <select
+              id="limit"
+              name="limit"
+              defaultValue={query.limit}
+              className="form-input"
+            >
+              {PAGE_SIZE_OPTIONS.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-6 flex justify-end space-x-3">
+            <Link href="/quizzes" className="btn btn-secondary">
+              Clear
+            </Link>
+            {/* Submitting resets to page 1 since `page` isn't a form field */}
+            <button type="submit" className="btn btn-primary">
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+
       {quizzes.length === 0 && !customSession?.accessToken && (
         <p>
           Please{" "}
@@ -54,8 +184,19 @@ export default async function QuizzesPage() {
           to view quizzes.
         </p>
       )}
-      {quizzes.length === 0 && customSession?.accessToken && (
-        <p>No quizzes available at the moment.</p>
+      {loadError && (
+        <ApiErrorNotice
+          status={loadError.status}
+          backendMessage={loadError.backendMessage}
+          callbackUrl="/quizzes"
+        />
+      )}
+      {!loadError && quizzes.length === 0 && customSession?.accessToken && (
+        <p>
+          {hasFilters
+            ? "No quizzes match these filters."
+            : "No quizzes available at the moment."}
+        </p>
       )}
 
       <div className="space-y-4">
@@ -81,6 +222,16 @@ export default async function QuizzesPage() {
           );
         })}
       </div>
+
+      {!isApiError(result) && (
+        <Pagination
+          page={result.page}
+          pageCount={result.pageCount}
+          total={result.total}
+          limit={result.limit}
+          hrefForPage={(page) => quizListHref(query, { page })}
+        />
+      )}
     </div>
   );
 }
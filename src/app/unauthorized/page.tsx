@@ -0,0 +1,20 @@
+import AccessProblemNotice from "@/components/AccessProblemNotice";
+import { safeCallbackUrl } from "@/lib/accessReasons";
+import { SearchParams, readSearchParam } from "@/lib/pagination";
+
+// Target of the middleware and page-level access redirects,
+// e.g. /unauthorized?reason=role
+export default function UnauthorizedPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  return (
+    <AccessProblemNotice
+      reason={readSearchParam(searchParams, "reason") || null}
+      callbackUrl={safeCallbackUrl(
+        readSearchParam(searchParams, "callbackUrl"),
+      )}
+    />
+  );
+}
@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { AccessAction, describeAccessReason } from "@/lib/accessReasons";
+
+interface AccessProblemNoticeProps {
+  reason: string | null; // A reason or auth error code (see lib/accessReasons)
+  callbackUrl?: string; // Where to return after logging in
+}
+
+const ACTION_LABELS: Record<AccessAction, string> = {
+  login: "Log in",
+  "retry-login": "Try Again",
+  home: "Go Home",
+  quizzes: "Browse Quizzes",
+};
+
+// Explains why the user ended up on an access or sign-in error page and
+// offers the actions that make sense for that reason.
+export default function AccessProblemNotice({
+  reason,
+  callbackUrl,
+}: AccessProblemNoticeProps) {
+  const { title, message, actions } = describeAccessReason(reason);
+
+  const hrefFor = (action: AccessAction) => {
+    if (action === "login" || action === "retry-login") {
+      return callbackUrl
+        ? `/login?callbackUrl=${encodeURIComponent(callbackUrl)}`
+        : "/login";
+    }
+    return action === "home" ? "/" : "/quizzes";
+  };
+
+  return (
+    <div
+      className="max-w-md mx-auto mt-10 p-8 border rounded shadow-lg bg-white text-center"
+      role="alert"
+    >
+      <h1 className="text-2xl font-semibold mb-4">{title}</h1>
+      <p className="mb-6 text-gray-600">{message}</p>
+      <div className="flex justify-center space-x-3">
+        {actions.map((action, index) => (
+          <Link
+            key={action}
+            href={hrefFor(action)}
+            className={`btn ${index === 0 ? "btn-primary" : "btn-secondary"}`}
+          >
+            {ACTION_LABELS[action]}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 import { ParticipantAnswerResult, AnswerOption } from "@/types/quiz";
+import { AnswerScore } from "@/lib/scoring";
+import { toPlainText } from "@/lib/richText";
+import RichText from "./RichText";
 
 interface AnswerResultDisplayProps {
   answerResult: ParticipantAnswerResult;
+  score?: AnswerScore; // Points earned under the quiz's scoring policy
+  /** Show the question and option explanations (see lib/explanations for when participants may). */
+  showExplanations?: boolean;
 }
 
 // Helper to check if an option is correct or selected
@@ -11,8 +17,14 @@ const isSelected = (optionId: number, selectedOptions: AnswerOption[]) =>
 const isCorrectOption = (optionId: number, correctOptions: AnswerOption[]) =>
   correctOptions.some((opt) => opt.id === optionId);
 
+// Shared styles for "your answer" text, depending on whether it was right
+const answerClass = (wasCorrect: boolean | null) =>
+  `font-medium ${wasCorrect === true ? "text-green-700" : wasCorrect === false ? "text-red-700" : "text-gray-700"}`;
+
 export default function AnswerResultDisplay({
   answerResult,
+  score,
+  showExplanations = false,
 }: AnswerResultDisplayProps) {
   const question = answerResult.question;
   const selectedOptions = answerResult.selected_options || [];
@@ -20,14 +32,23 @@ export default function AnswerResultDisplay({
   const selectedBool = answerResult.selected_answer_bool;
   const correctBool = answerResult.correct_answer_bool; // May be null
   const wasCorrect = answerResult.is_correct;
+  // Partial credit: some but not all of the points were earned
+  const isPartial =
+    score !== undefined && score.earned > 0 && score.earned < score.possible;
+  const explanation = showExplanations ? question.explanation?.trim() : "";
 
   return (
     <div
-      className={`border p-4 rounded mb-4 ${wasCorrect === true ? "border-green-300 bg-green-50" : wasCorrect === false ? "border-red-300 bg-red-50" : "border-gray-300 bg-gray-50"}`}
+      className={`border p-4 rounded mb-4 ${isPartial ? "border-yellow-300 bg-yellow-50" : wasCorrect === true ? "border-green-300 bg-green-50" : wasCorrect === false ? "border-red-300 bg-red-50" : "border-gray-300 bg-gray-50"}`}
     >
-      <p className="font-semibold">
-        {question.text} ({question.points} points)
-      </p>
+      <div className="flex justify-between items-start gap-4 font-semibold">
+        <RichText text={question.text} />
+        <span className="whitespace-nowrap">
+          {score
+            ? `(${score.earned} / ${score.possible} points)`
+            : `(${question.points} points)`}
+        </span>
+      </div>
       <div className="mt-3 space-y-2">
         {question.question_type === "TRUE_FALSE" && (
           <>
@@ -68,40 +89,172 @@ export default function AnswerResultDisplay({
               styles += "bg-white border-gray-200 text-gray-700"; // Not selected, not correct
             }
 
+            const optionExplanation = showExplanations
+              ? option.explanation?.trim()
+              : "";
+
             return (
-              <div key={option.id} className={styles}>
-                <span className="mr-2">
-                  {userSelected ? "☑" : "☐"} {/* Indicate selection */}
-                </span>
-                <span className="flex-grow">{option.text}</span>
-                {correctOptions.length > 0 && actuallyCorrect && (
-                  <span className="ml-2 text-green-600 font-bold text-xs">
-                    (Correct)
+              <div key={option.id}>
+                <div className={styles}>
+                  <span className="mr-2">
+                    {userSelected ? "☑" : "☐"} {/* Indicate selection */}
                   </span>
-                )}
-                {userSelected &&
-                  !actuallyCorrect &&
-                  correctOptions.length > 0 && (
-                    <span className="ml-2 text-red-600 font-bold text-xs">
-                      (Incorrect Selection)
+                  <RichText text={option.text} inline className="flex-grow" />
+                  {correctOptions.length > 0 && actuallyCorrect && (
+                    <span className="ml-2 text-green-600 font-bold text-xs">
+                      (Correct)
                     </span>
                   )}
+                  {userSelected &&
+                    !actuallyCorrect &&
+                    correctOptions.length > 0 && (
+                      <span className="ml-2 text-red-600 font-bold text-xs">
+                        (Incorrect Selection)
+                      </span>
+                    )}
+                </div>
+                {optionExplanation && (
+                  <RichText
+                    text={optionExplanation}
+                    className="ml-6 mt-1 text-sm text-gray-600"
+                  />
+                )}
+              </div>
+            );
+          })}
+
+        {question.question_type === "SHORT_ANSWER" && (
+          <>
+            <p>
+              Your Answer:{" "}
+              <span className={answerClass(wasCorrect)}>
+                {answerResult.answer_text || "Not Answered"}
+              </span>
+            </p>
+            {(question.accepted_answers?.length ?? 0) > 0 && ( // Only show accepted answers if provided
+              <p className="text-sm text-green-800">
+                Accepted Answer{question.accepted_answers!.length > 1 && "s"}:{" "}
+                {question.accepted_answers!.join(", ")}
+                {question.case_sensitive && " (case-sensitive)"}
+              </p>
+            )}
+          </>
+        )}
+
+        {question.question_type === "NUMERIC" && (
+          <>
+            <p>
+              Your Answer:{" "}
+              <span className={answerClass(wasCorrect)}>
+                {typeof answerResult.answer_number === "number"
+                  ? answerResult.answer_number
+                  : "Not Answered"}
+              </span>
+            </p>
+            {typeof question.correct_answer_number === "number" && (
+              <p className="text-sm text-green-800">
+                Correct Answer: {question.correct_answer_number}
+                {(question.tolerance ?? 0) > 0 && ` ± ${question.tolerance}`}
+              </p>
+            )}
+          </>
+        )}
+
+        {question.question_type === "ORDERING" &&
+          (answerResult.ordered_option_ids?.length ? (
+            <ol className="space-y-1">
+              {answerResult.ordered_option_ids.map((optionId, position) => {
+                const option = question.answer_options.find(
+                  (opt) => opt.id === optionId,
+                );
+                const correctId = question.correct_order_ids?.[position];
+                const inPlace =
+                  correctId === undefined ? null : correctId === optionId;
+                return (
+                  <li
+                    key={optionId}
+                    className={`flex p-2 rounded border text-sm ${inPlace === true ? "bg-green-100 border-green-300" : inPlace === false ? "bg-red-100 border-red-300" : "bg-white border-gray-200"}`}
+                  >
+                    <span className="mr-2 text-gray-500">{position + 1}.</span>
+                    <RichText
+                      text={option?.text ?? ""}
+                      inline
+                      className="flex-grow"
+                    />
+                    {inPlace === false && (
+                      <span className="ml-2 text-red-600 text-xs">
+                        (Should be{" "}
+                        {toPlainText(
+                          question.answer_options.find(
+                            (opt) => opt.id === correctId,
+                          )?.text ?? "",
+                        )}
+                        )
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          ) : (
+            <p className="text-gray-500">Not Answered</p>
+          ))}
+
+        {question.question_type === "MATCHING" &&
+          (question.match_prompts ?? []).map((prompt) => {
+            const chosenId = answerResult.matches?.find(
+              (pair) => pair.prompt_id === prompt.id,
+            )?.choice_id;
+            const correctId = question.matching_pairs?.find(
+              (pair) => pair.prompt_id === prompt.id,
+            )?.choice_id;
+            const choiceText = (id: number | undefined) =>
+              question.match_choices?.find((c) => c.id === id)?.text;
+            const matched =
+              correctId === undefined ? null : chosenId === correctId;
+            return (
+              <div
+                key={prompt.id}
+                className={`p-2 rounded border text-sm ${matched === true ? "bg-green-100 border-green-300" : matched === false ? "bg-red-100 border-red-300" : "bg-white border-gray-200"}`}
+              >
+                <RichText text={prompt.text} inline className="font-medium" />{" "}
+                &rarr;{" "}
+                {chosenId !== undefined ? (
+                  <RichText text={choiceText(chosenId) ?? ""} inline />
+                ) : (
+                  <span className="text-gray-500">Not Answered</span>
+                )}
+                {matched === false && (
+                  <span className="ml-2 text-green-700 text-xs">
+                    (Correct: {toPlainText(choiceText(correctId) ?? "")})
+                  </span>
+                )}
               </div>
             );
           })}
       </div>
       {/* Overall Correctness Indicator */}
       <div className="mt-3 text-sm font-medium">
-        {wasCorrect === true && (
-          <span className="text-green-600">✔ Correct</span>
+        {isPartial ? (
+          <span className="text-yellow-700">◐ Partially Correct</span>
+        ) : (
+          wasCorrect === true && (
+            <span className="text-green-600">✔ Correct</span>
+          )
         )}
-        {wasCorrect === false && (
+        {wasCorrect === false && !isPartial && (
           <span className="text-red-600">✘ Incorrect</span>
         )}
         {wasCorrect === null && (
           <span className="text-gray-500">? Not Graded / Skipped</span>
         )}
       </div>
+      {explanation && (
+        <div className="mt-3 p-3 rounded border border-blue-200 bg-blue-50 text-sm">
+          <p className="font-medium text-blue-800 mb-1">Explanation</p>
+          <RichText text={explanation} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { describeApiError } from "@/lib/apiErrorMessages";
+
+interface ApiErrorNoticeProps {
+  status: number | null; // HTTP status of the failed request (null = no response)
+  backendMessage?: string | null;
+  callbackUrl?: string; // Where to return after logging in (401)
+  backHref?: string;
+  backLabel?: string;
+}
+
+// Page-level error box used by server and client components alike.
+// Takes plain props (not the ApiError itself) so it can cross the server/client boundary.
+export default function ApiErrorNotice({
+  status,
+  backendMessage,
+  callbackUrl,
+  backHref,
+  backLabel = "Go Back",
+}: ApiErrorNoticeProps) {
+  const { title, message } = describeApiError(status, backendMessage);
+  // Auth problems are a prompt rather than a failure
+  const isAuthProblem = status === 401;
+
+  return (
+    <div
+      className={`text-center p-6 rounded border ${isAuthProblem ? "bg-yellow-100 border-yellow-300" : "bg-red-100 border-red-300"}`}
+      role="alert"
+    >
+      <p className="font-semibold mb-1">{title}</p>
+      <p>{message}</p>
+      <div className="mt-3 space-x-4">
+        {isAuthProblem && (
+          <Link
+            href={
+              callbackUrl
+                ? `/login?callbackUrl=${encodeURIComponent(callbackUrl)}`
+                : "/login"
+            }
+            className="font-bold text-blue-600 hover:underline"
+          >
+            Log in
+          </Link>
+        )}
+        {backHref && (
+          <Link href={backHref} className="text-blue-600 hover:underline">
+            {backLabel}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { QuestionProgress } from "@/lib/attemptNavigation";
+import { toPlainText } from "@/lib/richText";
+
+interface AttemptReviewSummaryProps {
+  progress: QuestionProgress[];
+  onJump: (index: number) => void;
+}
+
+// Lists the unanswered and flagged questions of an attempt, each with a
+// button that takes the student back to it.
+export default function AttemptReviewSummary({
+  progress,
+  onJump,
+}: AttemptReviewSummaryProps) {
+  const answeredCount = progress.filter((p) => p.status === "answered").length;
+  const unanswered = progress.filter((p) => p.status === "unanswered");
+  const flagged = progress.filter((p) => p.flagged);
+
+  const renderList = (items: QuestionProgress[]) => (
+    <ul className="space-y-1">
+      {items.map(({ question, index }) => (
+        <li key={question.id}>
+          <button
+            type="button"
+            onClick={() => onJump(index)}
+            className="text-blue-600 hover:underline text-left"
+          >
+            Question {index + 1}: {toPlainText(question.text)}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="font-medium">
+        You have answered {answeredCount} of {progress.length} questions.
+      </p>
+      {unanswered.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-red-700 mb-1">
+            Unanswered ({unanswered.length})
+          </h4>
+          {renderList(unanswered)}
+        </div>
+      )}
+      {flagged.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-orange-600 mb-1">
+            Flagged for review ({flagged.length})
+          </h4>
+          {renderList(flagged)}
+        </div>
+      )}
+      {unanswered.length === 0 && flagged.length === 0 && (
+        <p className="text-green-700">
+          Every question is answered and none are flagged.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -31,6 +31,19 @@ export default function AuthStatus() {
             New Quiz
           </Link>
         )}
+        {(role === "TEACHER" || role === "ADMIN") && (
+          <Link
+            href="/question-bank"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            Question Bank
+          </Link>
+        )}
+        {role === "ADMIN" && (
+          <Link href="/admin" className="text-blue-600 hover:underline text-sm">
+            Admin
+          </Link>
+        )}
         <Link href="/quizzes" className="text-blue-600 hover:underline text-sm">
           Quizzes
         </Link>
@@ -48,8 +61,9 @@ export default function AuthStatus() {
   }
 
   return (
-    <button onClick={() => signIn("google")} className="btn btn-primary">
-      Sign in with Google
+    // Goes to the login page, which lists the configured providers
+    <button onClick={() => signIn()} className="btn btn-primary">
+      Sign In
     </button>
   );
 }
@@ -0,0 +1,45 @@
+import { BankQuestion } from "@/types/quiz";
+import { describeDifficulty } from "@/lib/questionBankQuery";
+import { toPlainText } from "@/lib/richText";
+
+interface BankQuestionSummaryProps {
+  question: BankQuestion;
+}
+
+const DIFFICULTY_CLASSES: Record<BankQuestion["difficulty"], string> = {
+  EASY: "bg-green-100 text-green-800",
+  MEDIUM: "bg-yellow-100 text-yellow-800",
+  HARD: "bg-red-100 text-red-800",
+};
+
+// One-line description of a bank question, shared by the bank page and the picker
+export default function BankQuestionSummary({
+  question,
+}: BankQuestionSummaryProps) {
+  return (
+    <div className="space-y-1">
+      <p className="text-gray-800">{toPlainText(question.text)}</p>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <span className="font-mono">{question.question_type}</span>
+        <span>
+          {question.points} point{question.points === 1 ? "" : "s"}
+        </span>
+        {question.subject && <span>{question.subject}</span>}
+        <span
+          className={`px-2 py-0.5 rounded ${DIFFICULTY_CLASSES[question.difficulty] ?? ""}`}
+        >
+          {describeDifficulty(question.difficulty)}
+        </span>
+        {question.tags.map((tag) => (
+          <span
+            key={tag}
+            className="px-2 py-0.5 rounded bg-blue-50 text-blue-700"
+          >
+            #{tag}
+          </span>
+        ))}
+        <span className="text-gray-400">by {question.owner.username}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+// Inline validation message shown under the field it belongs to
+export default function FieldError({ message }: { message?: string }) {
+  return message ? (
+    <p className="text-red-500 text-xs mt-1">{message}</p>
+  ) : null;
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import { AnswerOption } from "@/types/quiz";
+import RichText from "./RichText";
+
+interface OrderingInputProps {
+  items: AnswerOption[];
+  /** Current order as option IDs. */
+  orderIds: number[];
+  onChange: (orderIds: number[]) => void;
+  /** Whether the student has arranged the items yet (untouched orders aren't submitted). */
+  touched: boolean;
+}
+
+// Moves the item at `from` to index `to`
+const move = (ids: number[], from: number, to: number) => {
+  const next = [...ids];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export default function OrderingInput({
+  items,
+  orderIds,
+  onChange,
+  touched,
+}: OrderingInputProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const byId = new Map(items.map((item) => [item.id, item]));
+
+  const handleDrop = (e: DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(move(orderIds, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        Drag the items (or use the arrows) into the correct order.
+      </p>
+      <ol className="space-y-2">
+        {orderIds.map((id, index) => (
+          <li
+            key={id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()} // Allow dropping here
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex items-center p-2 rounded border bg-white cursor-move ${dragIndex === index ? "opacity-50" : ""}`}
+          >
+            <span className="text-gray-500 mr-3 w-6 text-right">
+              {index + 1}.
+            </span>
+            <RichText
+              text={byId.get(id)?.text ?? ""}
+              inline
+              className="flex-grow"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(move(orderIds, index, index - 1))}
+              disabled={index === 0}
+              className="px-2 text-gray-600 disabled:opacity-30"
+              aria-label="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(move(orderIds, index, index + 1))}
+              disabled={index === orderIds.length - 1}
+              className="px-2 text-gray-600 disabled:opacity-30"
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ol>
+      {!touched && (
+        <button
+          type="button"
+          onClick={() => onChange(orderIds)}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Keep this order as my answer
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from "next/link";
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  total: number;
+  limit: number;
+  hrefForPage: (page: number) => string; // Builds the URL for a given page
+}
+
+// Number of page links shown either side of the current page
+const PAGE_WINDOW = 2;
+
+export default function Pagination({
+  page,
+  pageCount,
+  total,
+  limit,
+  hrefForPage,
+}: PaginationProps) {
+  if (total === 0) return null;
+
+  const first = (page - 1) * limit + 1;
+  const last = Math.min(page * limit, total);
+  const pages: number[] = [];
+  for (
+    let p = Math.max(1, page - PAGE_WINDOW);
+    p <= Math.min(pageCount, page + PAGE_WINDOW);
+    p++
+  ) {
+    pages.push(p);
+  }
+
+  const linkClass = "px-3 py-1 rounded border text-sm";
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="flex flex-wrap justify-between items-center gap-2 mt-6"
+    >
+      <p className="text-sm text-gray-600">
+        {first <= total
+          ? `Showing ${first}-${last} of ${total}`
+          : `No results on page ${page} of ${pageCount}`}
+      </p>
+      <div className="flex gap-1">
+        {page > 1 && (
+          <Link
+            href={hrefForPage(page - 1)}
+            className={`${linkClass} bg-white hover:bg-gray-50`}
+          >
+            Previous
+          </Link>
+        )}
+        {pages.map((p) =>
+          p === page ? (
+            <span
+              key={p}
+              aria-current="page"
+              className={`${linkClass} bg-blue-600 text-white border-blue-600`}
+            >
+              {p}
+            </span>
+          ) : (
+            <Link
+              key={p}
+              href={hrefForPage(p)}
+              className={`${linkClass} bg-white hover:bg-gray-50`}
+            >
+              {p}
+            </Link>
+          ),
+        )}
+        {page < pageCount && (
+          <Link
+            href={hrefForPage(page + 1)}
+            className={`${linkClass} bg-white hover:bg-gray-50`}
+          >
+            Next
+          </Link>
+        )}
+      </div>
+    </nav>
+  );
+}
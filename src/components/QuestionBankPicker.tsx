@@ -0,0 +1,266 @@
+"use client";
+
+import { KeyboardEvent, useState } from "react";
+import { useSession } from "next-auth/react";
+import { BankQuestion, Difficulty, QuestionWritable } from "@/types/quiz";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import { PageResult, toPageResult } from "@/lib/pagination";
+import {
+  BankQuestionQuery,
+  DIFFICULTY_OPTIONS,
+  filterBankQuestions,
+  parseTags,
+  toBankQuestionListParams,
+  toQuizQuestion,
+} from "@/lib/questionBankQuery";
+import BankQuestionSummary from "./BankQuestionSummary";
+
+interface QuestionBankPickerProps {
+  /** Receives copies of the chosen bank questions, without IDs. */
+  onInsert: (questions: QuestionWritable[]) => void;
+}
+
+const PICKER_PAGE_SIZE = 10;
+
+// Searches the question bank from inside the quiz editor and inserts the
+// selected questions into the quiz. It sits inside the editor's <form>, so
+// it uses plain buttons (and Enter in its inputs) rather than a nested form.
+export default function QuestionBankPicker({
+  onInsert,
+}: QuestionBankPickerProps) {
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [subject, setSubject] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty | "">("");
+  const [result, setResult] = useState<PageResult<BankQuestion> | null>(null);
+  // Selected questions are kept (not just their IDs) so selections survive paging
+  const [selected, setSelected] = useState<Map<number, BankQuestion>>(
+    new Map(),
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = async (page: number) => {
+    if (!session?.accessToken) {
+      setError("Authentication required.");
+      return;
+    }
+    const query: BankQuestionQuery = {
+      search: search.trim(),
+      tags: parseTags(tagsText),
+      subject: subject.trim(),
+      difficulty,
+      page,
+      limit: PICKER_PAGE_SIZE,
+    };
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await createApiClient(session.accessToken).questionBank.list(
+        toBankQuestionListParams(query),
+      );
+      // Fall back to client-side filtering/paging if the backend ignored the params
+      setResult(
+        toPageResult(data, page, PICKER_PAGE_SIZE, (questions) =>
+          filterBankQuestions(questions, query),
+        ),
+      );
+    } catch (err) {
+      console.error("Failed to search the question bank:", err);
+      setError(getApiErrorMessage(err, "Could not search the question bank."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Enter searches instead of submitting the quiz form
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      loadPage(1);
+    }
+  };
+
+  const toggle = (question: BankQuestion) =>
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(question.id)) next.delete(question.id);
+      else next.set(question.id, question);
+      return next;
+    });
+
+  const handleInsert = () => {
+    onInsert([...selected.values()].map(toQuizQuestion));
+    setSelected(new Map());
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setOpen(true);
+          if (!result) loadPage(1);
+        }}
+        className="btn btn-secondary mt-4 ml-2"
+      >
+        Insert from Question Bank
+      </button>
+    );
+  }
+
+  return (
+    <div className="border rounded p-4 bg-blue-50 space-y-3 mt-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-md font-medium">Insert from Question Bank</h4>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="text-gray-600 hover:text-gray-800 text-sm"
+        >
+          Close
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+        <div className="md:col-span-2">
+          <label htmlFor="bank-search" className="form-label">
+            Question text
+          </label>
+          <input
+            type="search"
+            id="bank-search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="bank-tags" className="form-label">
+            Tags
+          </label>
+          <input
+            type="text"
+            id="bank-tags"
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="cells, term 1"
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="bank-subject" className="form-label">
+            Subject
+          </label>
+          <input
+            type="text"
+            id="bank-subject"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor="bank-difficulty" className="form-label">
+            Difficulty
+          </label>
+          <select
+            id="bank-difficulty"
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as Difficulty | "")}
+            className="form-input"
+          >
+            <option value="">Any</option>
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-5 text-right">
+          <button
+            type="button"
+            onClick={() => loadPage(1)}
+            className="btn btn-primary btn-sm"
+            disabled={loading}
+          >
+            {loading ? "Searching..." : "Search"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      {result && result.items.length === 0 && !loading && (
+        <p className="text-sm text-gray-600">
+          No bank questions match this search.
+        </p>
+      )}
+      {result && result.items.length > 0 && (
+        <ul className="space-y-2">
+          {result.items.map((question) => (
+            <li
+              key={question.id}
+              className="flex items-start space-x-2 bg-white p-2 rounded border"
+            >
+              <input
+                type="checkbox"
+                id={`bank-pick-${question.id}`}
+                checked={selected.has(question.id)}
+                onChange={() => toggle(question)}
+                className="form-checkbox mt-1"
+              />
+              <label
+                htmlFor={`bank-pick-${question.id}`}
+                className="flex-grow cursor-pointer"
+              >
+                <BankQuestionSummary question={question} />
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      {result && result.pageCount > 1 && (
+        <div className="flex justify-center items-center space-x-3 text-sm">
+          <button
+            type="button"
+            onClick={() => loadPage(result.page - 1)}
+            disabled={loading || result.page <= 1}
+            className="btn btn-secondary btn-sm"
+          >
+            Previous
+          </button>
+          <span>
+            Page {result.page} of {result.pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => loadPage(result.page + 1)}
+            disabled={loading || result.page >= result.pageCount}
+            className="btn btn-secondary btn-sm"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleInsert}
+          disabled={selected.size === 0}
+          className="btn btn-primary btn-sm"
+        >
+          Insert Selected ({selected.size})
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { QuestionProgress } from "@/lib/attemptNavigation";
+
+interface QuestionNavigatorProps {
+  progress: QuestionProgress[];
+  currentIndex: number | null; // null while the review screen is shown
+  onSelect: (index: number) => void;
+}
+
+// Grid of question numbers for the one-question-at-a-time layout
+export default function QuestionNavigator({
+  progress,
+  currentIndex,
+  onSelect,
+}: QuestionNavigatorProps) {
+  return (
+    <nav aria-label="Questions" className="space-y-3">
+      <div className="grid grid-cols-5 gap-2">
+        {progress.map(({ question, index, status, flagged }) => (
+          <button
+            key={question.id}
+            type="button"
+            onClick={() => onSelect(index)}
+            aria-current={index === currentIndex ? "step" : undefined}
+            aria-label={`Question ${index + 1}: ${status}${flagged ? ", flagged" : ""}`}
+            className={`relative h-9 rounded border text-sm font-medium ${
+              status === "answered"
+                ? "bg-blue-600 border-blue-600 text-white"
+                : "bg-white border-gray-300 text-gray-700"
+            } ${index === currentIndex ? "ring-2 ring-offset-1 ring-blue-400" : ""}`}
+          >
+            {index + 1}
+            {flagged && (
+              <span className="absolute -top-2 -right-1 text-orange-500 text-xs">
+                ⚑
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      <ul className="text-xs text-gray-600 space-y-1">
+        <li>
+          <span className="inline-block w-3 h-3 rounded bg-blue-600 mr-1 align-middle" />
+          Answered
+        </li>
+        <li>
+          <span className="inline-block w-3 h-3 rounded border border-gray-300 bg-white mr-1 align-middle" />
+          Unanswered
+        </li>
+        <li>
+          <span className="text-orange-500 mr-1">⚑</span>
+          Flagged for review
+        </li>
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Difficulty, QuestionPool } from "@/types/quiz";
+import { createApiClient } from "@/lib/apiClient";
+import { isPaginatedResponse } from "@/lib/pagination";
+import { QuizFieldErrors, poolPath } from "@/lib/quizValidation";
+import {
+  DIFFICULTY_OPTIONS,
+  filterBankQuestions,
+  formatTags,
+  parseTags,
+  poolToQuery,
+  toBankQuestionListParams,
+} from "@/lib/questionBankQuery";
+import FieldError from "./FieldError";
+
+interface QuestionPoolFieldsProps {
+  pools: QuestionPool[];
+  fieldErrors: QuizFieldErrors;
+  /** Replaces the pools and clears the errors at the given field paths. */
+  onChange: (pools: QuestionPool[], ...errorPaths: string[]) => void;
+}
+
+// Wait for the teacher to stop typing before counting matching questions
+const COUNT_DEBOUNCE_MS = 400;
+
+// Shows how many bank questions a pool can draw from
+function PoolAvailability({ pool }: { pool: QuestionPool }) {
+  const { data: session } = useSession();
+  const [available, setAvailable] = useState<number | null>(null);
+  const accessToken = session?.accessToken;
+  const tagsKey = formatTags(pool.tags);
+  // Only the filter fields matter, not the pool object's identity or count
+  const filter = useMemo(
+    () =>
+      poolToQuery({
+        tags: parseTags(tagsKey),
+        subject: pool.subject,
+        difficulty: pool.difficulty,
+        count: 0, // Not part of the filter
+      }),
+    [tagsKey, pool.subject, pool.difficulty],
+  );
+
+  useEffect(() => {
+    if (!accessToken || filter.tags.length === 0) {
+      setAvailable(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const query = { ...filter, page: 1, limit: 1 };
+      try {
+        const data = await createApiClient(accessToken).questionBank.list(
+          toBankQuestionListParams(query),
+        );
+        if (cancelled) return;
+        setAvailable(
+          isPaginatedResponse(data)
+            ? data.count
+            : filterBankQuestions(data, query).length,
+        );
+      } catch (err) {
+        // Only informational; the backend checks the pool again on save
+        console.warn("Could not count matching bank questions:", err);
+        if (!cancelled) setAvailable(null);
+      }
+    }, COUNT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [accessToken, filter]);
+
+  if (available === null) return null;
+  return (
+    <p
+      className={`text-xs mt-1 ${available < pool.count ? "text-orange-600" : "text-gray-500"}`}
+    >
+      {available} matching question{available === 1 ? "" : "s"} in the bank
+      {available < pool.count &&
+        ` - fewer than the ${pool.count} to draw, so students will get ${available}.`}
+    </p>
+  );
+}
+
+// Editor for a quiz's random question pools. Each attempt draws `count`
+// questions from the bank questions tagged with all of the pool's tags.
+export default function QuestionPoolFields({
+  pools,
+  fieldErrors,
+  onChange,
+}: QuestionPoolFieldsProps) {
+  // Tags as typed, so a trailing comma isn't normalised away mid-edit
+  const [tagDrafts, setTagDrafts] = useState<Record<number, string>>({});
+
+  const updatePool = (
+    index: number,
+    changes: Partial<QuestionPool>,
+    ...errorPaths: string[]
+  ) =>
+    onChange(
+      pools.map((pool, i) => (i === index ? { ...pool, ...changes } : pool)),
+      ...errorPaths,
+    );
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <h3 className="text-xl font-medium">Random Question Pools</h3>
+      <p className="text-sm text-gray-600">
+        Each student gets a different random set of questions from the question
+        bank, in addition to the questions above.
+      </p>
+      {pools.map((pool, index) => (
+        <div
+          key={index}
+          className="border p-4 rounded bg-gray-50 grid grid-cols-1 md:grid-cols-4 gap-3 relative"
+        >
+          <button
+            type="button"
+            onClick={() => {
+              // Indices shift, so drop all pool errors and drafts
+              setTagDrafts({});
+              onChange(
+                pools.filter((_, i) => i !== index),
+                ...pools.map((_, i) => poolPath(i)),
+              );
+            }}
+            className="absolute top-2 right-2 text-red-500 hover:text-red-700 font-bold text-xl"
+            title="Remove Pool"
+          >
+            &times;
+          </button>
+          <div className="md:col-span-2">
+            <label htmlFor={`pool-${index}-tags`} className="form-label">
+              Tags (comma-separated, all required)
+            </label>
+            <input
+              type="text"
+              id={`pool-${index}-tags`}
+              value={tagDrafts[index] ?? formatTags(pool.tags)}
+              onChange={(e) => {
+                const text = e.target.value;
+                setTagDrafts((prev) => ({ ...prev, [index]: text }));
+                updatePool(
+                  index,
+                  { tags: parseTags(text) },
+                  `${poolPath(index)}.tags`,
+                );
+              }}
+              onBlur={() =>
+                setTagDrafts((prev) => {
+                  const next = { ...prev };
+                  delete next[index];
+                  return next;
+                })
+              }
+              placeholder="e.g. cells, term 1"
+              className="form-input"
+            />
+            <FieldError message={fieldErrors[`${poolPath(index)}.tags`]} />
+            <PoolAvailability pool={pool} />
+          </div>
+          <div>
+            <label htmlFor={`pool-${index}-subject`} className="form-label">
+              Subject (optional)
+            </label>
+            <input
+              type="text"
+              id={`pool-${index}-subject`}
+              value={pool.subject ?? ""}
+              onChange={(e) =>
+                updatePool(
+                  index,
+                  { subject: e.target.value },
+                  `${poolPath(index)}.subject`,
+                )
+              }
+              className="form-input"
+            />
+            <FieldError message={fieldErrors[`${poolPath(index)}.subject`]} />
+          </div>
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <label
+                htmlFor={`pool-${index}-difficulty`}
+                className="form-label"
+              >
+                Difficulty
+              </label>
+              <select
+                id={`pool-${index}-difficulty`}
+                value={pool.difficulty ?? ""}
+                onChange={(e) =>
+                  updatePool(index, {
+                    difficulty: (e.target.value as Difficulty) || null,
+                  })
+                }
+                className="form-input"
+              >
+                <option value="">Any</option>
+                {DIFFICULTY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="w-24">
+              <label htmlFor={`pool-${index}-count`} className="form-label">
+                Draw
+              </label>
+              <input
+                type="number"
+                id={`pool-${index}-count`}
+                min="1"
+                value={pool.count}
+                onChange={(e) =>
+                  updatePool(
+                    index,
+                    { count: parseInt(e.target.value, 10) || 0 },
+                    `${poolPath(index)}.count`,
+                  )
+                }
+                className="form-input"
+              />
+            </div>
+          </div>
+          <div className="md:col-span-4">
+            <FieldError message={fieldErrors[`${poolPath(index)}.count`]} />
+            <FieldError
+              message={fieldErrors[`${poolPath(index)}.non_field_errors`]}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() =>
+          onChange(
+            [...pools, { tags: [], subject: "", difficulty: null, count: 5 }],
+            "non_field_errors",
+          )
+        }
+        className="btn btn-secondary"
+      >
+        Add Random Pool
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { QuestionWritable } from "@/types/quiz";
+import { QuizFieldErrors, questionPath } from "@/lib/quizValidation";
+import FieldError from "./FieldError";
+
+interface QuestionTypeFieldsProps {
+  question: QuestionWritable;
+  qIndex: number;
+  fieldErrors: QuizFieldErrors;
+  /** Applies the changes and clears the errors at the given field paths. */
+  onChange: (
+    changes: Partial<QuestionWritable>,
+    ...errorPaths: string[]
+  ) => void;
+}
+
+// Answer editors for SHORT_ANSWER, NUMERIC and MATCHING questions.
+// Choice-based types (and ORDERING) are edited through answer_options in QuizManageForm.
+export default function QuestionTypeFields({
+  question,
+  qIndex,
+  fieldErrors,
+  onChange,
+}: QuestionTypeFieldsProps) {
+  const path = questionPath(qIndex);
+
+  if (question.question_type === "SHORT_ANSWER") {
+    const accepted = question.accepted_answers ?? [];
+    const setAccepted = (answers: string[], ...errorPaths: string[]) =>
+      onChange({ accepted_answers: answers }, ...errorPaths);
+
+    return (
+      <div className="space-y-2 border-t pt-3 mt-3">
+        <h4 className="text-md font-medium">Accepted Answers</h4>
+        <FieldError message={fieldErrors[`${path}.accepted_answers`]} />
+        {accepted.map((answer, index) => (
+          <div key={index}>
+            <div className="flex items-center space-x-2 bg-white p-2 rounded border">
+              <input
+                type="text"
+                placeholder={`Accepted answer ${index + 1}`}
+                value={answer}
+                onChange={(e) =>
+                  setAccepted(
+                    accepted.map((a, i) => (i === index ? e.target.value : a)),
+                    `${path}.accepted_answers[${index}]`,
+                  )
+                }
+                className="form-input flex-grow"
+              />
+              {accepted.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    // Indices shift, so drop all accepted answer errors
+                    setAccepted(
+                      accepted.filter((_, i) => i !== index),
+                      ...accepted.map(
+                        (_, i) => `${path}.accepted_answers[${i}]`,
+                      ),
+                    )
+                  }
+                  className="text-red-500 hover:text-red-700 text-xs"
+                  title="Remove Answer"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            <FieldError
+              message={fieldErrors[`${path}.accepted_answers[${index}]`]}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            setAccepted([...accepted, ""], `${path}.accepted_answers`)
+          }
+          className="btn btn-secondary btn-sm mt-2 text-xs"
+        >
+          Add Accepted Answer
+        </button>
+        <label className="flex items-center text-sm">
+          <input
+            type="checkbox"
+            checked={question.case_sensitive ?? false}
+            onChange={(e) => onChange({ case_sensitive: e.target.checked })}
+            className="form-checkbox mr-2"
+          />
+          Case-sensitive (otherwise &quot;Paris&quot; and &quot;paris&quot; both
+          count)
+        </label>
+      </div>
+    );
+  }
+
+  if (question.question_type === "NUMERIC") {
+    return (
+      <div className="flex space-x-4 border-t pt-3 mt-3">
+        <div className="flex-1">
+          <label htmlFor={`q-${qIndex}-number`} className="form-label">
+            Correct Value
+          </label>
+          <input
+            type="number"
+            step="any"
+            id={`q-${qIndex}-number`}
+            value={question.correct_answer_number ?? ""}
+            onChange={(e) =>
+              onChange(
+                {
+                  correct_answer_number:
+                    e.target.value === "" ? null : Number(e.target.value),
+                },
+                `${path}.correct_answer_number`,
+              )
+            }
+            className="form-input"
+          />
+          <FieldError message={fieldErrors[`${path}.correct_answer_number`]} />
+        </div>
+        <div className="flex-1">
+          <label htmlFor={`q-${qIndex}-tolerance`} className="form-label">
+            Tolerance (±)
+          </label>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            id={`q-${qIndex}-tolerance`}
+            value={question.tolerance ?? 0}
+            onChange={(e) =>
+              onChange(
+                { tolerance: Number(e.target.value) || 0 },
+                `${path}.tolerance`,
+              )
+            }
+            className="form-input"
+          />
+          <FieldError message={fieldErrors[`${path}.tolerance`]} />
+        </div>
+      </div>
+    );
+  }
+
+  if (question.question_type === "MATCHING") {
+    const pairs = question.matching_pairs ?? [];
+    const pairPath = (index: number) => `${path}.matching_pairs[${index}]`;
+
+    return (
+      <div className="space-y-2 border-t pt-3 mt-3">
+        <h4 className="text-md font-medium">Pairs</h4>
+        <p className="text-sm text-gray-600">
+          Students see the prompts with all matches in a dropdown.
+        </p>
+        <FieldError message={fieldErrors[`${path}.matching_pairs`]} />
+        {pairs.map((pair, index) => (
+          <div key={index}>
+            <div className="flex items-center space-x-2 bg-white p-2 rounded border">
+              <input
+                type="text"
+                placeholder={`Prompt ${index + 1}`}
+                value={pair.prompt}
+                onChange={(e) =>
+                  onChange(
+                    {
+                      matching_pairs: pairs.map((p, i) =>
+                        i === index ? { ...p, prompt: e.target.value } : p,
+                      ),
+                    },
+                    `${pairPath(index)}.prompt`,
+                  )
+                }
+                className="form-input flex-1"
+              />
+              <span className="text-gray-500">&rarr;</span>
+              <input
+                type="text"
+                placeholder={`Match ${index + 1}`}
+                value={pair.match}
+                onChange={(e) =>
+                  onChange(
+                    {
+                      matching_pairs: pairs.map((p, i) =>
+                        i === index ? { ...p, match: e.target.value } : p,
+                      ),
+                    },
+                    `${pairPath(index)}.match`,
+                  )
+                }
+                className="form-input flex-1"
+              />
+              {pairs.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    // Indices shift, so drop all pair errors
+                    onChange(
+                      { matching_pairs: pairs.filter((_, i) => i !== index) },
+                      ...pairs.map((_, i) => pairPath(i)),
+                    )
+                  }
+                  className="text-red-500 hover:text-red-700 text-xs"
+                  title="Remove Pair"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            <FieldError
+              message={
+                fieldErrors[`${pairPath(index)}.prompt`] ??
+                fieldErrors[`${pairPath(index)}.match`]
+              }
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            onChange(
+              { matching_pairs: [...pairs, { prompt: "", match: "" }] },
+              `${path}.matching_pairs`,
+            )
+          }
+          className="btn btn-secondary btn-sm mt-2 text-xs"
+        >
+          Add Pair
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
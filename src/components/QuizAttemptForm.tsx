@@ -1,34 +1,241 @@
 "use client";
 
-import { useState, FormEvent } from "react";
+import {
+  useState,
+  FormEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { useRouter } from "next/navigation";
 import {
   QuizReadOnly,
   QuestionReadOnly,
   QuizSubmission,
-  ParticipantAnswerSubmit,
+  AttemptDraft,
 } from "@/types/quiz";
 import { useSession } from "next-auth/react";
-import { fetchApi } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import {
+  getAttemptDeadline,
+  clearAttemptStartTime,
+  hasAttemptExpired,
+  resumeAttemptStartTime,
+} from "@/lib/attemptTimer";
+import {
+  getAttemptSeed,
+  setAttemptSeed,
+  clearAttemptSeed,
+  getAttemptQuestions,
+} from "@/lib/attemptShuffle";
+import {
+  AnswersState,
+  QuestionAnswer,
+  toSubmissionAnswers,
+  fromSubmissionAnswers,
+  countAnswered,
+  initialOrderIds,
+} from "@/lib/attemptAnswers";
+import {
+  loadLocalDraft,
+  saveLocalDraft,
+  clearLocalDraft,
+  loadBackendDraft,
+  saveBackendDraft,
+  clearBackendDraft,
+  newestDraft,
+} from "@/lib/attemptDraft";
+import { describeScoringPolicy } from "@/lib/scoring";
+import { getQuestionProgress } from "@/lib/attemptNavigation";
+import { toPlainText } from "@/lib/richText";
+import QuizTimer from "./QuizTimer";
+import OrderingInput from "./OrderingInput";
+import QuestionNavigator from "./QuestionNavigator";
+import AttemptReviewSummary from "./AttemptReviewSummary";
+import SubmitConfirmDialog from "./SubmitConfirmDialog";
+import RichText from "./RichText";
 
 interface QuizAttemptFormProps {
   quiz: QuizReadOnly;
+  /** Minutes remaining at which to warn the student, e.g. [5, 1]. */
+  warningThresholdsMinutes?: number[];
 }
 
-interface AnswersState {
-  [questionId: number]: {
-    selectedOptionIds?: number[];
-    selectedAnswerBool?: boolean;
-  };
-}
+const DEFAULT_WARNING_THRESHOLDS = [5, 1];
+// Delay before pushing autosaved answers to the backend (local saves are immediate)
+const BACKEND_AUTOSAVE_DELAY_MS = 2000;
 
-export default function QuizAttemptForm({ quiz }: QuizAttemptFormProps) {
+export default function QuizAttemptForm({
+  quiz,
+  warningThresholdsMinutes = DEFAULT_WARNING_THRESHOLDS,
+}: QuizAttemptFormProps) {
   const router = useRouter();
-  const { data: session } = useSession();
+  const { data: session, status } = useSession();
   const [answers, setAnswers] = useState<AnswersState>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  // Add timer state if needed
+  // Start of this attempt, set once the draft check has run; kept in localStorage
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  // Seed of this attempt's shuffle; also read on the client from localStorage
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  // A saved draft the student can choose to resume
+  const [resumeDraft, setResumeDraft] = useState<AttemptDraft | null>(null);
+  // Autosave stays off until we know whether there is a draft to resume,
+  // so an empty form never overwrites saved answers. The questions stay
+  // hidden until then too, so nothing can be answered outside the timer.
+  const [draftChecked, setDraftChecked] = useState(false);
+  // Set once the attempt is recorded: stops the autosave and the timer
+  const [submitted, setSubmitted] = useState(false);
+  // Questions flagged for review, and the page shown in the ONE_AT_A_TIME layout
+  const [flaggedIds, setFlaggedIds] = useState<number[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [reviewing, setReviewing] = useState(false);
+  // Whether the pre-submit confirmation is open (ALL_AT_ONCE layout)
+  const [confirmingSubmit, setConfirmingSubmit] = useState(false);
+  const isOneAtATime = quiz.question_layout === "ONE_AT_A_TIME";
+
+  const deadline =
+    startedAt !== null
+      ? getAttemptDeadline(startedAt, quiz.timing_minutes, quiz.available_to)
+      : null;
+
+  useEffect(() => {
+    setShuffleSeed(getAttemptSeed(quiz.id));
+  }, [quiz.id]);
+
+  // Questions in this attempt's order. A shuffled quiz waits for its seed
+  // rather than briefly showing the stored order.
+  const isShuffled = Boolean(quiz.shuffle_questions || quiz.shuffle_options);
+  const questions = useMemo(
+    () =>
+      shuffleSeed !== null
+        ? getAttemptQuestions(quiz, shuffleSeed)
+        : isShuffled
+          ? []
+          : quiz.questions,
+    [quiz, shuffleSeed, isShuffled],
+  );
+
+  // Bring back a draft's answers, flags and question order
+  const restoreDraft = useCallback(
+    (draft: AttemptDraft) => {
+      setAnswers(fromSubmissionAnswers(draft.answers));
+      // Keep the question order the attempt was started with
+      if (typeof draft.shuffle_seed === "number") {
+        setAttemptSeed(quiz.id, draft.shuffle_seed);
+        setShuffleSeed(draft.shuffle_seed);
+      }
+      setFlaggedIds(draft.flagged_question_ids ?? []);
+    },
+    [quiz.id],
+  );
+
+  // Look for a saved draft once the session is known. Only once per quiz, not
+  // on every session refresh: the ref holds the quiz already checked.
+  const sessionLoading = status === "loading";
+  const accessToken = session?.accessToken;
+  const draftCheckedForRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (sessionLoading || draftCheckedForRef.current === quiz.id) return;
+    let cancelled = false;
+    const checkForDraft = async () => {
+      const localDraft = loadLocalDraft(quiz.id);
+      const backendDraft = accessToken
+        ? await loadBackendDraft(quiz.id, accessToken)
+        : null;
+      if (cancelled) return;
+      draftCheckedForRef.current = quiz.id;
+      const draft = newestDraft(localDraft, backendDraft);
+      const hasAnswers =
+        draft !== null &&
+        countAnswered(fromSubmissionAnswers(draft.answers)) > 0;
+
+      if (!hasAnswers) {
+        // Opening the quiz starts the attempt. A stale start with nothing
+        // saved has nothing to submit, so the clock starts again.
+        let start = resumeAttemptStartTime(quiz.id);
+        if (hasAttemptExpired(quiz, start)) {
+          clearAttemptStartTime(quiz.id);
+          start = resumeAttemptStartTime(quiz.id);
+        }
+        setStartedAt(start);
+        setDraftChecked(true);
+        return;
+      }
+
+      // Keep the original start time if the attempt began earlier (e.g. on another device)
+      const draftStart = draft.started_at
+        ? new Date(draft.started_at).getTime()
+        : NaN;
+      const start = resumeAttemptStartTime(
+        quiz.id,
+        Number.isNaN(draftStart) ? null : draftStart,
+      );
+      setStartedAt(start);
+      if (hasAttemptExpired(quiz, start)) {
+        // Time ran out while the student was away: restoring the answers lets
+        // the timer expire straight away and submit them
+        restoreDraft(draft);
+        setDraftChecked(true);
+      } else {
+        setResumeDraft(draft);
+      }
+    };
+
+    checkForDraft();
+    return () => {
+      cancelled = true;
+    };
+  }, [quiz, sessionLoading, accessToken, restoreDraft]);
+
+  // Autosave: localStorage immediately, backend after a short pause
+  useEffect(() => {
+    if (!draftChecked || submitted) return;
+    const draft: AttemptDraft = {
+      quiz_id: quiz.id,
+      answers: toSubmissionAnswers(answers, quiz),
+      started_at: startedAt ? new Date(startedAt).toISOString() : null,
+      shuffle_seed: shuffleSeed,
+      flagged_question_ids: flaggedIds,
+      updated_at: new Date().toISOString(),
+    };
+    saveLocalDraft(draft);
+
+    if (!accessToken) return;
+    const timeout = setTimeout(
+      () => saveBackendDraft(draft, accessToken),
+      BACKEND_AUTOSAVE_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [
+    quiz,
+    answers,
+    flaggedIds,
+    draftChecked,
+    submitted,
+    startedAt,
+    shuffleSeed,
+    accessToken,
+  ]);
+
+  // The clock has been running since the draft check; a choice doesn't reset it
+  const handleResumeDraft = () => {
+    if (!resumeDraft) return;
+    restoreDraft(resumeDraft);
+    setResumeDraft(null);
+    setDraftChecked(true);
+  };
+
+  const handleDiscardDraft = () => {
+    clearLocalDraft(quiz.id);
+    if (session?.accessToken) {
+      clearBackendDraft(quiz.id, session.accessToken);
+    }
+    setResumeDraft(null);
+    setDraftChecked(true);
+  };
 
   const handleAnswerChange = (
     questionId: number,
@@ -74,8 +281,15 @@ export default function QuizAttemptForm({ quiz }: QuizAttemptFormProps) {
     });
   };
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
+  // Typed, ordering and matching answers replace their fields directly
+  const setQuestionAnswer = (questionId: number, answer: QuestionAnswer) => {
+    setAnswers((prev) => ({
+      ...prev,
+      [questionId]: { ...prev[questionId], ...answer },
+    }));
+  };
+
+  const submitAttempt = async (currentAnswers: AnswersState) => {
     setError(null);
     setLoading(true);
 
@@ -85,46 +299,28 @@ export default function QuizAttemptForm({ quiz }: QuizAttemptFormProps) {
       return;
     }
 
-    // Prepare submission data
-    const submissionAnswers: ParticipantAnswerSubmit[] = Object.entries(
-      answers,
-    ).map(([qId, ans]) => ({
-      question_id: parseInt(qId, 10),
-      selected_option_ids:
-        ans.selectedOptionIds && ans.selectedOptionIds.length > 0
-          ? ans.selectedOptionIds
-          : null, // Send null if empty
-      selected_answer_bool:
-        ans.selectedAnswerBool !== undefined ? ans.selectedAnswerBool : null, // Send null if not answered
-    }));
-
-    // Ensure all questions have an entry, even if unanswered
-    quiz.questions.forEach((q) => {
-      if (!answers[q.id]) {
-        submissionAnswers.push({
-          question_id: q.id,
-          selected_option_ids: null,
-          selected_answer_bool: null,
-        });
-      }
-    });
-
+    // Prepare submission data (unanswered questions are sent as null)
     const payload: QuizSubmission = {
       quiz_id: quiz.id,
-      answers: submissionAnswers,
+      answers: toSubmissionAnswers(currentAnswers, quiz),
     };
 
     console.log("Submitting quiz attempt:", payload);
 
     try {
-      const result = await fetchApi(`/quizzes/${quiz.id}/submit/`, {
-        method: "POST",
-        accessToken: session.accessToken,
-        data: payload,
-      });
+      const result = await createApiClient(session.accessToken).quizzes.submit(
+        quiz.id,
+        payload,
+      );
       console.log("Submission successful:", result);
+      clearAttemptStartTime(quiz.id);
+      clearAttemptSeed(quiz.id);
+      // The attempt is recorded, so the autosaved draft is no longer needed
+      setSubmitted(true);
+      clearLocalDraft(quiz.id);
+      clearBackendDraft(quiz.id, session.accessToken);
       // Assuming result contains the attempt ID
-      const attemptId = (result as any)?.id;
+      const attemptId = result?.id;
       if (attemptId) {
         router.push(`/attempts/${attemptId}`); // Redirect to results page
       } else {
@@ -134,121 +330,426 @@ export default function QuizAttemptForm({ quiz }: QuizAttemptFormProps) {
         router.push("/attempts");
       }
       router.refresh(); // Refresh any server data if needed
-    } catch (err: any) {
+    } catch (err) {
       console.error("API Error submitting quiz:", err);
-      setError(err.message || "Failed to submit quiz attempt.");
+      setError(getApiErrorMessage(err, "Failed to submit quiz attempt."));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    // One question at a time: submitting (even with Enter) leads to the review screen first
+    if (isOneAtATime && !reviewing) {
+      setReviewing(true);
+      return;
+    }
+    // All on one page: confirm first, listing any skipped questions.
+    // (The review screen already plays that role in the other layout.)
+    if (!isOneAtATime) {
+      setConfirmingSubmit(true);
+      return;
+    }
+    await submitAttempt(answers);
+  };
+
+  const handleConfirmSubmit = () => {
+    setConfirmingSubmit(false);
+    submitAttempt(answers);
+  };
+
+  // Close the confirmation and bring the chosen question into view
+  const jumpToQuestion = (index: number) => {
+    setConfirmingSubmit(false);
+    const element = document.getElementById(`question-${questions[index]?.id}`);
+    element?.scrollIntoView({ behavior: "smooth", block: "start" });
+    element?.querySelector<HTMLElement>("input, select, button")?.focus({
+      preventScroll: true,
+    });
+  };
+
+  const toggleFlag = (questionId: number) =>
+    setFlaggedIds((prev) =>
+      prev.includes(questionId)
+        ? prev.filter((id) => id !== questionId)
+        : [...prev, questionId],
+    );
+
+  const goToQuestion = (index: number) => {
+    setReviewing(false);
+    setCurrentIndex(index);
+  };
+
+  const progress = getQuestionProgress(questions, answers, flaggedIds);
+
+  // Time ran out: submit whatever has been answered so far. The timer only
+  // runs once any draft has been resumed or discarded, so saved answers are
+  // never left out.
+  const handleTimeExpired = () => {
+    console.log("Time is up, submitting quiz attempt automatically.");
+    setConfirmingSubmit(false); // No confirmation when time runs out
+    submitAttempt(answers);
+  };
+
   return (
     <form
       onSubmit={handleSubmit}
       className="space-y-8 bg-white p-6 rounded shadow"
     >
       <h2 className="text-2xl font-bold">Attempting: {quiz.title}</h2>
-      {/* Add Timer Display Here */}
       <p className="text-sm text-gray-600">
         {quiz.timing_minutes} minutes allowed.
       </p>
+      {/* Students should know before answering if wrong selections cost points */}
+      {quiz.scoring_policy &&
+        quiz.scoring_policy !== "ALL_OR_NOTHING" &&
+        quiz.questions.some((q) => q.question_type === "MULTI_MCQ") && (
+          <p className="text-sm text-gray-600">
+            Scoring: {describeScoringPolicy(quiz.scoring_policy).description}
+          </p>
+        )}
+      {draftChecked && !submitted && deadline !== null && (
+        <QuizTimer
+          deadline={deadline}
+          warningThresholdsMinutes={warningThresholdsMinutes}
+          onExpire={handleTimeExpired}
+        />
+      )}
 
       {error && <p className="text-red-500 bg-red-100 p-3 rounded">{error}</p>}
 
-      {quiz.questions.map((question, index) => (
-        <div key={question.id} className="border-t pt-6 mt-6">
-          <p className="font-semibold mb-2">
-            Question {index + 1} ({question.points} points)
+      {resumeDraft && (
+        <div className="text-blue-800 bg-blue-100 border border-blue-300 p-3 rounded space-y-2">
+          <p>
+            You have saved answers for this quiz from{" "}
+            {new Date(resumeDraft.updated_at).toLocaleString()}. Would you like
+            to continue where you left off?
           </p>
-          <p className="mb-4">{question.text}</p>
-
-          {question.question_type === "TRUE_FALSE" && (
-            <div className="space-y-2">
-              <label className="flex items-center cursor-pointer">
-                <input
-                  type="radio"
-                  name={`q-${question.id}`}
-                  className="form-radio mr-2"
-                  onChange={() =>
-                    handleAnswerChange(
-                      question.id,
-                      question.question_type,
-                      true,
-                    )
-                  }
-                  checked={answers[question.id]?.selectedAnswerBool === true}
-                />{" "}
-                True
-              </label>
-              <label className="flex items-center cursor-pointer">
-                <input
-                  type="radio"
-                  name={`q-${question.id}`}
-                  className="form-radio mr-2"
-                  onChange={() =>
-                    handleAnswerChange(
-                      question.id,
-                      question.question_type,
-                      false,
-                    )
-                  }
-                  checked={answers[question.id]?.selectedAnswerBool === false}
-                />{" "}
-                False
-              </label>
-            </div>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={handleResumeDraft}
+              className="btn btn-primary btn-sm"
+            >
+              Resume
+            </button>
+            <button
+              type="button"
+              onClick={handleDiscardDraft}
+              className="btn btn-secondary btn-sm"
+            >
+              Start Over
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!draftChecked && !resumeDraft && (
+        <p className="text-gray-500">Loading your attempt...</p>
+      )}
+
+      {draftChecked && (
+        <>
+          {isShuffled && shuffleSeed === null && (
+            <p className="text-gray-500">Preparing your questions...</p>
           )}
 
-          {(question.question_type === "SINGLE_MCQ" ||
-            question.question_type === "MULTI_MCQ") && (
-            <div className="space-y-2">
-              {question.answer_options.map((option) => (
-                <label
-                  key={option.id}
-                  className="flex items-center cursor-pointer"
+          <div className={isOneAtATime ? "md:flex md:space-x-6" : ""}>
+            {isOneAtATime && questions.length > 0 && (
+              <aside className="md:w-56 shrink-0 mb-6 md:mb-0 md:border-r md:pr-6">
+                <QuestionNavigator
+                  progress={progress}
+                  currentIndex={reviewing ? null : currentIndex}
+                  onSelect={goToQuestion}
+                />
+              </aside>
+            )}
+            <div className="flex-grow">
+              {reviewing && (
+                <div className="space-y-4">
+                  <h3 className="text-xl font-semibold">Review Your Answers</h3>
+                  <AttemptReviewSummary
+                    progress={progress}
+                    onJump={goToQuestion}
+                  />
+                </div>
+              )}
+              {!reviewing &&
+                questions.map((question, index) =>
+                  // One question at a time: only the current question is rendered
+                  isOneAtATime && index !== currentIndex ? null : (
+                    <div
+                      key={question.id}
+                      id={`question-${question.id}`}
+                      className={isOneAtATime ? "" : "border-t pt-6 mt-6"}
+                    >
+                      <div className="flex justify-between items-start mb-2">
+                        <p className="font-semibold">
+                          Question {index + 1}
+                          {isOneAtATime && ` of ${questions.length}`} (
+                          {question.points} points)
+                        </p>
+                        {isOneAtATime && (
+                          <button
+                            type="button"
+                            onClick={() => toggleFlag(question.id)}
+                            aria-pressed={flaggedIds.includes(question.id)}
+                            className={`text-sm ${flaggedIds.includes(question.id) ? "text-orange-600 font-semibold" : "text-gray-500 hover:text-orange-600"}`}
+                          >
+                            ⚑{" "}
+                            {flaggedIds.includes(question.id)
+                              ? "Flagged for review"
+                              : "Flag for review"}
+                          </button>
+                        )}
+                      </div>
+                      <RichText text={question.text} className="mb-4" />
+
+                      {question.question_type === "TRUE_FALSE" && (
+                        <div className="space-y-2">
+                          <label className="flex items-center cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`q-${question.id}`}
+                              className="form-radio mr-2"
+                              onChange={() =>
+                                handleAnswerChange(
+                                  question.id,
+                                  question.question_type,
+                                  true,
+                                )
+                              }
+                              checked={
+                                answers[question.id]?.selectedAnswerBool ===
+                                true
+                              }
+                            />{" "}
+                            True
+                          </label>
+                          <label className="flex items-center cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`q-${question.id}`}
+                              className="form-radio mr-2"
+                              onChange={() =>
+                                handleAnswerChange(
+                                  question.id,
+                                  question.question_type,
+                                  false,
+                                )
+                              }
+                              checked={
+                                answers[question.id]?.selectedAnswerBool ===
+                                false
+                              }
+                            />{" "}
+                            False
+                          </label>
+                        </div>
+                      )}
+
+                      {(question.question_type === "SINGLE_MCQ" ||
+                        question.question_type === "MULTI_MCQ") && (
+                        <div className="space-y-2">
+                          {question.answer_options.map((option) => (
+                            <label
+                              key={option.id}
+                              className="flex items-center cursor-pointer"
+                            >
+                              <input
+                                type={
+                                  question.question_type === "SINGLE_MCQ"
+                                    ? "radio"
+                                    : "checkbox"
+                                }
+                                name={`q-${question.id}`} // Radio buttons need same name
+                                className={
+                                  question.question_type === "SINGLE_MCQ"
+                                    ? "form-radio mr-2"
+                                    : "form-checkbox mr-2"
+                                }
+                                onChange={() =>
+                                  handleAnswerChange(
+                                    question.id,
+                                    question.question_type,
+                                    option.id,
+                                    question.question_type === "MULTI_MCQ",
+                                  )
+                                }
+                                // Check if option ID is in the selected array for this question
+                                checked={answers[
+                                  question.id
+                                ]?.selectedOptionIds?.includes(option.id)}
+                              />{" "}
+                              <RichText text={option.text} inline />
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
+                      {question.question_type === "SHORT_ANSWER" && (
+                        <input
+                          type="text"
+                          aria-label={`Answer to question ${index + 1}`}
+                          value={answers[question.id]?.answerText ?? ""}
+                          onChange={(e) =>
+                            setQuestionAnswer(question.id, {
+                              answerText: e.target.value,
+                            })
+                          }
+                          className="form-input"
+                          placeholder="Type your answer"
+                        />
+                      )}
+
+                      {question.question_type === "NUMERIC" && (
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          aria-label={`Answer to question ${index + 1}`}
+                          value={answers[question.id]?.numberText ?? ""}
+                          onChange={(e) =>
+                            setQuestionAnswer(question.id, {
+                              numberText: e.target.value,
+                            })
+                          }
+                          className="form-input max-w-xs"
+                          placeholder="Enter a number"
+                        />
+                      )}
+
+                      {question.question_type === "ORDERING" && (
+                        <OrderingInput
+                          items={question.answer_options}
+                          orderIds={
+                            answers[question.id]?.orderedOptionIds ??
+                            (quiz.shuffle_options
+                              ? question.answer_options.map((opt) => opt.id) // Already shuffled
+                              : initialOrderIds(question))
+                          }
+                          touched={Boolean(
+                            answers[question.id]?.orderedOptionIds,
+                          )}
+                          onChange={(orderIds) =>
+                            setQuestionAnswer(question.id, {
+                              orderedOptionIds: orderIds,
+                            })
+                          }
+                        />
+                      )}
+
+                      {question.question_type === "MATCHING" && (
+                        <div className="space-y-2">
+                          {(question.match_prompts ?? []).map((prompt) => (
+                            <div
+                              key={prompt.id}
+                              className="flex flex-col md:flex-row md:items-center md:space-x-3"
+                            >
+                              <RichText
+                                text={prompt.text}
+                                inline
+                                className="md:w-1/2"
+                              />
+                              <select
+                                aria-label={`Match for ${toPlainText(prompt.text)}`}
+                                value={
+                                  answers[question.id]?.matches?.[prompt.id] ??
+                                  ""
+                                }
+                                onChange={(e) => {
+                                  const matches = {
+                                    ...answers[question.id]?.matches,
+                                  };
+                                  if (e.target.value) {
+                                    matches[prompt.id] = Number(e.target.value);
+                                  } else {
+                                    delete matches[prompt.id];
+                                  }
+                                  setQuestionAnswer(question.id, { matches });
+                                }}
+                                className="form-input md:w-1/2"
+                              >
+                                <option value="">Choose a match...</option>
+                                {(question.match_choices ?? []).map(
+                                  (choice) => (
+                                    <option key={choice.id} value={choice.id}>
+                                      {toPlainText(choice.text)}
+                                    </option>
+                                  ),
+                                )}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ),
+                )}
+
+              {isOneAtATime && !reviewing && questions.length > 0 && (
+                <div className="flex justify-between pt-6 mt-6 border-t">
+                  <button
+                    type="button"
+                    onClick={() => goToQuestion(currentIndex - 1)}
+                    disabled={currentIndex === 0}
+                    className="btn btn-secondary"
+                  >
+                    Previous
+                  </button>
+                  {currentIndex < questions.length - 1 ? (
+                    <button
+                      type="button"
+                      onClick={() => goToQuestion(currentIndex + 1)}
+                      className="btn btn-primary"
+                    >
+                      Next
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setReviewing(true)}
+                      className="btn btn-primary"
+                    >
+                      Review Answers
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {(!isOneAtATime || reviewing) && (
+            <div className="pt-6 border-t flex flex-col md:flex-row md:space-x-3 space-y-2 md:space-y-0">
+              {reviewing && (
+                <button
+                  type="button"
+                  onClick={() => goToQuestion(currentIndex)}
+                  className="btn btn-secondary w-full md:w-auto"
                 >
-                  <input
-                    type={
-                      question.question_type === "SINGLE_MCQ"
-                        ? "radio"
-                        : "checkbox"
-                    }
-                    name={`q-${question.id}`} // Radio buttons need same name
-                    className={
-                      question.question_type === "SINGLE_MCQ"
-                        ? "form-radio mr-2"
-                        : "form-checkbox mr-2"
-                    }
-                    onChange={() =>
-                      handleAnswerChange(
-                        question.id,
-                        question.question_type,
-                        option.id,
-                        question.question_type === "MULTI_MCQ",
-                      )
-                    }
-                    // Check if option ID is in the selected array for this question
-                    checked={answers[question.id]?.selectedOptionIds?.includes(
-                      option.id,
-                    )}
-                  />{" "}
-                  {option.text}
-                </label>
-              ))}
+                  Back to Questions
+                </button>
+              )}
+              <button
+                type="submit"
+                className="btn btn-primary w-full md:w-auto"
+                disabled={loading}
+              >
+                {loading ? "Submitting..." : "Submit Quiz"}
+              </button>
             </div>
           )}
-        </div>
-      ))}
-
-      <div className="pt-6 border-t">
-        <button
-          type="submit"
-          className="btn btn-primary w-full md:w-auto"
-          disabled={loading}
-        >
-          {loading ? "Submitting..." : "Submit Quiz"}
-        </button>
-      </div>
+        </>
+      )}
+
+      {confirmingSubmit && (
+        <SubmitConfirmDialog
+          progress={progress}
+          onConfirm={handleConfirmSubmit}
+          onCancel={() => setConfirmingSubmit(false)}
+          onJump={jumpToQuestion}
+        />
+      )}
     </form>
   );
 }
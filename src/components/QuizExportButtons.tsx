@@ -0,0 +1,66 @@
+"use client";
+
+import { QuizReadOnly } from "@/types/quiz";
+import { toQuizWritable } from "@/lib/quizConversion";
+import {
+  canExportToCsv,
+  exportQuizToCsv,
+  exportQuizToJson,
+} from "@/lib/quizTransfer";
+
+interface QuizExportButtonsProps {
+  quiz: QuizReadOnly; // Must include is_correct, i.e. fetched by the owner or an admin
+}
+
+// Trigger a browser download of the given text
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function QuizExportButtons({ quiz }: QuizExportButtonsProps) {
+  const baseName =
+    quiz.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || `quiz-${quiz.id}`;
+  const writable = toQuizWritable(quiz);
+  const csvSupported = canExportToCsv(writable);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() =>
+          downloadFile(
+            `${baseName}.json`,
+            exportQuizToJson(writable),
+            "application/json",
+          )
+        }
+        className="btn btn-secondary btn-sm"
+      >
+        Export JSON
+      </button>
+      <button
+        type="button"
+        onClick={() =>
+          downloadFile(`${baseName}.csv`, exportQuizToCsv(writable), "text/csv")
+        }
+        className="btn btn-secondary btn-sm disabled:opacity-50"
+        disabled={!csvSupported}
+        title={
+          csvSupported
+            ? undefined
+            : "CSV only holds choice and true/false questions; use Export JSON for this quiz."
+        }
+      >
+        Export CSV
+      </button>
+    </>
+  );
+}
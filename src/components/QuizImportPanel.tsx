@@ -0,0 +1,117 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { QuizWritable } from "@/types/quiz";
+import {
+  ImportProblem,
+  QUIZ_CSV_COLUMNS,
+  QuizFileFormat,
+  parseQuizFile,
+} from "@/lib/quizTransfer";
+
+interface QuizImportPanelProps {
+  /** Called with the imported quiz once it has passed validation, and the format it was read as. */
+  onImport: (quiz: Omit<QuizWritable, "id">, format: QuizFileFormat) => void;
+}
+
+export default function QuizImportPanel({ onImport }: QuizImportPanelProps) {
+  const [problems, setProblems] = useState<ImportProblem[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow re-selecting the same file after fixing it
+    if (!file) return;
+
+    setProblems([]);
+    setMessage(null);
+
+    let result;
+    try {
+      result = parseQuizFile(file.name, await file.text());
+    } catch (err) {
+      console.error("Failed to import quiz file:", err);
+      setProblems([
+        { location: "file", message: "The file could not be read as a quiz." },
+      ]);
+      return;
+    }
+
+    // Report every problem before touching the form
+    if (!result.quiz || result.problems.length > 0) {
+      setProblems(result.problems);
+      return;
+    }
+
+    // CSV fills in the questions only; JSON replaces the whole form
+    onImport(result.quiz, result.format);
+    setMessage(
+      `Imported ${result.quiz.questions?.length ?? 0} question(s) from ${file.name}. Review the form and save to create the quiz.`,
+    );
+  };
+
+  return (
+    <div className="border rounded p-4 bg-gray-50 space-y-2">
+      <label htmlFor="quiz-import-file" className="form-label">
+        Import from File (JSON export or CSV)
+      </label>
+      <input
+        type="file"
+        id="quiz-import-file"
+        accept=".json,.csv,application/json,text/csv"
+        onChange={handleFileChange}
+        className="text-sm"
+      />
+      <details className="text-sm text-gray-600">
+        <summary className="cursor-pointer">CSV layout</summary>
+        <p className="mt-1">
+          Header row: <code>{QUIZ_CSV_COLUMNS.join(",")}</code>
+        </p>
+        <ul className="list-disc pl-5 mt-1 space-y-1">
+          <li>
+            A row with a <code>question</code> starts a new question; a row with
+            an empty <code>question</code> adds another option to the question
+            above it.
+          </li>
+          <li>
+            <code>question_type</code> is SINGLE_MCQ, MULTI_MCQ or TRUE_FALSE;{" "}
+            <code>points</code> defaults to 1. Other question types can only be
+            imported from a JSON export.
+          </li>
+          <li>
+            For MCQs, <code>option</code> is the option text and{" "}
+            <code>is_correct</code> marks it correct.
+          </li>
+          <li>
+            For TRUE_FALSE, leave <code>option</code> empty and put the correct
+            answer (true/false) in <code>is_correct</code>.
+          </li>
+        </ul>
+        <p className="mt-1">
+          CSV imports replace the questions only; title, timing and availability
+          stay as entered in the form.
+        </p>
+      </details>
+
+      {problems.length > 0 && (
+        <div className="text-red-600 bg-red-100 p-3 rounded text-sm">
+          <p className="font-medium">
+            The file was not imported. Fix these problems and try again:
+          </p>
+          <ul className="list-disc pl-5 mt-1">
+            {problems.map((problem, index) => (
+              <li key={index}>
+                <strong>{problem.location}:</strong> {problem.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {message && (
+        <p className="text-green-700 bg-green-100 p-3 rounded text-sm">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,47 @@ import { useRouter } from "next/navigation"; // Use App Router's navigation
 import {
   QuizWritable,
   QuestionWritable,
+  QuestionType,
   AnswerOptionWritable,
+  QuestionPool,
 } from "@/types/quiz"; // Define these types
-import { fetchApi } from "@/lib/api"; // Your API helper
+import { createApiClient } from "@/lib/apiClient"; // Typed API client
+import { isApiError } from "@/lib/api";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import { toQuizWritable, quizzesDiffer } from "@/lib/quizConversion";
+import {
+  QuizFieldErrors,
+  validateQuiz,
+  flattenApiFieldErrors,
+  clearFieldErrors,
+  questionPath,
+  optionPath,
+} from "@/lib/quizValidation";
+import {
+  DEFAULT_SCORING_POLICY,
+  DEFAULT_WRONG_SELECTION_PENALTY,
+  SCORING_POLICY_OPTIONS,
+  describeScoringPolicy,
+} from "@/lib/scoring";
+import {
+  DEFAULT_QUESTION_LAYOUT,
+  QUESTION_LAYOUT_OPTIONS,
+  describeQuestionLayout,
+} from "@/lib/attemptNavigation";
+import {
+  DEFAULT_EXPLANATION_VISIBILITY,
+  EXPLANATION_VISIBILITY_OPTIONS,
+  describeExplanationVisibility,
+} from "@/lib/explanations";
+import { QuizFileFormat } from "@/lib/quizTransfer";
 import { useSession } from "next-auth/react";
+import QuizImportPanel from "./QuizImportPanel";
+import FieldError from "./FieldError";
+import QuestionTypeFields from "./QuestionTypeFields";
+import QuestionBankPicker from "./QuestionBankPicker";
+import SaveToBankButton from "./SaveToBankButton";
+import RichTextInput from "./RichTextInput";
+import QuestionPoolFields from "./QuestionPoolFields";
 
 interface QuizManageFormProps {
   quiz?: QuizWritable; // Pass existing quiz data for editing
@@ -19,22 +56,128 @@ interface QuizManageFormProps {
 const initialAnswerOption: Omit<AnswerOptionWritable, "id"> = {
   text: "",
   is_correct: false,
+  explanation: "",
 };
-const initialQuestion: Omit<QuestionWritable, "id"> = {
+// A factory rather than a constant, so questions never share option arrays
+const newQuestion = (): Omit<QuestionWritable, "id"> => ({
   question_type: "SINGLE_MCQ",
   text: "",
   points: 1,
   correct_answer_bool: null,
   answer_options: [{ ...initialAnswerOption }],
-};
+  explanation: "",
+});
 const initialQuiz: Omit<QuizWritable, "id"> = {
   title: "",
   timing_minutes: 10,
   available_from: null,
   available_to: null,
-  questions: [{ ...initialQuestion }],
+  scoring_policy: DEFAULT_SCORING_POLICY,
+  wrong_selection_penalty: DEFAULT_WRONG_SELECTION_PENALTY,
+  shuffle_questions: false,
+  shuffle_options: false,
+  question_layout: DEFAULT_QUESTION_LAYOUT,
+  explanation_visibility: DEFAULT_EXPLANATION_VISIBILITY,
+  question_pools: [],
+  questions: [newQuestion()],
+};
+
+// Types whose answer lives in answer_options
+const OPTION_TYPES: QuestionType[] = ["SINGLE_MCQ", "MULTI_MCQ", "ORDERING"];
+
+// Clears the answer fields of other types when a question's type changes,
+// keeping (or defaulting) the ones the new type uses
+const resetAnswerFields = (
+  question: QuestionWritable,
+  type: QuestionType,
+): QuestionWritable => {
+  const options = question.answer_options ?? [];
+  return {
+    ...question,
+    question_type: type,
+    correct_answer_bool:
+      type === "TRUE_FALSE" ? (question.correct_answer_bool ?? false) : null,
+    answer_options: !OPTION_TYPES.includes(type)
+      ? []
+      : options.length >= (type === "ORDERING" ? 2 : 1)
+        ? options
+        : [
+            ...options,
+            { ...initialAnswerOption },
+            ...(type === "ORDERING" && options.length === 0
+              ? [{ ...initialAnswerOption }]
+              : []),
+          ],
+    accepted_answers:
+      type === "SHORT_ANSWER"
+        ? question.accepted_answers?.length
+          ? question.accepted_answers
+          : [""]
+        : undefined,
+    case_sensitive:
+      type === "SHORT_ANSWER" ? (question.case_sensitive ?? false) : undefined,
+    correct_answer_number:
+      type === "NUMERIC" ? (question.correct_answer_number ?? null) : undefined,
+    tolerance: type === "NUMERIC" ? (question.tolerance ?? 0) : undefined,
+    matching_pairs:
+      type === "MATCHING"
+        ? question.matching_pairs?.length
+          ? question.matching_pairs
+          : [
+              { prompt: "", match: "" },
+              { prompt: "", match: "" },
+            ]
+        : undefined,
+  };
+};
+
+// Builds the payload for one question, with only the fields its type uses
+const toQuestionPayload = (
+  q: QuestionWritable,
+  includeIds: boolean,
+): QuestionWritable => {
+  const withId = <T extends { id?: number | null }>(item: T) =>
+    includeIds && item.id ? { id: item.id } : {};
+  return {
+    ...withId(q), // Include question ID for edits
+    question_type: q.question_type,
+    text: q.text,
+    points: q.points,
+    explanation: q.explanation?.trim() ?? "",
+    // Explicitly null for non-T/F
+    correct_answer_bool:
+      q.question_type === "TRUE_FALSE" ? q.correct_answer_bool : null,
+    // Empty array for types that don't use options
+    answer_options: OPTION_TYPES.includes(q.question_type)
+      ? q.answer_options.map((a) => ({
+          ...withId(a), // Include option ID for edits
+          text: a.text,
+          // For ORDERING the position is the answer
+          is_correct: q.question_type === "ORDERING" ? false : a.is_correct,
+          explanation:
+            q.question_type === "ORDERING" ? "" : (a.explanation?.trim() ?? ""),
+        }))
+      : [],
+    ...(q.question_type === "SHORT_ANSWER" && {
+      accepted_answers: (q.accepted_answers ?? []).map((a) => a.trim()),
+      case_sensitive: q.case_sensitive ?? false,
+    }),
+    ...(q.question_type === "NUMERIC" && {
+      correct_answer_number: q.correct_answer_number,
+      tolerance: q.tolerance ?? 0,
+    }),
+    ...(q.question_type === "MATCHING" && {
+      matching_pairs: (q.matching_pairs ?? []).map((pair) => ({
+        ...withId(pair),
+        prompt: pair.prompt,
+        match: pair.match,
+      })),
+    }),
+  };
 };
 
+const FIELD_ERRORS_SUMMARY = "Please fix the highlighted fields below.";
+
 export default function QuizManageForm({
   quiz: existingQuiz,
   isEditMode,
@@ -45,6 +188,24 @@ export default function QuizManageForm({
     useState<Omit<QuizWritable, "id">>(initialQuiz);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the quiz was changed on the server after this form loaded it
+  const [staleWarning, setStaleWarning] = useState(false);
+  // Inline errors keyed by field path (see lib/quizValidation)
+  const [fieldErrors, setFieldErrors] = useState<QuizFieldErrors>({});
+
+  // Drop errors for fields the user has just edited
+  const clearErrors = (...paths: string[]) =>
+    setFieldErrors((prev) => clearFieldErrors(prev, ...paths));
+
+  // Question indices shift when questions are added/removed, so their errors no longer line up
+  const clearQuestionErrors = () =>
+    setFieldErrors((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(
+          ([key]) => !key.startsWith("questions") && key !== "non_field_errors",
+        ),
+      ),
+    );
 
   // Pre-populate form if in edit mode
   useEffect(() => {
@@ -63,18 +224,61 @@ export default function QuizManageForm({
           existingQuiz.questions?.map((q) => ({
             ...q,
             answer_options: q.answer_options?.map((a) => ({ ...a })) || [],
+            accepted_answers: q.accepted_answers && [...q.accepted_answers],
+            matching_pairs: q.matching_pairs?.map((pair) => ({ ...pair })),
           })) || [],
+        question_pools:
+          existingQuiz.question_pools?.map((pool) => ({
+            ...pool,
+            tags: [...pool.tags],
+          })) ?? [],
       };
       setQuizData(formattedQuiz);
+      setStaleWarning(false);
     }
   }, [isEditMode, existingQuiz]);
 
+  // Fetch the latest version of the quiz and compare it with the one the form was loaded with
+  const hasChangedSinceLoad = async (accessToken: string): Promise<boolean> => {
+    if (!existingQuiz?.id) return false;
+    try {
+      const latest = await createApiClient(accessToken).quizzes.get(
+        existingQuiz.id,
+      );
+      return quizzesDiffer(toQuizWritable(latest), existingQuiz);
+    } catch (err) {
+      // Don't block saving if the freshness check itself fails
+      console.warn("Could not check whether the quiz changed:", err);
+      return false;
+    }
+  };
+
+  // Fill the form from an imported file (JSON replaces everything, CSV only the questions)
+  const handleImport = (
+    imported: Omit<QuizWritable, "id">,
+    format: QuizFileFormat,
+  ) => {
+    setQuizData((prev) =>
+      format === "json"
+        ? imported
+        : { ...prev, questions: imported.questions ?? [] },
+    );
+    setFieldErrors({});
+    setError(null);
+  };
+
   const handleQuizChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
   ) => {
     const { name, value, type } = e.target;
     const parsedValue = type === "number" ? parseInt(value, 10) || 0 : value;
     setQuizData((prev) => ({ ...prev, [name]: parsedValue }));
+    clearErrors(name);
+  };
+
+  const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setQuizData((prev) => ({ ...prev, [name]: checked }));
   };
 
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -82,6 +286,7 @@ export default function QuizManageForm({
     // Convert datetime-local string to ISO string or null
     const isoValue = value ? new Date(value).toISOString() : null;
     setQuizData((prev) => ({ ...prev, [name]: isoValue }));
+    clearErrors("available_from", "available_to", "explanation_visibility");
   };
 
   const handleQuestionChange = (
@@ -95,38 +300,68 @@ export default function QuizManageForm({
 
     // Reset incompatible fields based on type
     if (field === "question_type") {
-      if (value === "TRUE_FALSE") {
-        newQuestions[index].answer_options = []; // Clear options for T/F
-        newQuestions[index].correct_answer_bool =
-          newQuestions[index].correct_answer_bool ?? false; // Default to false
-      } else {
-        // MCQ types
-        newQuestions[index].correct_answer_bool = null; // Clear bool answer
-        if (newQuestions[index].answer_options.length === 0) {
-          newQuestions[index].answer_options = [{ ...initialAnswerOption }]; // Add default option if needed
-        }
-      }
+      newQuestions[index] = resetAnswerFields(newQuestions[index], value);
     }
 
     setQuizData((prev) => ({ ...prev, questions: newQuestions }));
+    // Changing the type invalidates every answer-related error for the question
+    clearErrors(
+      field === "question_type"
+        ? questionPath(index)
+        : `${questionPath(index)}.${field}`,
+    );
+  };
+
+  // Replace some of a question's fields (used by the per-type answer editors)
+  const updateQuestion = (
+    index: number,
+    changes: Partial<QuestionWritable>,
+    ...errorPaths: string[]
+  ) => {
+    setQuizData((prev) => ({
+      ...prev,
+      questions: (prev.questions ?? []).map((q, i) =>
+        i === index ? { ...q, ...changes } : q,
+      ),
+    }));
+    clearErrors(...errorPaths);
   };
 
   const addQuestion = () => {
     setQuizData((prev) => ({
       ...prev,
-      questions: [...prev.questions, { ...initialQuestion }],
+      questions: [...prev.questions, newQuestion()],
+    }));
+    clearQuestionErrors();
+  };
+
+  // Append copies of questions picked from the question bank
+  const insertQuestions = (questions: QuestionWritable[]) => {
+    setQuizData((prev) => ({
+      ...prev,
+      questions: [...(prev.questions ?? []), ...questions],
     }));
+    clearQuestionErrors();
+  };
+
+  const updatePools = (pools: QuestionPool[], ...errorPaths: string[]) => {
+    setQuizData((prev) => ({ ...prev, question_pools: pools }));
+    clearErrors(...errorPaths);
   };
 
+  // A quiz made only of random pools needs no fixed questions
+  const canRemoveLastQuestion = (quizData.question_pools?.length ?? 0) > 0;
+
   const removeQuestion = (index: number) => {
-    if (quizData.questions.length <= 1) {
-      alert("A quiz must have at least one question.");
+    if (quizData.questions.length <= 1 && !canRemoveLastQuestion) {
+      alert("A quiz must have at least one question or random question pool.");
       return;
     }
     setQuizData((prev) => ({
       ...prev,
       questions: prev.questions.filter((_, i) => i !== index),
     }));
+    clearQuestionErrors();
   };
 
   const handleAnswerOptionChange = (
@@ -153,12 +388,34 @@ export default function QuizManageForm({
 
     newQuestions[qIndex].answer_options = newOptions;
     setQuizData((prev) => ({ ...prev, questions: newQuestions }));
+    clearErrors(
+      field === "is_correct"
+        ? `${questionPath(qIndex)}.answer_options`
+        : `${optionPath(qIndex, aIndex)}.${field}`,
+    );
   };
 
   const addAnswerOption = (qIndex: number) => {
     const newQuestions = [...quizData.questions];
-    newQuestions[qIndex].answer_options.push({ ...initialAnswerOption });
+    newQuestions[qIndex].answer_options = [
+      ...newQuestions[qIndex].answer_options,
+      { ...initialAnswerOption },
+    ];
     setQuizData((prev) => ({ ...prev, questions: newQuestions }));
+    clearErrors(`${questionPath(qIndex)}.answer_options`);
+  };
+
+  // Move an ORDERING item up (-1) or down (+1); the list order is the correct order
+  const moveAnswerOption = (qIndex: number, aIndex: number, offset: number) => {
+    const options = [...(quizData.questions?.[qIndex].answer_options ?? [])];
+    const target = aIndex + offset;
+    if (target < 0 || target >= options.length) return;
+    [options[aIndex], options[target]] = [options[target], options[aIndex]];
+    updateQuestion(
+      qIndex,
+      { answer_options: options },
+      `${questionPath(qIndex)}.answer_options`,
+    );
   };
 
   const removeAnswerOption = (qIndex: number, aIndex: number) => {
@@ -174,9 +431,17 @@ export default function QuizManageForm({
       qIndex
     ].answer_options.filter((_, i) => i !== aIndex);
     setQuizData((prev) => ({ ...prev, questions: newQuestions }));
+    // Option indices shift, so drop this question's answer errors
+    setFieldErrors((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(
+          ([key]) => !key.startsWith(`${questionPath(qIndex)}.answer_options`),
+        ),
+      ),
+    );
   };
 
-  const handleSubmit = async (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent, overwrite: boolean = false) => {
     e.preventDefault();
     setError(null);
     setLoading(true);
@@ -187,73 +452,67 @@ export default function QuizManageForm({
       return;
     }
 
-    // Basic Frontend Validation (add more as needed)
-    if (!quizData.title.trim()) {
-      setError("Quiz title is required.");
-      setLoading(false);
-      return;
-    }
-    if (quizData.timing_minutes <= 0) {
-      setError("Timing must be a positive number of minutes.");
+    // Frontend validation; errors are shown next to the offending fields
+    const validationErrors = validateQuiz(quizData);
+    setFieldErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      setError(validationErrors.non_field_errors ?? FIELD_ERRORS_SUMMARY);
       setLoading(false);
       return;
     }
-    // Add validation for questions/answers (e.g., non-empty text, correct answer selection)
 
     // Prepare payload conforming to QuizWritable
     const payload: QuizWritable = {
       ...(isEditMode && existingQuiz?.id && { id: existingQuiz.id }), // Include ID only for edits
       ...quizData,
       // Ensure correct structure for questions and options
-      questions: quizData.questions.map((q) => ({
-        ...(isEditMode && q.id && { id: q.id }), // Include question ID for edits
-        question_type: q.question_type,
-        text: q.text,
-        points: q.points,
-        // Conditionally include correct_answer_bool or answer_options
-        ...(q.question_type === "TRUE_FALSE"
-          ? { correct_answer_bool: q.correct_answer_bool }
-          : { correct_answer_bool: null }), // Explicitly null for non-T/F
-        ...(q.question_type !== "TRUE_FALSE"
-          ? {
-              answer_options: q.answer_options.map((a) => ({
-                ...(isEditMode && a.id && { id: a.id }), // Include option ID for edits
-                text: a.text,
-                is_correct: a.is_correct,
-              })),
-            }
-          : { answer_options: [] }), // Empty array for T/F
-      })),
+      questions: quizData.questions.map((q) =>
+        toQuestionPayload(q, isEditMode),
+      ),
     };
 
+    const api = createApiClient(session.accessToken);
+
     try {
-      let response;
       if (isEditMode && existingQuiz?.id) {
+        // Warn before overwriting changes someone else saved in the meantime
+        if (!overwrite && (await hasChangedSinceLoad(session.accessToken))) {
+          setStaleWarning(true);
+          return;
+        }
+        setStaleWarning(false);
         console.log("Submitting PUT request:", payload);
-        response = await fetchApi(`/quizzes/${existingQuiz.id}/`, {
-          method: "PUT",
-          accessToken: session.accessToken,
-          data: payload,
-        });
-        console.log("Update successful:", response);
+        const updated = await api.quizzes.update(existingQuiz.id, payload);
+        console.log("Update successful:", updated);
         router.push(`/quizzes/${existingQuiz.id}`); // Redirect to detail page
       } else {
         console.log("Submitting POST request:", payload);
-        response = await fetchApi("/quizzes/", {
-          method: "POST",
-          accessToken: session.accessToken,
-          data: payload,
-        });
-        console.log("Creation successful:", response);
+        const created = await api.quizzes.create(payload);
+        console.log("Creation successful:", created);
         // Assuming response contains the new quiz ID
-        const newQuizId = (response as any)?.id;
+        const newQuizId = created?.id;
         router.push(newQuizId ? `/quizzes/${newQuizId}` : "/quizzes"); // Redirect
       }
       router.refresh(); // Refresh server data if needed
-    } catch (err: any) {
+    } catch (err) {
       console.error("API Error:", err);
+      // The backend rejected the update because the quiz changed in the meantime
+      if (isEditMode && isApiError(err) && err.status === 409) {
+        setStaleWarning(true);
+        return;
+      }
+      // Map nested backend validation errors onto the same inline slots
+      if (isApiError(err) && err.fieldErrors) {
+        const backendErrors = flattenApiFieldErrors(err.fieldErrors);
+        setFieldErrors(backendErrors);
+        setError(backendErrors.non_field_errors ?? FIELD_ERRORS_SUMMARY);
+        return;
+      }
       setError(
-        err.message || `Failed to ${isEditMode ? "update" : "create"} quiz.`,
+        getApiErrorMessage(
+          err,
+          `Failed to ${isEditMode ? "update" : "create"} quiz.`,
+        ),
       );
     } finally {
       setLoading(false);
@@ -264,11 +523,39 @@ export default function QuizManageForm({
     <form
       onSubmit={handleSubmit}
       className="space-y-6 p-6 bg-white rounded shadow-lg"
+      noValidate // Validation is handled by validateQuiz so errors can be shown inline
     >
       <h2 className="text-2xl font-semibold mb-4">
         {isEditMode ? "Edit Quiz" : "Create New Quiz"}
       </h2>
+      {!isEditMode && <QuizImportPanel onImport={handleImport} />}
       {error && <p className="text-red-500 bg-red-100 p-3 rounded">{error}</p>}
+      {staleWarning && (
+        <div className="text-yellow-800 bg-yellow-100 border border-yellow-300 p-3 rounded space-y-2">
+          <p>
+            This quiz was changed by someone else after you opened it. Saving
+            now will overwrite their changes.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={(e) => handleSubmit(e, true)}
+              className="btn btn-warning btn-sm"
+              disabled={loading}
+            >
+              Overwrite Anyway
+            </button>
+            <button
+              type="button"
+              onClick={() => router.refresh()} // Reloads the latest version into the form
+              className="btn btn-secondary btn-sm"
+              disabled={loading}
+            >
+              Discard My Changes and Reload
+            </button>
+          </div>
+        </div>
+      )}
 
       {/* Quiz Details */}
       <div>
@@ -284,6 +571,7 @@ export default function QuizManageForm({
           className="form-input"
           required
         />
+        <FieldError message={fieldErrors.title} />
       </div>
       <div>
         <label htmlFor="timing_minutes" className="form-label">
@@ -299,6 +587,105 @@ export default function QuizManageForm({
           min="1"
           required
         />
+        <FieldError message={fieldErrors.timing_minutes} />
+      </div>
+      <div>
+        <label htmlFor="scoring_policy" className="form-label">
+          Scoring for Multiple Choice Questions
+        </label>
+        <select
+          id="scoring_policy"
+          name="scoring_policy"
+          value={quizData.scoring_policy ?? DEFAULT_SCORING_POLICY}
+          onChange={handleQuizChange}
+          className="form-input"
+        >
+          {SCORING_POLICY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {describeScoringPolicy(quizData.scoring_policy).description} Other
+          question types are always all or nothing.
+        </p>
+        <FieldError message={fieldErrors.scoring_policy} />
+      </div>
+      {quizData.scoring_policy === "NEGATIVE_MARKING" && (
+        <div>
+          <label htmlFor="wrong_selection_penalty" className="form-label">
+            Penalty per Wrong Selection (% of the question&apos;s points)
+          </label>
+          <input
+            type="number"
+            id="wrong_selection_penalty"
+            min="0"
+            max="100"
+            value={Math.round(
+              (quizData.wrong_selection_penalty ??
+                DEFAULT_WRONG_SELECTION_PENALTY) * 100,
+            )}
+            onChange={(e) => {
+              // Stored as a share of the question's points (0-1)
+              const percent = parseInt(e.target.value, 10) || 0;
+              setQuizData((prev) => ({
+                ...prev,
+                wrong_selection_penalty: percent / 100,
+              }));
+              clearErrors("wrong_selection_penalty");
+            }}
+            className="form-input"
+          />
+          <FieldError message={fieldErrors.wrong_selection_penalty} />
+        </div>
+      )}
+      <div>
+        <label htmlFor="question_layout" className="form-label">
+          Attempt Layout
+        </label>
+        <select
+          id="question_layout"
+          name="question_layout"
+          value={quizData.question_layout ?? DEFAULT_QUESTION_LAYOUT}
+          onChange={handleQuizChange}
+          className="form-input"
+        >
+          {QUESTION_LAYOUT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {describeQuestionLayout(quizData.question_layout).description}
+        </p>
+      </div>
+      <div className="space-y-1">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            name="shuffle_questions"
+            checked={quizData.shuffle_questions ?? false}
+            onChange={handleCheckboxChange}
+            className="form-checkbox mr-2"
+          />
+          Shuffle question order for each attempt
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            name="shuffle_options"
+            checked={quizData.shuffle_options ?? false}
+            onChange={handleCheckboxChange}
+            className="form-checkbox mr-2"
+          />
+          Shuffle answer options for each attempt
+        </label>
+        <p className="text-xs text-gray-500">
+          Each attempt keeps its own order when reloaded or resumed. Results
+          always list questions in the order they appear here.
+        </p>
       </div>
       <div>
         <label htmlFor="available_from" className="form-label">
@@ -312,6 +699,7 @@ export default function QuizManageForm({
           onChange={handleDateChange}
           className="form-input"
         />
+        <FieldError message={fieldErrors.available_from} />
       </div>
       <div>
         <label htmlFor="available_to" className="form-label">
@@ -325,17 +713,46 @@ export default function QuizManageForm({
           onChange={handleDateChange}
           className="form-input"
         />
+        <FieldError message={fieldErrors.available_to} />
+      </div>
+      <div>
+        <label htmlFor="explanation_visibility" className="form-label">
+          Show Explanations
+        </label>
+        <select
+          id="explanation_visibility"
+          name="explanation_visibility"
+          value={
+            quizData.explanation_visibility ?? DEFAULT_EXPLANATION_VISIBILITY
+          }
+          onChange={handleQuizChange}
+          className="form-input"
+        >
+          {EXPLANATION_VISIBILITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {
+            describeExplanationVisibility(quizData.explanation_visibility)
+              .description
+          }
+        </p>
+        <FieldError message={fieldErrors.explanation_visibility} />
       </div>
 
       {/* Questions Section */}
       <div className="space-y-4 border-t pt-4">
         <h3 className="text-xl font-medium">Questions</h3>
+        <FieldError message={fieldErrors.questions} />
         {quizData.questions.map((question, qIndex) => (
           <div
             key={qIndex}
             className="border p-4 rounded bg-gray-50 space-y-3 relative"
           >
-            {quizData.questions.length > 1 && (
+            {(quizData.questions.length > 1 || canRemoveLastQuestion) && (
               <button
                 type="button"
                 onClick={() => removeQuestion(qIndex)}
@@ -346,21 +763,24 @@ export default function QuizManageForm({
               </button>
             )}
             <p className="font-semibold">Question {qIndex + 1}</p>
+            <FieldError
+              message={fieldErrors[`${questionPath(qIndex)}.non_field_errors`]}
+            />
             {/* Question Fields */}
             <div>
               <label htmlFor={`q-${qIndex}-text`} className="form-label">
                 Question Text
               </label>
-              <input
-                type="text"
+              <RichTextInput
                 id={`q-${qIndex}-text`}
                 value={question.text}
-                onChange={(e) =>
-                  handleQuestionChange(qIndex, "text", e.target.value)
-                }
-                className="form-input"
+                onChange={(text) => handleQuestionChange(qIndex, "text", text)}
+                multiline
                 required
               />
+              <FieldError
+                message={fieldErrors[`${questionPath(qIndex)}.text`]}
+              />
             </div>
             <div className="flex space-x-4 items-end">
               <div className="flex-1">
@@ -382,7 +802,14 @@ export default function QuizManageForm({
                   <option value="SINGLE_MCQ">Single Choice MCQ</option>
                   <option value="MULTI_MCQ">Multiple Choice MCQ</option>
                   <option value="TRUE_FALSE">True/False</option>
+                  <option value="SHORT_ANSWER">Short Answer</option>
+                  <option value="NUMERIC">Numeric</option>
+                  <option value="ORDERING">Ordering</option>
+                  <option value="MATCHING">Matching</option>
                 </select>
+                <FieldError
+                  message={fieldErrors[`${questionPath(qIndex)}.question_type`]}
+                />
               </div>
               <div className="flex-1">
                 <label htmlFor={`q-${qIndex}-points`} className="form-label">
@@ -403,6 +830,9 @@ export default function QuizManageForm({
                   min="0"
                   required
                 />
+                <FieldError
+                  message={fieldErrors[`${questionPath(qIndex)}.points`]}
+                />
               </div>
             </div>
 
@@ -444,62 +874,129 @@ export default function QuizManageForm({
                     False
                   </label>
                 </div>
+                <FieldError
+                  message={
+                    fieldErrors[`${questionPath(qIndex)}.correct_answer_bool`]
+                  }
+                />
               </div>
+            ) : !OPTION_TYPES.includes(question.question_type) ? (
+              <QuestionTypeFields
+                question={question}
+                qIndex={qIndex}
+                fieldErrors={fieldErrors}
+                onChange={(changes, ...errorPaths) =>
+                  updateQuestion(qIndex, changes, ...errorPaths)
+                }
+              />
             ) : (
-              // Answer Options for MCQ
+              // Answer Options for MCQ, or the items for ORDERING
               <div className="space-y-2 border-t pt-3 mt-3">
-                <h4 className="text-md font-medium">Answer Options</h4>
+                <h4 className="text-md font-medium">
+                  {question.question_type === "ORDERING"
+                    ? "Items (in the correct order)"
+                    : "Answer Options"}
+                </h4>
+                <FieldError
+                  message={
+                    fieldErrors[`${questionPath(qIndex)}.answer_options`]
+                  }
+                />
                 {question.answer_options.map((option, aIndex) => (
-                  <div
-                    key={aIndex}
-                    className="flex items-center space-x-2 bg-white p-2 rounded border"
-                  >
-                    <input
-                      type={
-                        question.question_type === "SINGLE_MCQ"
-                          ? "radio"
-                          : "checkbox"
-                      }
-                      name={`q-${qIndex}-correct`} // Use radio name for single choice grouping
-                      checked={option.is_correct}
-                      onChange={(e) =>
-                        handleAnswerOptionChange(
-                          qIndex,
-                          aIndex,
-                          "is_correct",
-                          e.target.checked,
-                        )
-                      }
-                      className={
-                        question.question_type === "SINGLE_MCQ"
-                          ? "form-radio"
-                          : "form-checkbox"
-                      }
-                    />
-                    <input
-                      type="text"
-                      placeholder={`Option ${aIndex + 1} Text`}
-                      value={option.text}
-                      onChange={(e) =>
-                        handleAnswerOptionChange(
-                          qIndex,
-                          aIndex,
-                          "text",
-                          e.target.value,
-                        )
+                  <div key={aIndex}>
+                    <div className="flex items-center space-x-2 bg-white p-2 rounded border">
+                      {question.question_type === "ORDERING" ? (
+                        <>
+                          <span className="text-gray-500 w-6 text-right">
+                            {aIndex + 1}.
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => moveAnswerOption(qIndex, aIndex, -1)}
+                            disabled={aIndex === 0}
+                            className="text-gray-600 disabled:opacity-30"
+                            title="Move Up"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveAnswerOption(qIndex, aIndex, 1)}
+                            disabled={
+                              aIndex ===
+                              (question.answer_options?.length ?? 0) - 1
+                            }
+                            className="text-gray-600 disabled:opacity-30"
+                            title="Move Down"
+                          >
+                            ↓
+                          </button>
+                        </>
+                      ) : (
+                        <input
+                          type={
+                            question.question_type === "SINGLE_MCQ"
+                              ? "radio"
+                              : "checkbox"
+                          }
+                          name={`q-${qIndex}-correct`} // Use radio name for single choice grouping
+                          checked={option.is_correct}
+                          onChange={(e) =>
+                            handleAnswerOptionChange(
+                              qIndex,
+                              aIndex,
+                              "is_correct",
+                              e.target.checked,
+                            )
+                          }
+                          className={
+                            question.question_type === "SINGLE_MCQ"
+                              ? "form-radio"
+                              : "form-checkbox"
+                          }
+                        />
+                      )}
+                      <RichTextInput
+                        placeholder={`Option ${aIndex + 1} Text`}
+                        value={option.text}
+                        onChange={(text) =>
+                          handleAnswerOptionChange(qIndex, aIndex, "text", text)
+                        }
+                        className="flex-grow"
+                        required
+                      />
+                      {question.answer_options.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeAnswerOption(qIndex, aIndex)}
+                          className="text-red-500 hover:text-red-700 text-xs"
+                          title="Remove Option"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                    <FieldError
+                      message={
+                        fieldErrors[`${optionPath(qIndex, aIndex)}.text`] ??
+                        fieldErrors[`${optionPath(qIndex, aIndex)}.is_correct`]
                       }
-                      className="form-input flex-grow"
-                      required
                     />
-                    {question.answer_options.length > 1 && (
-                      <button
-                        type="button"
-                        onClick={() => removeAnswerOption(qIndex, aIndex)}
-                        className="text-red-500 hover:text-red-700 text-xs"
-                        title="Remove Option"
-                      >
-                        Remove
-                      </button>
+                    {question.question_type !== "ORDERING" && (
+                      <RichTextInput
+                        placeholder={`Why option ${aIndex + 1} is right or wrong (optional)`}
+                        ariaLabel={`Option ${aIndex + 1} explanation`}
+                        value={option.explanation ?? ""}
+                        onChange={(explanation) =>
+                          handleAnswerOptionChange(
+                            qIndex,
+                            aIndex,
+                            "explanation",
+                            explanation,
+                          )
+                        }
+                        className="ml-8 mt-1"
+                      />
                     )}
                   </div>
                 ))}
@@ -508,10 +1005,30 @@ export default function QuizManageForm({
                   onClick={() => addAnswerOption(qIndex)}
                   className="btn btn-secondary btn-sm mt-2 text-xs"
                 >
-                  Add Answer Option
+                  {question.question_type === "ORDERING"
+                    ? "Add Item"
+                    : "Add Answer Option"}
                 </button>
               </div>
             )}
+            <div>
+              <label htmlFor={`q-${qIndex}-explanation`} className="form-label">
+                Explanation (Optional)
+              </label>
+              <RichTextInput
+                id={`q-${qIndex}-explanation`}
+                value={question.explanation ?? ""}
+                onChange={(explanation) =>
+                  handleQuestionChange(qIndex, "explanation", explanation)
+                }
+                placeholder="Why the correct answer is correct, shown with the results"
+                multiline
+              />
+              <FieldError
+                message={fieldErrors[`${questionPath(qIndex)}.explanation`]}
+              />
+            </div>
+            <SaveToBankButton question={question} idPrefix={`q-${qIndex}`} />
           </div>
         ))}
         <button
@@ -521,8 +1038,15 @@ export default function QuizManageForm({
         >
           Add Another Question
         </button>
+        <QuestionBankPicker onInsert={insertQuestions} />
       </div>
 
+      <QuestionPoolFields
+        pools={quizData.question_pools ?? []}
+        fieldErrors={fieldErrors}
+        onChange={updatePools}
+      />
+
       {/* Submit Button */}
       <div className="border-t pt-4 text-right">
         <button type="submit" className="btn btn-primary" disabled={loading}>
@@ -532,99 +1056,3 @@ export default function QuizManageForm({
     </form>
   );
 }
-
-// --- Add corresponding type definitions ---
-// You should create a types directory, e.g., src/types/quiz.ts
-
-/* Example: src/types/quiz.ts */
-export interface User {
-  id: number;
-  username: string;
-  email: string;
-  role: "ADMIN" | "TEACHER" | "STUDENT";
-  is_marked: boolean;
-}
-
-export interface AnswerOption {
-  id: number;
-  text: string;
-  is_correct: boolean; // May be hidden
-}
-
-export interface QuestionReadOnly {
-  id: number;
-  question_type: "SINGLE_MCQ" | "MULTI_MCQ" | "TRUE_FALSE";
-  text: string;
-  points: number;
-  answer_options: AnswerOption[];
-}
-
-export interface QuizReadOnly {
-  id: number;
-  title: string;
-  teacher: User;
-  timing_minutes: number;
-  available_from: string | null; // ISO date string or null
-  available_to: string | null; // ISO date string or null
-  is_available_for_submission: boolean;
-  has_availability_window: boolean;
-  questions: QuestionReadOnly[];
-}
-
-// Writable Types (match form state and API payload)
-export interface AnswerOptionWritable {
-  id?: number; // Optional for updates
-  text: string;
-  is_correct: boolean;
-}
-
-export interface QuestionWritable {
-  id?: number; // Optional for updates
-  question_type: "SINGLE_MCQ" | "MULTI_MCQ" | "TRUE_FALSE";
-  text: string;
-  points: number;
-  correct_answer_bool?: boolean | null; // For True/False
-  answer_options: AnswerOptionWritable[]; // For MCQ
-}
-
-export interface QuizWritable {
-  id?: number; // Optional for updates
-  title: string;
-  timing_minutes: number;
-  available_from?: string | null; // ISO date string or null
-  available_to?: string | null; // ISO date string or null
-  questions: QuestionWritable[];
-}
-
-// Submission & Result Types
-export interface ParticipantAnswerSubmit {
-  question_id: number;
-  selected_option_ids?: number[] | null;
-  selected_answer_bool?: boolean | null;
-}
-
-export interface QuizSubmission {
-  quiz_id: number;
-  answers: ParticipantAnswerSubmit[];
-}
-
-export interface ParticipantAnswerResult {
-  id: number;
-  question: QuestionReadOnly; // Contains full question details including options
-  selected_options: AnswerOption[]; // Options selected by participant
-  selected_answer_bool: boolean | null;
-  is_correct: boolean | null;
-  correct_answer_bool: boolean | null; // Conditionally shown
-  correct_options: AnswerOption[]; // Conditionally shown
-}
-
-export interface QuizAttemptResult {
-  id: number;
-  user: User;
-  quiz: QuizReadOnly;
-  score: number;
-  submission_time: string; // ISO date string
-  participant_answers: ParticipantAnswerResult[];
-  rank: number | null;
-  best_score_for_quiz: number | null;
-}
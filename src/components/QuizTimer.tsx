@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+interface QuizTimerProps {
+  deadline: number; // ms since epoch when time runs out
+  warningThresholdsMinutes: number[]; // e.g. [5, 1]
+  onExpire: () => void;
+}
+
+// Format remaining milliseconds as (h:)mm:ss
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+export default function QuizTimer({
+  deadline,
+  warningThresholdsMinutes,
+  onExpire,
+}: QuizTimerProps) {
+  const [remaining, setRemaining] = useState(() => deadline - Date.now());
+  const [warning, setWarning] = useState<string | null>(null);
+  const expiredRef = useRef(false);
+  // Thresholds already announced, so each warning is shown only once
+  const warnedRef = useRef<Set<number>>(new Set());
+  // Keep the latest callback without restarting the interval
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    // Thresholds already passed when the timer mounts (e.g. after a reload) aren't re-announced
+    const initialRemaining = deadline - Date.now();
+    warningThresholdsMinutes.forEach((minutes) => {
+      if (initialRemaining <= minutes * 60 * 1000) {
+        warnedRef.current.add(minutes);
+      }
+    });
+
+    const tick = () => {
+      const msLeft = deadline - Date.now();
+      setRemaining(msLeft);
+
+      // Announce the smallest threshold just crossed
+      const crossed = warningThresholdsMinutes
+        .filter(
+          (minutes) =>
+            msLeft <= minutes * 60 * 1000 && !warnedRef.current.has(minutes),
+        )
+        .sort((a, b) => a - b);
+      if (crossed.length > 0) {
+        crossed.forEach((minutes) => warnedRef.current.add(minutes));
+        const minutes = crossed[0];
+        setWarning(
+          `${minutes} minute${minutes === 1 ? "" : "s"} remaining. Your answers will be submitted automatically when time runs out.`,
+        );
+      }
+
+      if (msLeft <= 0 && !expiredRef.current) {
+        expiredRef.current = true;
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [deadline, warningThresholdsMinutes]);
+
+  const isUrgent = warningThresholdsMinutes.some(
+    (minutes) => remaining <= minutes * 60 * 1000,
+  );
+
+  return (
+    <div className="sticky top-0 z-10 space-y-2">
+      <div
+        className={`inline-block px-3 py-1 rounded font-mono text-lg font-semibold ${isUrgent ? "bg-red-100 text-red-700" : "bg-gray-100 text-gray-800"}`}
+        role="timer"
+        aria-live="off"
+      >
+        Time left: {formatRemaining(remaining)}
+      </div>
+      {warning && remaining > 0 && (
+        <p className="text-yellow-800 bg-yellow-100 p-3 rounded" role="alert">
+          {warning}
+        </p>
+      )}
+      {remaining <= 0 && (
+        <p className="text-red-600 bg-red-100 p-3 rounded" role="alert">
+          Time is up. Submitting your answers...
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { cleanup, render } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import RichText from "./RichText";
+
+afterEach(cleanup);
+
+const renderHtml = (text: string, inline = false) =>
+  render(<RichText text={text} inline={inline} />).container;
+
+describe("RichText", () => {
+  it("renders Markdown, highlighted code and math", () => {
+    const container = renderHtml(
+      "Use **map**:\n\n```js\nconst x = 1;\n```\n\nSolve $x^2$ and\n\n$$\n\\frac{1}{2}\n$$",
+    );
+    expect(container.querySelector("strong")?.textContent).toBe("map");
+    expect(container.querySelector("pre code.hljs.language-js")).not.toBeNull();
+    expect(container.querySelectorAll(".katex")).toHaveLength(2);
+    expect(container.querySelector(".katex-display")).not.toBeNull();
+  });
+
+  it("renders images with their alt text", () => {
+    const img = renderHtml(
+      "![Circuit diagram](https://example.com/circuit.png)",
+    ).querySelector("img");
+    expect(img?.getAttribute("src")).toBe("https://example.com/circuit.png");
+    expect(img?.getAttribute("alt")).toBe("Circuit diagram");
+  });
+
+  it("never renders raw HTML or script URLs", () => {
+    const container = renderHtml(
+      '<script>alert(1)</script><img src="x" onerror="alert(1)">\n\n[click](javascript:alert(1)) ![x](javascript:alert(1))',
+    );
+    expect(container.querySelector("script")).toBeNull();
+    expect(container.querySelector("[onerror]")).toBeNull();
+    expect(container.querySelector("a")?.getAttribute("href")).toBeFalsy();
+    expect(container.querySelector("img")?.getAttribute("src")).toBeFalsy();
+  });
+
+  it("leaves out the paragraph when inline", () => {
+    const container = renderHtml("Option with *emphasis*", true);
+    expect(container.querySelector("p")).toBeNull();
+    expect(container.firstElementChild?.tagName).toBe("SPAN");
+    expect(container.querySelector("em")?.textContent).toBe("emphasis");
+  });
+});
@@ -0,0 +1,45 @@
+import ReactMarkdown from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import { RICH_TEXT_SANITIZE_SCHEMA } from "@/lib/richText";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github.css";
+
+interface RichTextProps {
+  text: string;
+  /** Renders inside a line of text (e.g. an option's label): no paragraph wrapper. */
+  inline?: boolean;
+  className?: string;
+}
+
+// Question and option content: Markdown with code highlighting and LaTeX math.
+// Raw HTML is never rendered, and the generated HTML is sanitised before math
+// and highlighting are added (see lib/richText). Works in server and client components.
+export default function RichText({
+  text,
+  inline = false,
+  className = "",
+}: RichTextProps) {
+  const Wrapper = inline ? "span" : "div";
+  return (
+    <Wrapper
+      className={`rich-text ${inline ? "rich-text-inline" : ""} ${className}`}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          [rehypeSanitize, RICH_TEXT_SANITIZE_SCHEMA],
+          rehypeKatex,
+          rehypeHighlight,
+        ]}
+        disallowedElements={inline ? ["p"] : undefined}
+        unwrapDisallowed
+      >
+        {text}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import { MAX_IMAGE_BYTES, hasMarkup, imageMarkdown } from "@/lib/richText";
+import RichText from "./RichText";
+
+interface RichTextInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  /** A textarea with an always-on preview (question text) rather than a one-line input (options). */
+  multiline?: boolean;
+  placeholder?: string;
+  ariaLabel?: string;
+  className?: string;
+  required?: boolean;
+}
+
+// Editor field for Markdown question content: attaches images (uploaded to the
+// backend, then referenced from the text) and previews the rendered result.
+// One-line fields only show the preview once the text uses Markdown or math.
+export default function RichTextInput({
+  id,
+  value,
+  onChange,
+  multiline = false,
+  placeholder,
+  ariaLabel,
+  className = "",
+  required = false,
+}: RichTextInputProps) {
+  const { data: session } = useSession();
+  const fieldRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const showPreview = multiline ? Boolean(value.trim()) : hasMarkup(value);
+
+  // Inserts at the cursor, or at the end if the field was never focused
+  const insertText = (text: string) => {
+    const field = fieldRef.current;
+    const start = field?.selectionStart ?? value.length;
+    const end = field?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      setError("Only images can be attached.");
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      setError(
+        `Images must be ${MAX_IMAGE_BYTES / (1024 * 1024)} MB or smaller.`,
+      );
+      return;
+    }
+    if (!session?.accessToken) {
+      setError("Authentication required.");
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+    try {
+      const { url } = await createApiClient(
+        session.accessToken,
+      ).uploads.createImage(file);
+      const alt = file.name.replace(/\.[^.]+$/, "");
+      // On its own line in question text, inline in an option
+      insertText(
+        multiline ? `\n${imageMarkdown(url, alt)}\n` : imageMarkdown(url, alt),
+      );
+    } catch (err) {
+      console.error("Failed to upload image:", err);
+      setError(getApiErrorMessage(err, "Could not upload the image."));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex items-start space-x-2">
+        {multiline ? (
+          <textarea
+            ref={fieldRef}
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            aria-label={ariaLabel}
+            className="form-input font-mono"
+            rows={3}
+            required={required}
+          />
+        ) : (
+          <input
+            ref={fieldRef}
+            type="text"
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            aria-label={ariaLabel}
+            className="form-input"
+            required={required}
+          />
+        )}
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="btn btn-secondary btn-sm text-xs whitespace-nowrap"
+          disabled={uploading}
+          title="Attach an image"
+        >
+          {uploading ? "Uploading..." : "Image"}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      {multiline && (
+        <p className="text-xs text-gray-500 mt-1">
+          Markdown supported: **bold**, `code`, ```fenced code```, $math$ and
+          $$display math$$ (LaTeX).
+        </p>
+      )}
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+      {showPreview && (
+        <div className="mt-2 p-2 rounded border border-dashed border-gray-300 bg-gray-50">
+          <p className="text-xs text-gray-500 mb-1">Preview</p>
+          <RichText text={value} />
+        </div>
+      )}
+    </div>
+  );
+}
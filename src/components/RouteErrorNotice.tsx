@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+
+interface RouteErrorNoticeProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+  backHref: string;
+  backLabel: string;
+}
+
+// Body of the route segments' error.tsx boundaries. Expected API failures are
+// rendered by the pages themselves (ApiErrorNotice); this only catches the
+// unexpected ones, so it offers a retry rather than a specific explanation.
+export default function RouteErrorNotice({
+  error,
+  reset,
+  backHref,
+  backLabel,
+}: RouteErrorNoticeProps) {
+  useEffect(() => {
+    console.error("Unhandled error in route:", error);
+  }, [error]);
+
+  return (
+    <div
+      className="text-center p-6 rounded border bg-red-100 border-red-300"
+      role="alert"
+    >
+      <p className="font-semibold mb-1">Something went wrong</p>
+      <p>This page couldn&apos;t be loaded. Please try again.</p>
+      {/* The digest lets server logs be matched to what the user saw */}
+      {error.digest && (
+        <p className="text-xs text-gray-500 mt-2">
+          Error reference: {error.digest}
+        </p>
+      )}
+      <div className="mt-3 space-x-4">
+        <button
+          type="button"
+          onClick={reset}
+          className="btn btn-primary btn-sm"
+        >
+          Try Again
+        </button>
+        <Link href={backHref} className="text-blue-600 hover:underline">
+          {backLabel}
+        </Link>
+      </div>
+    </div>
+  );
+}
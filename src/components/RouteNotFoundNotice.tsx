@@ -0,0 +1,28 @@
+import Link from "next/link";
+
+interface RouteNotFoundNoticeProps {
+  title: string;
+  message: string;
+  backHref: string;
+  backLabel: string;
+}
+
+// Body of the route segments' not-found.tsx pages (rendered on notFound())
+export default function RouteNotFoundNotice({
+  title,
+  message,
+  backHref,
+  backLabel,
+}: RouteNotFoundNoticeProps) {
+  return (
+    <div className="text-center p-6 rounded border bg-gray-100 border-gray-300">
+      <p className="font-semibold mb-1">{title}</p>
+      <p>{message}</p>
+      <div className="mt-3">
+        <Link href={backHref} className="text-blue-600 hover:underline">
+          {backLabel}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { Difficulty, QuestionWritable } from "@/types/quiz";
+import { createApiClient } from "@/lib/apiClient";
+import { getApiErrorMessage } from "@/lib/apiErrorMessages";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_OPTIONS,
+  parseTags,
+  toBankQuestionWritable,
+} from "@/lib/questionBankQuery";
+
+interface SaveToBankButtonProps {
+  question: QuestionWritable;
+  idPrefix: string; // Keeps input IDs unique when rendered once per question
+}
+
+// Saves a copy of a quiz question to the question bank, with tags, subject
+// and difficulty so it can be found (or drawn into a pool) later.
+export default function SaveToBankButton({
+  question,
+  idPrefix,
+}: SaveToBankButtonProps) {
+  const { data: session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [subject, setSubject] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    if (!session?.accessToken) {
+      setError("Authentication required.");
+      return;
+    }
+    if (!question.text.trim()) {
+      setError("Write the question before saving it to the bank.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await createApiClient(session.accessToken).questionBank.create(
+        toBankQuestionWritable(question, {
+          subject,
+          tags: parseTags(tagsText),
+          difficulty,
+        }),
+      );
+      setSaved(true);
+      setOpen(false);
+    } catch (err) {
+      console.error("Failed to save question to the bank:", err);
+      setError(
+        getApiErrorMessage(err, "Could not save the question to the bank."),
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="text-right">
+        <button
+          type="button"
+          onClick={() => {
+            setOpen(true);
+            setSaved(false);
+          }}
+          className="text-blue-600 hover:underline text-xs"
+        >
+          Save to Question Bank
+        </button>
+        {saved && (
+          <p className="text-green-700 text-xs mt-1">
+            Saved to the question bank.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border rounded p-3 space-y-2">
+      <p className="text-sm font-medium">Save a copy to the question bank</p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div>
+          <label htmlFor={`${idPrefix}-bank-subject`} className="form-label">
+            Subject
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-bank-subject`}
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            placeholder="e.g. Biology"
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-bank-tags`} className="form-label">
+            Tags (comma-separated)
+          </label>
+          <input
+            type="text"
+            id={`${idPrefix}-bank-tags`}
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            placeholder="e.g. cells, term 1"
+            className="form-input"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-bank-difficulty`} className="form-label">
+            Difficulty
+          </label>
+          <select
+            id={`${idPrefix}-bank-difficulty`}
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+            className="form-input"
+          >
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="btn btn-secondary btn-sm"
+          disabled={saving}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="btn btn-primary btn-sm"
+          disabled={saving}
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
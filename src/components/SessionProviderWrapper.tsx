@@ -2,6 +2,7 @@
 
 import { SessionProvider } from "next-auth/react";
 import React from "react";
+import SessionWatcher from "./SessionWatcher";
 
 interface Props {
   children: React.ReactNode;
@@ -10,5 +11,11 @@ interface Props {
 export default function SessionProviderWrapper({ children }: Props) {
   // The SessionProvider needs to be run in a client component.
   // This wrapper component allows us to use it in our server-rendered layout.
-  return <SessionProvider>{children}</SessionProvider>;
+  return (
+    <SessionProvider>
+      {/* Forces a re-login when the backend tokens can't be refreshed */}
+      <SessionWatcher />
+      {children}
+    </SessionProvider>
+  );
 }
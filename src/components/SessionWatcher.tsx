@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { signOut, useSession } from "next-auth/react";
+import { isSessionErrorCode } from "@/lib/accessReasons";
+
+// Watches the session for token errors set by the JWT callback (see
+// SESSION_ERROR_CODES) and forces a clean re-login: the stale session is
+// signed out and the user lands on /login with an explanation and a
+// callbackUrl back to the current page.
+//
+// An in-progress quiz attempt isn't lost: QuizAttemptForm autosaves every
+// change to localStorage, which signing out leaves untouched, and offers to
+// resume the draft once the user is back.
+export default function SessionWatcher() {
+  const { data: session } = useSession();
+  const error = session?.error;
+  // signOut triggers session updates of its own; only act once
+  const signingOut = useRef(false);
+
+  useEffect(() => {
+    if (!isSessionErrorCode(error) || signingOut.current) return;
+    signingOut.current = true;
+
+    const { pathname, search } = window.location;
+    const loginUrl = new URL("/login", window.location.origin);
+    loginUrl.searchParams.set("error", error!);
+    // Don't send the user back to the login page itself
+    if (pathname !== "/login") {
+      loginUrl.searchParams.set("callbackUrl", `${pathname}${search}`);
+    }
+
+    console.warn(`Session error "${error}"; signing out.`);
+    signOut({ callbackUrl: `${loginUrl.pathname}${loginUrl.search}` });
+  }, [error]);
+
+  return null;
+}
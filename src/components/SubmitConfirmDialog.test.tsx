@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { QuestionProgress } from "@/lib/attemptNavigation";
+import SubmitConfirmDialog from "./SubmitConfirmDialog";
+
+afterEach(cleanup);
+
+const progressItem = (
+  index: number,
+  status: QuestionProgress["status"],
+  flagged = false,
+): QuestionProgress => ({
+  question: {
+    id: index + 1,
+    question_type: "SINGLE_MCQ",
+    text: `Question text ${index + 1}`,
+    points: 1,
+    answer_options: [],
+  },
+  index,
+  status,
+  flagged,
+});
+
+const renderDialog = (progress: QuestionProgress[]) => {
+  const handlers = { onConfirm: vi.fn(), onCancel: vi.fn(), onJump: vi.fn() };
+  render(<SubmitConfirmDialog progress={progress} {...handlers} />);
+  return handlers;
+};
+
+describe("SubmitConfirmDialog", () => {
+  it("warns about unanswered questions and lets the student jump back to one", () => {
+    const { onJump, onConfirm } = renderDialog([
+      progressItem(0, "answered"),
+      progressItem(1, "unanswered"),
+    ]);
+
+    expect(
+      screen.getByText("You have answered 1 of 2 questions."),
+    ).toBeTruthy();
+    expect(
+      screen.getByText(/Unanswered questions score no points/),
+    ).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: /Question 2:/ }));
+    expect(onJump).toHaveBeenCalledWith(1);
+
+    fireEvent.click(screen.getByRole("button", { name: "Submit Anyway" }));
+    expect(onConfirm).toHaveBeenCalledOnce();
+  });
+
+  it("offers a plain submit when every question is answered", () => {
+    renderDialog([progressItem(0, "answered"), progressItem(1, "answered")]);
+    expect(screen.getByRole("button", { name: "Submit Quiz" })).toBeTruthy();
+    expect(
+      screen.queryByText(/Unanswered questions score no points/),
+    ).toBeNull();
+  });
+
+  it("starts on Keep Answering and cancels on Escape", () => {
+    const { onCancel, onConfirm } = renderDialog([progressItem(0, "answered")]);
+    expect(document.activeElement).toBe(
+      screen.getByRole("button", { name: "Keep Answering" }),
+    );
+
+    fireEvent.keyDown(window, { key: "Escape" });
+    expect(onCancel).toHaveBeenCalledOnce();
+    expect(onConfirm).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { QuestionProgress } from "@/lib/attemptNavigation";
+import AttemptReviewSummary from "./AttemptReviewSummary";
+
+interface SubmitConfirmDialogProps {
+  progress: QuestionProgress[];
+  onConfirm: () => void;
+  onCancel: () => void;
+  /** Closes the dialog and takes the student to the question. */
+  onJump: (index: number) => void;
+}
+
+// Confirmation shown before a quiz is submitted, so skipped questions are
+// noticed before it's too late. Time-triggered submissions bypass it.
+export default function SubmitConfirmDialog({
+  progress,
+  onConfirm,
+  onCancel,
+  onJump,
+}: SubmitConfirmDialogProps) {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const unansweredCount = progress.filter(
+    (p) => p.status === "unanswered",
+  ).length;
+
+  // Start on the safe choice
+  useEffect(() => {
+    cancelRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="submit-confirm-title"
+        className="bg-white rounded shadow-lg max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 space-y-4"
+      >
+        <h3 id="submit-confirm-title" className="text-xl font-semibold">
+          Submit your answers?
+        </h3>
+        <AttemptReviewSummary progress={progress} onJump={onJump} />
+        {unansweredCount > 0 && (
+          <p className="text-sm text-gray-600">
+            Unanswered questions score no points. You can&apos;t change your
+            answers after submitting.
+          </p>
+        )}
+        <div className="flex justify-end space-x-3">
+          <button
+            ref={cancelRef}
+            type="button"
+            onClick={onCancel}
+            className="btn btn-secondary"
+          >
+            Keep Answering
+          </button>
+          <button type="button" onClick={onConfirm} className="btn btn-primary">
+            {unansweredCount > 0 ? "Submit Anyway" : "Submit Quiz"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+// User-facing explanations for why a page can't be shown, keyed by the
+// `reason` (/unauthorized) or `error` (/login, /auth/error) query parameter.
+// Covers our own reasons, the auth errors set in the JWT callback, and the
+// error codes NextAuth itself redirects with.
+
+export type AccessAction = "login" | "home" | "quizzes" | "retry-login";
+
+export interface AccessReasonDescription {
+  title: string;
+  message: string;
+  /** What the user can do about it; the first action is the primary one. */
+  actions: AccessAction[];
+}
+
+const REASONS: Record<string, AccessReasonDescription> = {
+  role: {
+    title: "Access denied",
+    message:
+      "Your account's role doesn't allow access to this page. If you think it should, ask an administrator to change your role.",
+    actions: ["quizzes"],
+  },
+  marked: {
+    title: "Account restricted",
+    message:
+      "Your account has been marked by an administrator, so you can't start or submit quiz attempts. You can still view quizzes and your past results.",
+    actions: ["quizzes"],
+  },
+  "session-expired": {
+    title: "Session expired",
+    message:
+      "Your session has expired. Log in again to continue where you left off; answers to a quiz in progress were kept on this device.",
+    actions: ["login"],
+  },
+  "login-failed": {
+    title: "Login failed",
+    message:
+      "The quiz server couldn't complete your sign-in. Try again, and contact an administrator if it keeps happening.",
+    actions: ["retry-login", "home"],
+  },
+  "invalid-credentials": {
+    title: "Incorrect username or password",
+    message: "Check your username and password and try again.",
+    actions: ["retry-login"],
+  },
+  "access-denied": {
+    title: "Sign-in not allowed",
+    message: "This account isn't allowed to sign in to the quiz system.",
+    actions: ["retry-login", "home"],
+  },
+  configuration: {
+    title: "Sign-in unavailable",
+    message:
+      "Sign-in is misconfigured on the server. Please try again later or contact an administrator.",
+    actions: ["home"],
+  },
+};
+
+// Auth error codes (from NextAuth and from the JWT callback in lib/auth.ts)
+// mapped onto the reasons above
+const ERROR_CODE_REASONS: Record<string, string> = {
+  RefreshAccessTokenError: "session-expired",
+  MissingRefreshTokenError: "session-expired",
+  SessionRequired: "session-expired",
+  BackendLoginFailed: "login-failed",
+  OAuthSignin: "login-failed",
+  OAuthCallback: "login-failed",
+  OAuthCreateAccount: "login-failed",
+  Callback: "login-failed",
+  CredentialsSignin: "invalid-credentials",
+  AccessDenied: "access-denied",
+  Unauthorized: "role",
+  Configuration: "configuration",
+};
+
+/**
+ * `session.error` values set by the JWT callback that leave the session
+ * without usable backend tokens; the user has to sign in again.
+ */
+export const SESSION_ERROR_CODES = [
+  "RefreshAccessTokenError",
+  "MissingRefreshTokenError",
+  "BackendLoginFailed",
+];
+
+export const isSessionErrorCode = (value: string | null | undefined) =>
+  Boolean(value && SESSION_ERROR_CODES.includes(value));
+
+const UNKNOWN_REASON: AccessReasonDescription = {
+  title: "Access denied",
+  message: "You can't access this page right now.",
+  actions: ["quizzes", "login"],
+};
+
+/** Normalises a reason or auth error code to one of the known reasons. */
+export function normalizeAccessReason(value: string | null | undefined) {
+  if (!value) return null;
+  if (value in REASONS) return value;
+  return ERROR_CODE_REASONS[value] ?? null;
+}
+
+/** Describes a reason or auth error code; unknown values get a generic description. */
+export function describeAccessReason(
+  value: string | null | undefined,
+): AccessReasonDescription {
+  const reason = normalizeAccessReason(value);
+  return reason ? REASONS[reason] : UNKNOWN_REASON;
+}
+
+/** Only same-site paths are accepted as callback URLs, so links can't be used to redirect off-site. */
+export function safeCallbackUrl(value: string | null | undefined) {
+  return value && value.startsWith("/") && !value.startsWith("//")
+    ? value
+    : undefined;
+}
@@ -0,0 +1,152 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+// fetchApi against a throwaway HTTP server standing in for the backend
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  body: string;
+}
+
+let lastRequest: RecordedRequest | null = null;
+let reply: { status: number; body?: unknown } = { status: 200 };
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    lastRequest = {
+      method: req.method,
+      url: req.url,
+      authorization: req.headers.authorization,
+      body,
+    };
+    res.writeHead(reply.status, { "Content-Type": "application/json" });
+    res.end(reply.body === undefined ? undefined : JSON.stringify(reply.body));
+  });
+});
+
+let api: typeof import("./api");
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  // The base URL is read when the module loads
+  process.env.BACKEND_API_URL = `http://127.0.0.1:${port}`;
+  api = await import("./api");
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  lastRequest = null;
+  reply = { status: 200 };
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("fetchApi", () => {
+  it("sends the bearer token and query parameters and returns the body", async () => {
+    reply = { status: 200, body: [{ id: 1 }] };
+    const data = await api.fetchApi("/quizzes/", {
+      accessToken: "token-123",
+      params: { search: "math", page: 2 },
+    });
+    expect(data).toEqual([{ id: 1 }]);
+    expect(lastRequest?.method).toBe("GET");
+    expect(lastRequest?.url).toBe("/quizzes/?search=math&page=2");
+    expect(lastRequest?.authorization).toBe("Bearer token-123");
+  });
+
+  it("sends the request body as JSON", async () => {
+    reply = { status: 201, body: { id: 7 } };
+    await api.fetchApi("/quizzes/", {
+      accessToken: "token-123",
+      method: "POST",
+      data: { title: "New quiz" },
+    });
+    expect(lastRequest?.method).toBe("POST");
+    expect(JSON.parse(lastRequest!.body)).toEqual({ title: "New quiz" });
+  });
+
+  it("rejects with a 401 ApiError without calling the backend when there is no token", async () => {
+    const error = await api
+      .fetchApi("/quizzes/", { accessToken: null })
+      .catch((e: unknown) => e);
+    expect(api.isApiError(error)).toBe(true);
+    expect(error).toMatchObject({
+      status: 401,
+      code: "not_authenticated",
+      method: "GET",
+      url: "/quizzes/",
+    });
+    expect(lastRequest).toBeNull();
+  });
+
+  it("carries the backend's detail message and status", async () => {
+    reply = {
+      status: 403,
+      body: { detail: "Only students can attempt quizzes." },
+    };
+    const error = await api
+      .fetchApi("/quizzes/1/submit/", {
+        accessToken: "token-123",
+        method: "post",
+        data: { answers: [] },
+      })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(api.ApiError);
+    expect(error).toMatchObject({
+      status: 403,
+      message: "Only students can attempt quizzes.",
+      backendMessage: "Only students can attempt quizzes.",
+      fieldErrors: null,
+      method: "POST",
+    });
+  });
+
+  it("separates field errors from the error description", async () => {
+    reply = {
+      status: 400,
+      body: {
+        code: "invalid",
+        title: ["This field is required."],
+        questions: [{ text: ["This field may not be blank."] }],
+      },
+    };
+    const error = await api
+      .fetchApi("/quizzes/", { accessToken: "token-123", method: "POST" })
+      .catch((e: unknown) => e);
+    expect(error).toMatchObject({
+      status: 400,
+      code: "invalid",
+      message: "API request failed with status 400",
+      fieldErrors: {
+        title: ["This field is required."],
+        questions: [{ text: ["This field may not be blank."] }],
+      },
+    });
+  });
+
+  it("reports a null status when no response is received", async () => {
+    const { port } = server.address() as AddressInfo;
+    const error = await api
+      .fetchApi(`http://127.0.0.1:${port + 1}/quizzes/`, {
+        accessToken: "token-123",
+      })
+      .catch((e: unknown) => e);
+    expect(error).toMatchObject({
+      status: null,
+      message: "API request made but no response received.",
+    });
+  });
+});
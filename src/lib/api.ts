@@ -1,14 +1,119 @@
 import axios, { AxiosRequestConfig, AxiosError } from "axios";
-import { getSession } from "next-auth/react"; // For client-side
-import { getServerSession } from "next-auth/next"; // For server-side
-import { authOptions } from "@/lib/auth"; // Adjust path
 
-const API_BASE_URL = process.env.BACKEND_API_URL;
+// BACKEND_API_URL is only defined on the server; client components fall back
+// to NEXT_PUBLIC_BACKEND_API_URL, which Next.js inlines into the browser bundle.
+// Keep this module free of server-only imports (e.g. authOptions) so it can be
+// used from both server and client components.
+const API_BASE_URL =
+  process.env.BACKEND_API_URL ?? process.env.NEXT_PUBLIC_BACKEND_API_URL;
 
-// Define a type for API errors
+/**
+ * DRF-style validation errors: a list of messages per field, nested for
+ * related objects (e.g. questions[2].answer_options[0].text).
+ */
+export interface ApiFieldErrors {
+  [field: string]: string[] | ApiFieldErrors | ApiFieldErrors[];
+}
+
+// Shape of error bodies returned by the backend (custom handler or DRF defaults)
 interface ApiErrorResponse {
-  message: string;
-  details?: any;
+  message?: string;
+  detail?: string;
+  code?: string;
+  details?: unknown;
+  non_field_errors?: string[];
+  [field: string]: unknown;
+}
+
+// Keys of an error body that describe the error itself rather than a field
+const NON_FIELD_KEYS = ["message", "detail", "code", "details"];
+
+/**
+ * Error thrown by fetchApi. Carries the HTTP status so callers can branch on
+ * it instead of parsing the message text.
+ */
+export class ApiError extends Error {
+  /** HTTP status code, or null if no response was received. */
+  status: number | null;
+  /** Machine-readable error code from the backend, if provided. */
+  code: string | null;
+  /** Human-readable message from the backend, if provided. */
+  backendMessage: string | null;
+  /** Field-level validation errors (400/422), if provided. */
+  fieldErrors: ApiFieldErrors | null;
+  method: string;
+  url: string;
+
+  constructor(
+    message: string,
+    {
+      status = null,
+      code = null,
+      backendMessage = null,
+      fieldErrors = null,
+      method,
+      url,
+    }: {
+      status?: number | null;
+      code?: string | null;
+      backendMessage?: string | null;
+      fieldErrors?: ApiFieldErrors | null;
+      method: string;
+      url: string;
+    },
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.backendMessage = backendMessage;
+    this.fieldErrors = fieldErrors;
+    this.method = method;
+    this.url = url;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+// Build an ApiError from a failed response body
+function toApiError(
+  status: number,
+  body: unknown,
+  method: string,
+  url: string,
+): ApiError {
+  const data =
+    body && typeof body === "object" && !Array.isArray(body)
+      ? (body as ApiErrorResponse)
+      : {};
+
+  const fieldEntries = Object.entries(data).filter(
+    ([key, value]) =>
+      !NON_FIELD_KEYS.includes(key) && value && typeof value === "object",
+  );
+  const fieldErrors =
+    fieldEntries.length > 0
+      ? (Object.fromEntries(fieldEntries) as ApiFieldErrors)
+      : null;
+
+  const backendMessage =
+    data.message ||
+    data.detail ||
+    data.non_field_errors?.[0] ||
+    (typeof body === "string" && body.length < 200 ? body : null);
+
+  return new ApiError(
+    backendMessage || `API request failed with status ${status}`,
+    {
+      status,
+      code: typeof data.code === "string" ? data.code : null,
+      backendMessage,
+      fieldErrors,
+      method,
+      url,
+    },
+  );
 }
 
 // Instance for backend calls (can configure base URL, etc.)
@@ -19,42 +124,6 @@ const apiClient = axios.create({
   },
 });
 
-// Function to get the current access token (adapt based on context)
-// This is a simplified example. In practice, getting the token cleanly
-// into a shared helper can be tricky. Often, you fetch the token within
-// the component/page/server action where you need to make the call.
-async function getAccessToken(): Promise<string | null> {
-  // Check if running on the server or client
-  // Note: Directly calling getSession or getServerSession here might be
-  // problematic depending on the context. It's often better to pass the
-  // token directly to the fetchApi function from where it's called.
-  // This function is more illustrative.
-  try {
-    // Attempt to get session (might need context in RSC)
-    // This part needs careful handling depending on usage context (Client/Server Component)
-    const session =
-      typeof window === "undefined"
-        ? await getServerSession(authOptions) // Needs authOptions passed correctly in RSCs/Route Handlers
-        : await getSession(); // Works in Client Components
-
-    // Type guard for custom session
-    const customSession = session as
-      | (typeof session & { accessToken?: string; error?: string })
-      | null;
-
-    if (customSession?.error === "RefreshAccessTokenError") {
-      console.error("Cannot make API call: Refresh token failed.");
-      // Optionally force logout here
-      return null;
-    }
-
-    return customSession?.accessToken ?? null;
-  } catch (e) {
-    console.error("Error getting access token:", e);
-    return null;
-  }
-}
-
 // --- Preferred Approach: Pass Token Explicitly ---
 
 interface FetchApiOptions extends AxiosRequestConfig {
@@ -78,7 +147,12 @@ export async function fetchApi<T = any>(
     console.error(
       `WorkspaceApi (${method} ${endpoint}): No access token provided.`,
     );
-    throw new Error("Authentication token is missing.");
+    throw new ApiError("Authentication token is missing.", {
+      status: 401,
+      code: "not_authenticated",
+      method: method.toUpperCase(),
+      url: endpoint,
+    });
   }
 
   try {
@@ -102,16 +176,24 @@ export async function fetchApi<T = any>(
       axiosError.response?.data || axiosError.message,
     );
 
-    // You could add more specific error handling here (e.g., for 401, 403, 404)
+    const methodName = method.toUpperCase();
     if (axiosError.response) {
-      throw new Error(
-        axiosError.response.data?.message ||
-          `API request failed with status ${axiosError.response.status}`,
+      throw toApiError(
+        axiosError.response.status,
+        axiosError.response.data,
+        methodName,
+        endpoint,
       );
     } else if (axiosError.request) {
-      throw new Error("API request made but no response received.");
+      throw new ApiError("API request made but no response received.", {
+        method: methodName,
+        url: endpoint,
+      });
     } else {
-      throw new Error(`API request setup error: ${axiosError.message}`);
+      throw new ApiError(`API request setup error: ${axiosError.message}`, {
+        method: methodName,
+        url: endpoint,
+      });
     }
   }
 }
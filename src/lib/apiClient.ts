@@ -0,0 +1,215 @@
+import { fetchApi } from "@/lib/api";
+import {
+  AttemptDraft,
+  BankQuestion,
+  BankQuestionWritable,
+  Difficulty,
+  PaginatedResponse,
+  QuizAttemptResult,
+  QuizReadOnly,
+  QuizSubmission,
+  QuizWritable,
+  UploadedImage,
+  User,
+  UserAdminUpdate,
+} from "@/types/quiz";
+
+// Typed client for the quiz backend.
+// Every endpoint path and payload type lives here, so pages and components
+// never build URLs by hand. The client is bound to an access token, which
+// makes it usable the same way from server components (token from
+// getServerSession) and client components (token from useSession).
+
+type Id = number | string;
+
+/** Filters, ordering and paging supported by GET /quizzes/. */
+export interface QuizListParams {
+  search?: string;
+  teacher?: string;
+  status?: "open" | "upcoming" | "closed";
+  ordering?: string;
+  page?: number;
+  limit?: number;
+}
+
+/** Filters, ordering and paging supported by GET /attempts/. */
+export interface AttemptListParams {
+  quiz?: Id;
+  quiz_title?: string;
+  student?: string; // Username or email
+  submitted_after?: string; // YYYY-MM-DD, inclusive
+  submitted_before?: string; // YYYY-MM-DD, inclusive
+  ordering?: string;
+  page?: number;
+  limit?: number;
+}
+
+/** Filters and paging supported by GET /question-bank/. */
+export interface BankQuestionListParams {
+  search?: string; // Matches the question text
+  tags?: string; // Comma-separated; a question must have all of them
+  subject?: string;
+  difficulty?: Difficulty;
+  page?: number;
+  limit?: number;
+}
+
+/** Filters and paging supported by GET /users/ (admin only). */
+export interface UserListParams {
+  search?: string; // Matches username or email
+  role?: User["role"];
+  is_marked?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export function createApiClient(accessToken: string | null) {
+  return {
+    quizzes: {
+      // Paginated when the backend supports page/limit, a plain array otherwise
+      list: (params?: QuizListParams) =>
+        fetchApi<QuizReadOnly[] | PaginatedResponse<QuizReadOnly>>(
+          "/quizzes/",
+          { method: "GET", accessToken, params },
+        ),
+
+      get: (id: Id) =>
+        fetchApi<QuizReadOnly>(`/quizzes/${id}/`, {
+          method: "GET",
+          accessToken,
+        }),
+
+      create: (quiz: QuizWritable) =>
+        fetchApi<QuizReadOnly>("/quizzes/", {
+          method: "POST",
+          accessToken,
+          data: quiz,
+        }),
+
+      update: (id: Id, quiz: QuizWritable) =>
+        fetchApi<QuizReadOnly>(`/quizzes/${id}/`, {
+          method: "PUT",
+          accessToken,
+          data: quiz,
+        }),
+
+      delete: (id: Id) =>
+        fetchApi<void>(`/quizzes/${id}/`, { method: "DELETE", accessToken }),
+
+      submit: (id: Id, submission: QuizSubmission) =>
+        fetchApi<QuizAttemptResult>(`/quizzes/${id}/submit/`, {
+          method: "POST",
+          accessToken,
+          data: submission,
+        }),
+    },
+
+    drafts: {
+      get: (quizId: Id) =>
+        fetchApi<AttemptDraft>(`/quizzes/${quizId}/draft/`, {
+          method: "GET",
+          accessToken,
+        }),
+
+      save: (draft: AttemptDraft) =>
+        fetchApi<AttemptDraft>(`/quizzes/${draft.quiz_id}/draft/`, {
+          method: "PUT",
+          accessToken,
+          data: draft,
+        }),
+
+      delete: (quizId: Id) =>
+        fetchApi<void>(`/quizzes/${quizId}/draft/`, {
+          method: "DELETE",
+          accessToken,
+        }),
+    },
+
+    questionBank: {
+      // Paginated when the backend supports page/limit, a plain array otherwise
+      list: (params?: BankQuestionListParams) =>
+        fetchApi<BankQuestion[] | PaginatedResponse<BankQuestion>>(
+          "/question-bank/",
+          { method: "GET", accessToken, params },
+        ),
+
+      create: (question: BankQuestionWritable) =>
+        fetchApi<BankQuestion>("/question-bank/", {
+          method: "POST",
+          accessToken,
+          data: question,
+        }),
+
+      // Only the bank metadata can be changed; the question itself is edited in a quiz
+      update: (
+        id: Id,
+        changes: Partial<
+          Pick<BankQuestionWritable, "subject" | "tags" | "difficulty">
+        >,
+      ) =>
+        fetchApi<BankQuestion>(`/question-bank/${id}/`, {
+          method: "PATCH",
+          accessToken,
+          data: changes,
+        }),
+
+      delete: (id: Id) =>
+        fetchApi<void>(`/question-bank/${id}/`, {
+          method: "DELETE",
+          accessToken,
+        }),
+    },
+
+    users: {
+      // Paginated when the backend supports page/limit, a plain array otherwise
+      list: (params?: UserListParams) =>
+        fetchApi<User[] | PaginatedResponse<User>>("/users/", {
+          method: "GET",
+          accessToken,
+          params,
+        }),
+
+      get: (id: Id) =>
+        fetchApi<User>(`/users/${id}/`, { method: "GET", accessToken }),
+
+      update: (id: Id, changes: UserAdminUpdate) =>
+        fetchApi<User>(`/users/${id}/`, {
+          method: "PATCH",
+          accessToken,
+          data: changes,
+        }),
+    },
+
+    uploads: {
+      // Images for question and option text (teachers and admins)
+      createImage: (file: File) => {
+        const data = new FormData();
+        data.append("file", file);
+        return fetchApi<UploadedImage>("/uploads/", {
+          method: "POST",
+          accessToken,
+          data,
+          // Overrides the client's JSON default; the browser adds the boundary
+          headers: { "Content-Type": "multipart/form-data" },
+        });
+      },
+    },
+
+    attempts: {
+      // Paginated when the backend supports page/limit, a plain array otherwise
+      list: (params?: AttemptListParams) =>
+        fetchApi<QuizAttemptResult[] | PaginatedResponse<QuizAttemptResult>>(
+          "/attempts/",
+          { method: "GET", accessToken, params },
+        ),
+
+      get: (id: Id) =>
+        fetchApi<QuizAttemptResult>(`/attempts/${id}/`, {
+          method: "GET",
+          accessToken,
+        }),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,80 @@
+import { isApiError } from "@/lib/api";
+
+// User-facing descriptions of API failures, keyed by HTTP status.
+// Shared by ApiErrorNotice (page-level errors) and the forms (inline errors)
+// so the same status always produces the same explanation.
+
+export interface ApiErrorDescription {
+  title: string;
+  message: string;
+}
+
+/**
+ * Describes an API failure for display. For statuses where the backend's own
+ * message is meaningful (validation, permission, conflict) it is preferred.
+ */
+export function describeApiError(
+  status: number | null,
+  backendMessage?: string | null,
+): ApiErrorDescription {
+  if (status === null) {
+    return {
+      title: "Connection problem",
+      message:
+        "We couldn't reach the quiz server. Check your connection and try again.",
+    };
+  }
+  if (status === 400 || status === 422) {
+    return {
+      title: "Invalid data",
+      message:
+        backendMessage ||
+        "Some of the submitted data is invalid. Please check the form and try again.",
+    };
+  }
+  if (status === 401) {
+    return {
+      title: "Login required",
+      message: "Your session has expired or you are not logged in.",
+    };
+  }
+  if (status === 403) {
+    return {
+      title: "Access denied",
+      message:
+        backendMessage || "You do not have permission to access this resource.",
+    };
+  }
+  if (status === 404) {
+    return {
+      title: "Not found",
+      message: "The requested item does not exist or has been removed.",
+    };
+  }
+  if (status === 409) {
+    return {
+      title: "Conflict",
+      message:
+        backendMessage ||
+        "This item was changed by someone else. Reload it and try again.",
+    };
+  }
+  if (status >= 500) {
+    return {
+      title: "Server error",
+      message: "Something went wrong on our side. Please try again later.",
+    };
+  }
+  return {
+    title: "Request failed",
+    message: backendMessage || `The request failed with status ${status}.`,
+  };
+}
+
+/** Returns the user-facing message for any error thrown by the API layer. */
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (isApiError(error)) {
+    return describeApiError(error.status, error.backendMessage).message;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { QuestionReadOnly, QuizReadOnly } from "@/types/quiz";
+import {
+  countAnswered,
+  fromSubmissionAnswers,
+  initialOrderIds,
+  isAnswered,
+  toSubmissionAnswers,
+} from "./attemptAnswers";
+
+const question = (
+  id: number,
+  overrides: Partial<QuestionReadOnly> = {},
+): QuestionReadOnly => ({
+  id,
+  question_type: "SINGLE_MCQ",
+  text: `Question ${id}`,
+  points: 1,
+  answer_options: [],
+  ...overrides,
+});
+
+const quizWith = (questions: QuestionReadOnly[]) =>
+  ({ id: 1, title: "Quiz", questions }) as QuizReadOnly;
+
+describe("isAnswered", () => {
+  it("treats missing, empty and blank answers as unanswered", () => {
+    expect(isAnswered(undefined)).toBe(false);
+    expect(isAnswered({})).toBe(false);
+    expect(isAnswered({ selectedOptionIds: [] })).toBe(false);
+    expect(isAnswered({ answerText: "   " })).toBe(false);
+    expect(isAnswered({ numberText: "abc" })).toBe(false);
+    expect(isAnswered({ matches: {} })).toBe(false);
+  });
+
+  it("counts any given answer, including False", () => {
+    expect(isAnswered({ selectedOptionIds: [3] })).toBe(true);
+    expect(isAnswered({ selectedAnswerBool: false })).toBe(true);
+    expect(isAnswered({ answerText: "Mars" })).toBe(true);
+    expect(isAnswered({ numberText: "0,3" })).toBe(true);
+    expect(isAnswered({ orderedOptionIds: [2, 1] })).toBe(true);
+    expect(isAnswered({ matches: { 1: 2 } })).toBe(true);
+  });
+});
+
+describe("initialOrderIds", () => {
+  it("orders the items alphabetically", () => {
+    const ordering = question(1, {
+      question_type: "ORDERING",
+      answer_options: [
+        { id: 10, text: "Venus", is_correct: false },
+        { id: 11, text: "Earth", is_correct: false },
+        { id: 12, text: "Mercury", is_correct: false },
+      ],
+    });
+    expect(initialOrderIds(ordering)).toEqual([11, 12, 10]);
+  });
+});
+
+describe("toSubmissionAnswers", () => {
+  it("converts each answer type and adds null answers for untouched questions", () => {
+    const quiz = quizWith([question(1), question(2), question(3), question(4)]);
+    const submission = toSubmissionAnswers(
+      {
+        1: { selectedOptionIds: [5] },
+        2: { answerText: "  Mars  ", numberText: "" },
+        3: { numberText: "0,3", matches: { 7: 8 } },
+      },
+      quiz,
+    );
+
+    expect(submission).toEqual([
+      {
+        question_id: 1,
+        selected_option_ids: [5],
+        selected_answer_bool: null,
+        answer_text: null,
+        answer_number: null,
+        ordered_option_ids: null,
+        matches: null,
+      },
+      {
+        question_id: 2,
+        selected_option_ids: null,
+        selected_answer_bool: null,
+        answer_text: "Mars",
+        answer_number: null,
+        ordered_option_ids: null,
+        matches: null,
+      },
+      {
+        question_id: 3,
+        selected_option_ids: null,
+        selected_answer_bool: null,
+        answer_text: null,
+        answer_number: 0.3,
+        ordered_option_ids: null,
+        matches: [{ prompt_id: 7, choice_id: 8 }],
+      },
+      {
+        question_id: 4,
+        selected_option_ids: null,
+        selected_answer_bool: null,
+        answer_text: null,
+        answer_number: null,
+        ordered_option_ids: null,
+        matches: null,
+      },
+    ]);
+  });
+
+  it("keeps a False answer", () => {
+    const [answer] = toSubmissionAnswers(
+      { 1: { selectedAnswerBool: false } },
+      quizWith([question(1, { question_type: "TRUE_FALSE" })]),
+    );
+    expect(answer.selected_answer_bool).toBe(false);
+  });
+});
+
+describe("fromSubmissionAnswers", () => {
+  it("round-trips the answers and drops unanswered entries", () => {
+    const quiz = quizWith([question(1), question(2), question(3), question(4)]);
+    const answers = {
+      1: { selectedOptionIds: [5, 6] },
+      2: { selectedAnswerBool: true },
+      3: { orderedOptionIds: [9, 8] },
+    };
+    const restored = fromSubmissionAnswers(toSubmissionAnswers(answers, quiz));
+
+    expect(Object.keys(restored)).toEqual(["1", "2", "3"]);
+    expect(restored[1].selectedOptionIds).toEqual([5, 6]);
+    expect(restored[2].selectedAnswerBool).toBe(true);
+    expect(restored[3].orderedOptionIds).toEqual([9, 8]);
+    expect(countAnswered(restored)).toBe(3);
+  });
+});
+
+describe("countAnswered", () => {
+  it("skips entries without an answer", () => {
+    expect(
+      countAnswered({
+        1: { selectedOptionIds: [] },
+        2: { answerText: "x" },
+        3: {},
+      }),
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  MatchingPair,
+  ParticipantAnswerSubmit,
+  QuestionReadOnly,
+  QuizReadOnly,
+} from "@/types/quiz";
+
+/** Answer to a single question; only the fields for its type are set. */
+export interface QuestionAnswer {
+  selectedOptionIds?: number[];
+  selectedAnswerBool?: boolean;
+  answerText?: string; // SHORT_ANSWER
+  numberText?: string; // NUMERIC, as typed (parsed on submission)
+  orderedOptionIds?: number[]; // ORDERING, set once the student arranges the items
+  matches?: Record<number, number>; // MATCHING, prompt ID -> choice ID
+}
+
+/** Answers given so far during an attempt, keyed by question ID. */
+export interface AnswersState {
+  [questionId: number]: QuestionAnswer;
+}
+
+const parseNumber = (text: string | undefined): number | null => {
+  if (!text || !text.trim()) return null;
+  const value = Number(text.trim().replace(",", ".")); // Accept a decimal comma
+  return Number.isFinite(value) ? value : null;
+};
+
+/** Whether the answer counts as answered (an untouched ORDERING question does not). */
+export function isAnswered(ans: QuestionAnswer | undefined): boolean {
+  if (!ans) return false;
+  return (
+    (ans.selectedOptionIds?.length ?? 0) > 0 ||
+    ans.selectedAnswerBool !== undefined ||
+    Boolean(ans.answerText?.trim()) ||
+    parseNumber(ans.numberText) !== null ||
+    (ans.orderedOptionIds?.length ?? 0) > 0 ||
+    Object.keys(ans.matches ?? {}).length > 0
+  );
+}
+
+/**
+ * Order in which ORDERING items are first shown. Alphabetical, so it's the
+ * same on the server and the client and doesn't give away the answer.
+ */
+export function initialOrderIds(question: QuestionReadOnly): number[] {
+  return [...question.answer_options]
+    .sort((a, b) => a.text.localeCompare(b.text))
+    .map((opt) => opt.id);
+}
+
+const unansweredSubmission = (questionId: number): ParticipantAnswerSubmit => ({
+  question_id: questionId,
+  selected_option_ids: null,
+  selected_answer_bool: null,
+  answer_text: null,
+  answer_number: null,
+  ordered_option_ids: null,
+  matches: null,
+});
+
+/**
+ * Converts the form's answer state into the submission payload, adding a
+ * null answer for every question that wasn't touched.
+ */
+export function toSubmissionAnswers(
+  answers: AnswersState,
+  quiz: QuizReadOnly,
+): ParticipantAnswerSubmit[] {
+  const submissionAnswers: ParticipantAnswerSubmit[] = Object.entries(
+    answers,
+  ).map(([qId, ans]) => {
+    const matchesByPrompt: Record<number, number> = ans.matches ?? {};
+    const matches: MatchingPair[] = Object.entries(matchesByPrompt).map(
+      ([promptId, choiceId]) => ({
+        prompt_id: parseInt(promptId, 10),
+        choice_id: choiceId,
+      }),
+    );
+    return {
+      question_id: parseInt(qId, 10),
+      selected_option_ids:
+        ans.selectedOptionIds && ans.selectedOptionIds.length > 0
+          ? ans.selectedOptionIds
+          : null, // Send null if empty
+      selected_answer_bool:
+        ans.selectedAnswerBool !== undefined ? ans.selectedAnswerBool : null, // Send null if not answered
+      answer_text: ans.answerText?.trim() ? ans.answerText.trim() : null,
+      answer_number: parseNumber(ans.numberText),
+      ordered_option_ids:
+        ans.orderedOptionIds && ans.orderedOptionIds.length > 0
+          ? ans.orderedOptionIds
+          : null,
+      matches: matches.length > 0 ? matches : null,
+    };
+  });
+
+  // Ensure all questions have an entry, even if unanswered
+  quiz.questions.forEach((q) => {
+    if (!answers[q.id]) {
+      submissionAnswers.push(unansweredSubmission(q.id));
+    }
+  });
+
+  return submissionAnswers;
+}
+
+/** Rebuilds the form's answer state from submission-shaped answers (e.g. a saved draft). */
+export function fromSubmissionAnswers(
+  answers: ParticipantAnswerSubmit[],
+): AnswersState {
+  const state: AnswersState = {};
+  answers.forEach((ans) => {
+    const answer: QuestionAnswer = {
+      selectedOptionIds: ans.selected_option_ids ?? [],
+      selectedAnswerBool:
+        typeof ans.selected_answer_bool === "boolean"
+          ? ans.selected_answer_bool
+          : undefined,
+      answerText: ans.answer_text ?? undefined,
+      numberText:
+        typeof ans.answer_number === "number"
+          ? String(ans.answer_number)
+          : undefined,
+      orderedOptionIds: ans.ordered_option_ids ?? undefined,
+      matches: ans.matches
+        ? Object.fromEntries(
+            ans.matches.map((pair) => [pair.prompt_id, pair.choice_id]),
+          )
+        : undefined,
+    };
+    if (!isAnswered(answer)) return; // Unanswered
+    state[ans.question_id] = answer;
+  });
+  return state;
+}
+
+/** Number of questions that have an answer in the given state. */
+export function countAnswered(answers: AnswersState): number {
+  return Object.values(answers).filter(isAnswered).length;
+}
@@ -0,0 +1,107 @@
+import { isApiError } from "@/lib/api";
+import { createApiClient } from "@/lib/apiClient";
+import { AttemptDraft } from "@/types/quiz";
+
+// Autosave storage for in-progress quiz attempts.
+// Drafts are always written to localStorage first, then to the backend draft
+// endpoint (/quizzes/{id}/draft/) so they can be resumed on another device.
+
+const storageKey = (quizId: number) => `quiz-attempt-draft-${quizId}`;
+
+// Set once the backend tells us it has no draft endpoint, so we stop calling it
+let backendDraftsUnavailable = false;
+
+const isEndpointMissing = (error: unknown) =>
+  isApiError(error) && (error.status === 404 || error.status === 405);
+
+export function loadLocalDraft(quizId: number): AttemptDraft | null {
+  try {
+    const stored = window.localStorage.getItem(storageKey(quizId));
+    return stored ? (JSON.parse(stored) as AttemptDraft) : null;
+  } catch (e) {
+    console.warn("Could not read local attempt draft:", e);
+    return null;
+  }
+}
+
+export function saveLocalDraft(draft: AttemptDraft): void {
+  try {
+    window.localStorage.setItem(
+      storageKey(draft.quiz_id),
+      JSON.stringify(draft),
+    );
+  } catch (e) {
+    console.warn("Could not save local attempt draft:", e);
+  }
+}
+
+export function clearLocalDraft(quizId: number): void {
+  try {
+    window.localStorage.removeItem(storageKey(quizId));
+  } catch (e) {
+    console.warn("Could not clear local attempt draft:", e);
+  }
+}
+
+export async function loadBackendDraft(
+  quizId: number,
+  accessToken: string,
+): Promise<AttemptDraft | null> {
+  if (backendDraftsUnavailable) return null;
+  try {
+    return await createApiClient(accessToken).drafts.get(quizId);
+  } catch (error) {
+    // A 404 here means either "no draft yet" or "no draft endpoint"; both mean nothing to resume
+    if (!isEndpointMissing(error)) {
+      console.warn("Could not load attempt draft from backend:", error);
+    }
+    return null;
+  }
+}
+
+export async function saveBackendDraft(
+  draft: AttemptDraft,
+  accessToken: string,
+): Promise<void> {
+  if (backendDraftsUnavailable) return;
+  try {
+    await createApiClient(accessToken).drafts.save(draft);
+  } catch (error) {
+    if (isEndpointMissing(error)) {
+      console.info(
+        "Backend draft endpoint not available; saving locally only.",
+      );
+      backendDraftsUnavailable = true;
+      return;
+    }
+    console.warn("Could not save attempt draft to backend:", error);
+  }
+}
+
+export async function clearBackendDraft(
+  quizId: number,
+  accessToken: string,
+): Promise<void> {
+  if (backendDraftsUnavailable) return;
+  try {
+    await createApiClient(accessToken).drafts.delete(quizId);
+  } catch (error) {
+    if (!isEndpointMissing(error)) {
+      console.warn("Could not clear attempt draft on backend:", error);
+    }
+  }
+}
+
+/** Picks the most recently saved of the given drafts. */
+export function newestDraft(
+  ...drafts: (AttemptDraft | null)[]
+): AttemptDraft | null {
+  return drafts.reduce<AttemptDraft | null>((newest, draft) => {
+    if (!draft) return newest;
+    if (!newest) return draft;
+    return new Date(draft.updated_at).getTime() >
+      new Date(newest.updated_at).getTime()
+      ? draft
+      : newest;
+  }, null);
+}
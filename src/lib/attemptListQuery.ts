@@ -0,0 +1,156 @@
+import { QuizAttemptResult } from "@/types/quiz";
+import { AttemptListParams } from "@/lib/apiClient";
+import { toCsv } from "@/lib/csv";
+import {
+  DEFAULT_PAGE_SIZE,
+  SearchParams,
+  buildListHref,
+  parsePaging,
+  readSearchParam,
+} from "@/lib/pagination";
+
+// URL-driven query state for the attempts list page and its CSV export.
+
+/** Sort keys use the backend's `ordering` syntax ("-" for descending). */
+export const ATTEMPT_SORT_OPTIONS = [
+  { value: "-submission_time", label: "Newest first" },
+  { value: "submission_time", label: "Oldest first" },
+  { value: "-score", label: "Highest score" },
+  { value: "score", label: "Lowest score" },
+] as const;
+
+export type AttemptSortKey = (typeof ATTEMPT_SORT_OPTIONS)[number]["value"];
+
+export interface AttemptListQuery {
+  quiz: string; // Matches the quiz title
+  student: string; // Matches the student's username or email
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  sort: AttemptSortKey;
+  page: number;
+  limit: number;
+}
+
+const DEFAULT_QUERY: Omit<
+  AttemptListQuery,
+  "quiz" | "student" | "from" | "to"
+> = {
+  sort: "-submission_time",
+  page: 1,
+  limit: DEFAULT_PAGE_SIZE,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDateParam = (params: SearchParams, key: string) => {
+  const value = readSearchParam(params, key);
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+    ? value
+    : "";
+};
+
+export function parseAttemptListQuery(params: SearchParams): AttemptListQuery {
+  const sort = readSearchParam(params, "sort");
+  return {
+    quiz: readSearchParam(params, "quiz"),
+    student: readSearchParam(params, "student"),
+    from: readDateParam(params, "from"),
+    to: readDateParam(params, "to"),
+    sort: ATTEMPT_SORT_OPTIONS.some((o) => o.value === sort)
+      ? (sort as AttemptSortKey)
+      : DEFAULT_QUERY.sort,
+    ...parsePaging(params),
+  };
+}
+
+/** Builds a URL under `path` for the query, with any fields overridden. */
+export function attemptListHref(
+  query: AttemptListQuery,
+  overrides: Partial<AttemptListQuery> = {},
+  path = "/attempts",
+): string {
+  return buildListHref(path, { ...query, ...overrides }, DEFAULT_QUERY);
+}
+
+/** Query parameters for GET /attempts/. */
+export function toAttemptListParams(
+  query: AttemptListQuery,
+): AttemptListParams {
+  return {
+    quiz_title: query.quiz || undefined,
+    student: query.student || undefined,
+    submitted_after: query.from || undefined,
+    submitted_before: query.to || undefined,
+    ordering: query.sort,
+    page: query.page,
+    limit: query.limit,
+  };
+}
+
+// Date-only bounds are interpreted as whole days in the server's time zone
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+/**
+ * Client-side filtering and sorting, used when the backend returns the
+ * full unpaginated list.
+ */
+export function filterAndSortAttempts(
+  attempts: QuizAttemptResult[],
+  query: AttemptListQuery,
+): QuizAttemptResult[] {
+  const quiz = query.quiz.toLowerCase();
+  const student = query.student.toLowerCase();
+  const from = query.from ? startOfDay(query.from) : null;
+  const to = query.to ? startOfDay(query.to) + 24 * 60 * 60 * 1000 : null;
+
+  const filtered = attempts.filter((attempt) => {
+    const submittedAt = new Date(attempt.submission_time).getTime();
+    return (
+      (!quiz || attempt.quiz.title.toLowerCase().includes(quiz)) &&
+      (!student ||
+        attempt.user.username.toLowerCase().includes(student) ||
+        attempt.user.email.toLowerCase().includes(student)) &&
+      (from === null || submittedAt >= from) &&
+      (to === null || submittedAt < to)
+    );
+  });
+
+  const descending = query.sort.startsWith("-");
+  const field = query.sort.replace(/^-/, "");
+  return [...filtered].sort((a, b) => {
+    const result =
+      field === "score"
+        ? a.score - b.score
+        : new Date(a.submission_time).getTime() -
+          new Date(b.submission_time).getTime();
+    return descending ? -result : result;
+  });
+}
+
+export const ATTEMPT_CSV_COLUMNS = [
+  "quiz_title",
+  "student_username",
+  "student_email",
+  "score",
+  "submission_time",
+  "rank",
+] as const;
+
+// Spreadsheets evaluate cells starting with these as formulas
+const neutraliseFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/** Serialises attempts for pasting into a gradebook. */
+export function exportAttemptsToCsv(attempts: QuizAttemptResult[]): string {
+  return toCsv([
+    [...ATTEMPT_CSV_COLUMNS],
+    ...attempts.map((attempt) => [
+      neutraliseFormula(attempt.quiz.title),
+      neutraliseFormula(attempt.user.username),
+      neutraliseFormula(attempt.user.email),
+      String(attempt.score),
+      attempt.submission_time,
+      attempt.rank === null ? "" : String(attempt.rank),
+    ]),
+  ]);
+}
@@ -0,0 +1,52 @@
+import { QuestionLayout, QuestionReadOnly } from "@/types/quiz";
+import { AnswersState, isAnswered } from "@/lib/attemptAnswers";
+
+// How an attempt is laid out, and the per-question status shown by the
+// navigator and the review screen.
+
+export const DEFAULT_QUESTION_LAYOUT: QuestionLayout = "ALL_AT_ONCE";
+
+export const QUESTION_LAYOUT_OPTIONS: {
+  value: QuestionLayout;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "ALL_AT_ONCE",
+    label: "All questions on one page",
+    description: "Students scroll through every question on a single page.",
+  },
+  {
+    value: "ONE_AT_A_TIME",
+    label: "One question at a time",
+    description:
+      "Students move between questions with next/previous buttons or a question grid, can flag questions for review, and see a review screen before submitting.",
+  },
+];
+
+export const describeQuestionLayout = (layout: QuestionLayout | undefined) =>
+  QUESTION_LAYOUT_OPTIONS.find((o) => o.value === layout) ??
+  QUESTION_LAYOUT_OPTIONS[0];
+
+export type QuestionStatus = "answered" | "unanswered";
+
+export interface QuestionProgress {
+  question: QuestionReadOnly;
+  index: number; // Position in the attempt's order
+  status: QuestionStatus;
+  flagged: boolean;
+}
+
+/** Status of every question, in the order the attempt shows them. */
+export function getQuestionProgress(
+  questions: QuestionReadOnly[],
+  answers: AnswersState,
+  flaggedIds: number[],
+): QuestionProgress[] {
+  return questions.map((question, index) => ({
+    question,
+    index,
+    status: isAnswered(answers[question.id]) ? "answered" : "unanswered",
+    flagged: flaggedIds.includes(question.id),
+  }));
+}
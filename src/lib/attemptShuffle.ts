@@ -0,0 +1,124 @@
+import { QuestionReadOnly, QuizReadOnly } from "@/types/quiz";
+
+// Per-attempt shuffling of questions and answer options.
+// The shuffle is driven by a seed drawn when the attempt starts and kept in
+// localStorage (and in the autosaved draft), so reloading or resuming the
+// same attempt shows the same order. Submissions and results are keyed by
+// ID, so the shuffle never affects grading.
+
+const storageKey = (quizId: number) => `quiz-attempt-seed-${quizId}`;
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+/**
+ * Returns the shuffle seed of the current attempt at this quiz, drawing a
+ * new one if no attempt is in progress.
+ */
+export function getAttemptSeed(quizId: number): number {
+  try {
+    const stored = window.localStorage.getItem(storageKey(quizId));
+    const parsed = stored ? parseInt(stored, 10) : NaN;
+    if (!Number.isNaN(parsed)) return parsed;
+    const seed = randomSeed();
+    window.localStorage.setItem(storageKey(quizId), String(seed));
+    return seed;
+  } catch (e) {
+    // Storage may be unavailable (e.g. private mode); the order then lasts until reload
+    console.warn("Could not persist attempt shuffle seed:", e);
+    return randomSeed();
+  }
+}
+
+/** Adopts the seed of a resumed draft, so the order matches the device it was started on. */
+export function setAttemptSeed(quizId: number, seed: number): void {
+  try {
+    window.localStorage.setItem(storageKey(quizId), String(seed));
+  } catch (e) {
+    console.warn("Could not persist attempt shuffle seed:", e);
+  }
+}
+
+/** Forgets the seed once the attempt has been submitted. */
+export function clearAttemptSeed(quizId: number): void {
+  try {
+    window.localStorage.removeItem(storageKey(quizId));
+  } catch (e) {
+    console.warn("Could not clear attempt shuffle seed:", e);
+  }
+}
+
+// mulberry32: a small, fast PRNG that is good enough for ordering questions
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher-Yates shuffle of a copy of `items`; the same seed always gives the same order. */
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Each question's options get their own seed, so questions with the same
+// number of options aren't all shuffled the same way
+const questionSeed = (seed: number, questionId: number) =>
+  (seed ^ Math.imul(questionId, 0x9e3779b1)) >>> 0;
+
+/** Shuffles the answer options (or MATCHING choices) of one question. */
+function shuffleOptions(
+  question: QuestionReadOnly,
+  seed: number,
+): QuestionReadOnly {
+  const optionSeed = questionSeed(seed, question.id);
+  return {
+    ...question,
+    answer_options: seededShuffle(question.answer_options, optionSeed),
+    match_choices:
+      question.match_choices &&
+      seededShuffle(question.match_choices, optionSeed),
+  };
+}
+
+/**
+ * The questions of a quiz in the order this attempt shows them, following
+ * the quiz's shuffle_questions / shuffle_options settings.
+ */
+export function getAttemptQuestions(
+  quiz: QuizReadOnly,
+  seed: number,
+): QuestionReadOnly[] {
+  const questions = quiz.shuffle_questions
+    ? seededShuffle(quiz.questions, seed)
+    : quiz.questions;
+  return quiz.shuffle_options
+    ? questions.map((question) => shuffleOptions(question, seed))
+    : questions;
+}
+
+/**
+ * Sorts items (e.g. an attempt's answers) into the quiz's own question order.
+ * Questions missing from `questions` (such as ones drawn from a random pool)
+ * keep their relative order at the end.
+ */
+export function inQuizOrder<T>(
+  items: T[],
+  questions: QuestionReadOnly[],
+  getQuestionId: (item: T) => number,
+): T[] {
+  const position = new Map(questions.map((q, index) => [q.id, index]));
+  const rank = (item: T) =>
+    position.get(getQuestionId(item)) ?? Number.MAX_SAFE_INTEGER;
+  // Array.prototype.sort is stable, so ties keep their original order
+  return [...items].sort((a, b) => rank(a) - rank(b));
+}
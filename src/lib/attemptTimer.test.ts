@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  getAttemptStartTime,
+  hasAttemptExpired,
+  resumeAttemptStartTime,
+  setAttemptStartTime,
+} from "./attemptTimer";
+
+const quiz = { id: 7, timing_minutes: 10, available_to: null };
+const minutes = (n: number) => n * 60 * 1000;
+const now = Date.now();
+
+afterEach(() => window.localStorage.clear());
+
+describe("getAttemptStartTime", () => {
+  it("doesn't start an attempt just by reading", () => {
+    expect(getAttemptStartTime(quiz.id)).toBeNull();
+    expect(getAttemptStartTime(quiz.id)).toBeNull();
+  });
+});
+
+describe("resumeAttemptStartTime", () => {
+  it("starts the clock when a new attempt is opened", () => {
+    expect(resumeAttemptStartTime(quiz.id, null, now)).toBe(now);
+    expect(getAttemptStartTime(quiz.id)).toBe(now);
+  });
+
+  it("keeps a clock that is still running", () => {
+    setAttemptStartTime(quiz.id, now - minutes(3));
+    expect(resumeAttemptStartTime(quiz.id, null, now)).toBe(now - minutes(3));
+  });
+
+  it("keeps a start whose deadline has passed", () => {
+    setAttemptStartTime(quiz.id, now - minutes(30));
+    expect(resumeAttemptStartTime(quiz.id, null, now)).toBe(now - minutes(30));
+    expect(getAttemptStartTime(quiz.id)).toBe(now - minutes(30));
+  });
+
+  it("takes an earlier start from a resumed draft", () => {
+    setAttemptStartTime(quiz.id, now - minutes(1));
+    expect(resumeAttemptStartTime(quiz.id, now - minutes(4), now)).toBe(
+      now - minutes(4),
+    );
+    expect(getAttemptStartTime(quiz.id)).toBe(now - minutes(4));
+  });
+
+  it("brings back an expired start from an old draft", () => {
+    expect(resumeAttemptStartTime(quiz.id, now - minutes(60), now)).toBe(
+      now - minutes(60),
+    );
+    expect(getAttemptStartTime(quiz.id)).toBe(now - minutes(60));
+  });
+});
+
+describe("hasAttemptExpired", () => {
+  it("compares the deadline with the current time", () => {
+    expect(hasAttemptExpired(quiz, now - minutes(3), now)).toBe(false);
+    expect(hasAttemptExpired(quiz, now - minutes(10), now)).toBe(true);
+  });
+
+  it("counts the quiz closing as the deadline", () => {
+    expect(
+      hasAttemptExpired(
+        { ...quiz, available_to: new Date(now - 1000).toISOString() },
+        now - minutes(1),
+        now,
+      ),
+    ).toBe(true);
+  });
+});
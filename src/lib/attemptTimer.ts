@@ -0,0 +1,92 @@
+import { QuizReadOnly } from "@/types/quiz";
+
+// Helpers for timing quiz attempts on the client.
+// The start time is kept in localStorage so the countdown survives a page reload.
+// The clock starts when the attempt is opened, and keeps running while the
+// student is away; it is only cleared once the attempt has been submitted.
+
+const storageKey = (quizId: number) => `quiz-attempt-start-${quizId}`;
+
+/**
+ * Returns when the current attempt at this quiz started (ms since epoch),
+ * or null if no attempt has been started.
+ */
+export function getAttemptStartTime(quizId: number): number | null {
+  try {
+    const stored = window.localStorage.getItem(storageKey(quizId));
+    const parsed = stored ? parseInt(stored, 10) : NaN;
+    return !Number.isNaN(parsed) && parsed <= Date.now() ? parsed : null;
+  } catch (e) {
+    // Storage may be unavailable (e.g. private mode); the form keeps an in-memory start
+    console.warn("Could not read attempt start time:", e);
+    return null;
+  }
+}
+
+/** Forgets the start time once the attempt has been submitted. */
+export function clearAttemptStartTime(quizId: number): void {
+  try {
+    window.localStorage.removeItem(storageKey(quizId));
+  } catch (e) {
+    console.warn("Could not clear attempt start time:", e);
+  }
+}
+
+/**
+ * Computes when the attempt must be submitted: after timing_minutes, or when
+ * the quiz closes at available_to, whichever comes first.
+ */
+export function getAttemptDeadline(
+  startedAt: number,
+  timingMinutes: number,
+  availableTo: string | null,
+): number {
+  const timedDeadline = startedAt + timingMinutes * 60 * 1000;
+  const closesAt = availableTo ? new Date(availableTo).getTime() : NaN;
+  return Number.isNaN(closesAt)
+    ? timedDeadline
+    : Math.min(timedDeadline, closesAt);
+}
+
+/**
+ * Records an earlier start time, e.g. when resuming an attempt begun on
+ * another device, so switching devices doesn't reset the countdown.
+ */
+export function setAttemptStartTime(quizId: number, startedAt: number): void {
+  try {
+    window.localStorage.setItem(storageKey(quizId), String(startedAt));
+  } catch (e) {
+    console.warn("Could not persist attempt start time:", e);
+  }
+}
+
+/** Whether the attempt's deadline has passed, so it can only be submitted. */
+export function hasAttemptExpired(
+  quiz: Pick<QuizReadOnly, "timing_minutes" | "available_to">,
+  startedAt: number,
+  now: number = Date.now(),
+): boolean {
+  return (
+    getAttemptDeadline(startedAt, quiz.timing_minutes, quiz.available_to) <= now
+  );
+}
+
+/**
+ * Picks up the attempt in progress when the quiz is opened: the earlier of
+ * the stored start and a resumed draft's start, or now if the attempt is new.
+ * The start is kept even once its deadline has passed; the form then submits
+ * the saved answers instead of restarting the clock.
+ */
+export function resumeAttemptStartTime(
+  quizId: number,
+  draftStart: number | null = null,
+  now: number = Date.now(),
+): number {
+  const stored = getAttemptStartTime(quizId);
+  const starts = [stored, draftStart].filter(
+    (start): start is number => start !== null && start <= now,
+  );
+  const startedAt = starts.length > 0 ? Math.min(...starts) : now;
+  if (startedAt !== stored) setAttemptStartTime(quizId, startedAt);
+  return startedAt;
+}
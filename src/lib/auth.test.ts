@@ -0,0 +1,290 @@
+import axios from "axios";
+import { Account, User as NextAuthUser } from "next-auth";
+import { JWT } from "next-auth/jwt";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  // Read when the module loads
+  process.env.BACKEND_API_URL = "http://backend.test";
+});
+
+// Backend calls are mocked; axios.isAxiosError keeps its real behaviour
+vi.mock("axios", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("axios")>();
+  return {
+    default: { ...actual.default, post: vi.fn(), get: vi.fn() },
+  };
+});
+
+import { authOptions } from "./auth";
+
+const post = vi.mocked(axios.post);
+const get = vi.mocked(axios.get);
+
+type Callbacks = Required<NonNullable<typeof authOptions.callbacks>>;
+type JwtParams = Parameters<Callbacks["jwt"]>[0];
+type SessionParams = Parameters<Callbacks["session"]>[0];
+
+const jwt = (params: Partial<JwtParams>) =>
+  authOptions.callbacks!.jwt!({ token: {}, ...params } as JwtParams);
+
+const backendUser = {
+  id: 4,
+  username: "student",
+  email: "student@example.com",
+  role: "STUDENT",
+  is_marked: false,
+};
+
+/** An unsigned JWT with the given expiry (seconds since epoch). */
+const jwtExpiringAt = (exp: number) =>
+  [
+    "header",
+    Buffer.from(JSON.stringify({ exp })).toString("base64url"),
+    "",
+  ].join(".");
+
+const credentialsProvider = authOptions.providers.find(
+  (provider) => provider.id === "credentials",
+)!;
+// NextAuth keeps the user-supplied `authorize` under `options`
+const authorize = (
+  credentialsProvider as unknown as {
+    options: {
+      authorize: (credentials: Record<string, string>) => Promise<unknown>;
+    };
+  }
+).options.authorize;
+
+beforeEach(() => {
+  post.mockReset();
+  get.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("credentials sign-in", () => {
+  it("exchanges the username and password for backend tokens and the user", async () => {
+    post.mockResolvedValueOnce({
+      data: { access: "access-1", refresh: "refresh-1", expires_in: 300 },
+    });
+    get.mockResolvedValueOnce({ data: backendUser });
+
+    const user = await authorize({ username: "student", password: "password" });
+
+    expect(post).toHaveBeenCalledWith("http://backend.test/auth/token/", {
+      username: "student",
+      password: "password",
+    });
+    expect(get).toHaveBeenCalledWith("http://backend.test/auth/user/", {
+      headers: { Authorization: "Bearer access-1" },
+    });
+    expect(user).toMatchObject({
+      id: "4",
+      name: "student",
+      backendLogin: {
+        accessToken: "access-1",
+        refreshToken: "refresh-1",
+        user: backendUser,
+      },
+    });
+  });
+
+  it("returns null when the backend rejects the credentials", async () => {
+    post.mockRejectedValueOnce(
+      new axios.AxiosError("Unauthorized", "ERR_BAD_REQUEST", undefined, null, {
+        status: 401,
+      } as never),
+    );
+    await expect(
+      authorize({ username: "student", password: "wrong" }),
+    ).resolves.toBeNull();
+  });
+
+  it("reports other backend failures as BackendLoginFailed", async () => {
+    post.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+    await expect(
+      authorize({ username: "student", password: "password" }),
+    ).rejects.toThrow("BackendLoginFailed");
+  });
+});
+
+describe("jwt callback", () => {
+  it("stores the credentials login handed over by authorize", async () => {
+    const backendLogin = {
+      accessToken: "access-1",
+      refreshToken: "refresh-1",
+      accessTokenExpires: Date.now() + 60_000,
+      user: backendUser,
+    };
+    const token = await jwt({
+      user: { id: "4", backendLogin } as NextAuthUser,
+      account: {
+        provider: "credentials",
+        type: "credentials",
+        providerAccountId: "4",
+      },
+    });
+    expect(token).toMatchObject({ ...backendLogin, error: undefined });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("exchanges Google tokens and takes the expiry from the access token", async () => {
+    const exp = Math.floor(Date.now() / 1000) + 15 * 60;
+    const access = jwtExpiringAt(exp);
+    post.mockResolvedValueOnce({
+      data: {
+        access_token: access,
+        refresh_token: "refresh-1",
+        user: backendUser,
+      },
+    });
+
+    const token = await jwt({
+      user: { id: "google-user" },
+      account: {
+        provider: "google",
+        type: "oauth",
+        providerAccountId: "google-user",
+        access_token: "google-access",
+        id_token: "google-id",
+      } as Account,
+    });
+
+    expect(post).toHaveBeenCalledWith(
+      "http://backend.test/auth/google/callback/",
+      { access_token: "google-access", id_token: "google-id" },
+    );
+    expect(token).toMatchObject({
+      accessToken: access,
+      refreshToken: "refresh-1",
+      user: backendUser,
+    });
+    // Treated as expired 30 seconds early
+    expect(token.accessTokenExpires).toBe(exp * 1000 - 30_000);
+  });
+
+  it("records BackendLoginFailed when the social login exchange fails", async () => {
+    post.mockRejectedValueOnce(new Error("Network Error"));
+    const token = await jwt({
+      user: { id: "google-user" },
+      account: {
+        provider: "google",
+        type: "oauth",
+        providerAccountId: "google-user",
+      },
+    });
+    expect(token.error).toBe("BackendLoginFailed");
+    expect(token).not.toHaveProperty("accessToken");
+    expect(token).not.toHaveProperty("user");
+  });
+
+  it("passes a token that hasn't expired through unchanged", async () => {
+    const current = {
+      accessToken: "access-1",
+      refreshToken: "refresh-1",
+      accessTokenExpires: Date.now() + 60_000,
+    };
+    await expect(jwt({ token: current })).resolves.toEqual(current);
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("refreshes an expired token, keeping a rotated refresh token", async () => {
+    post.mockResolvedValueOnce({
+      data: { access: "access-2", refresh: "refresh-2", expires_in: 300 },
+    });
+    const token = await jwt({
+      token: {
+        accessToken: "access-1",
+        refreshToken: "refresh-rotating",
+        accessTokenExpires: Date.now() - 1000,
+        error: "RefreshAccessTokenError",
+      },
+    });
+    expect(post).toHaveBeenCalledWith(
+      "http://backend.test/auth/token/refresh/",
+      { refresh: "refresh-rotating" },
+    );
+    expect(token).toMatchObject({
+      accessToken: "access-2",
+      refreshToken: "refresh-2",
+      error: undefined,
+    });
+    expect(token.accessTokenExpires).toBeGreaterThan(Date.now());
+  });
+
+  it("shares one refresh between concurrent requests with the same refresh token", async () => {
+    post.mockResolvedValueOnce({
+      data: { access: "access-2", expires_in: 300 },
+    });
+    const expired = {
+      accessToken: "access-1",
+      refreshToken: "refresh-shared",
+      accessTokenExpires: Date.now() - 1000,
+    };
+    const [first, second] = await Promise.all([
+      jwt({ token: { ...expired } }),
+      jwt({ token: { ...expired } }),
+    ]);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(first.accessToken).toBe("access-2");
+    expect(second.accessToken).toBe("access-2");
+    // Not rotated, so the old refresh token stays
+    expect(first.refreshToken).toBe("refresh-shared");
+  });
+
+  it("clears the tokens when the refresh is rejected", async () => {
+    post.mockRejectedValueOnce(new Error("Token is invalid or expired"));
+    const token = await jwt({
+      token: {
+        accessToken: "access-1",
+        refreshToken: "refresh-revoked",
+        accessTokenExpires: Date.now() - 1000,
+      },
+    });
+    expect(token).toMatchObject({
+      error: "RefreshAccessTokenError",
+      accessToken: undefined,
+      refreshToken: undefined,
+      accessTokenExpires: 0,
+    });
+  });
+
+  it("reports MissingRefreshTokenError when an expired token can't be refreshed", async () => {
+    const token = await jwt({
+      token: {
+        accessToken: "access-1",
+        accessTokenExpires: Date.now() - 1000,
+        user: backendUser,
+      },
+    });
+    expect(token.error).toBe("MissingRefreshTokenError");
+    expect(token).not.toHaveProperty("accessToken");
+    expect(token).not.toHaveProperty("user");
+    expect(post).not.toHaveBeenCalled();
+  });
+});
+
+describe("session callback", () => {
+  it("exposes the backend tokens, user and error", async () => {
+    const token: JWT = {
+      accessToken: "access-1",
+      refreshToken: "refresh-1",
+      accessTokenExpires: 1234,
+      user: backendUser,
+      error: "RefreshAccessTokenError",
+    };
+    const session = await authOptions.callbacks!.session!({
+      session: { expires: "2030-01-01T00:00:00.000Z" },
+      token,
+    } as SessionParams);
+    expect(session).toEqual({
+      expires: "2030-01-01T00:00:00.000Z",
+      accessToken: "access-1",
+      refreshToken: "refresh-1",
+      accessTokenExpires: 1234,
+      user: backendUser,
+      error: "RefreshAccessTokenError",
+    });
+  });
+});
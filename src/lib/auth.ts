@@ -1,5 +1,14 @@
-import { NextAuthOptions, User as NextAuthUser, Session } from "next-auth";
+import {
+  Account,
+  NextAuthOptions,
+  User as NextAuthUser,
+  Session,
+} from "next-auth";
 import { JWT } from "next-auth/jwt";
+import { Provider } from "next-auth/providers/index";
+import AzureADProvider from "next-auth/providers/azure-ad";
+import CredentialsProvider from "next-auth/providers/credentials";
+import GitHubProvider from "next-auth/providers/github";
 import GoogleProvider from "next-auth/providers/google";
 import axios from "axios"; // Using axios for backend API calls
 
@@ -29,11 +38,262 @@ interface CustomJWT extends JWT {
 }
 
 const BACKEND_API_URL = process.env.BACKEND_API_URL;
+// OAuth providers are optional; each is enabled when its variables are set.
+// Username/password sign-in (the credentials provider) is always available.
 const GOOGLE_ID = process.env.GOOGLE_CLIENT_ID;
 const GOOGLE_SECRET = process.env.GOOGLE_CLIENT_SECRET;
+const AZURE_AD_ID = process.env.AZURE_AD_CLIENT_ID;
+const AZURE_AD_SECRET = process.env.AZURE_AD_CLIENT_SECRET;
+const AZURE_AD_TENANT_ID = process.env.AZURE_AD_TENANT_ID;
+const GITHUB_ID = process.env.GITHUB_CLIENT_ID;
+const GITHUB_SECRET = process.env.GITHUB_CLIENT_SECRET;
+// Role-picker login against the mock backend (src/mock-backend); never in production
+const DEV_LOGIN_ENABLED =
+  process.env.DEV_LOGIN === "true" && process.env.NODE_ENV !== "production";
 
-if (!BACKEND_API_URL || !GOOGLE_ID || !GOOGLE_SECRET) {
-  throw new Error("Missing environment variables for API URL or Google OAuth");
+if (!BACKEND_API_URL) {
+  throw new Error("Missing environment variable BACKEND_API_URL");
+}
+
+// Access tokens are treated as expired this long before they really are, so a
+// token never runs out between the check here and the backend receiving it
+const EXPIRY_MARGIN_MS = 30 * 1000;
+// Used only when the backend gives no lifetime at all (no `exp` claim, no `expires_in`)
+const FALLBACK_TOKEN_LIFETIME_MS = 5 * 60 * 1000;
+
+/** Reads the `exp` claim (seconds since epoch) of a JWT without verifying it. */
+function readJwtExpiry(jwt: string): number | null {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(jwt.split(".")[1], "base64url").toString("utf8"),
+    );
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null; // Not a JWT (e.g. an opaque token)
+  }
+}
+
+/**
+ * When to treat an access token as expired: its `exp` claim, else the
+ * response's `expires_in` (seconds), else a fallback lifetime, minus a
+ * safety margin (capped at half the lifetime for very short-lived tokens).
+ */
+function getAccessTokenExpiry(
+  accessToken: string,
+  expiresIn?: unknown,
+  now: number = Date.now(),
+): number {
+  const expiry =
+    readJwtExpiry(accessToken) ??
+    (typeof expiresIn === "number" && expiresIn > 0
+      ? now + expiresIn * 1000
+      : now + FALLBACK_TOKEN_LIFETIME_MS);
+  const lifetime = Math.max(expiry - now, 0);
+  return expiry - Math.min(EXPIRY_MARGIN_MS, lifetime / 2);
+}
+
+interface RefreshedTokens {
+  accessToken: string;
+  refreshToken?: string; // Only when the backend rotates refresh tokens
+  accessTokenExpires: number;
+}
+
+// Refreshes keyed by the refresh token they use. Parallel server components
+// (and requests arriving just after a refresh, still carrying the old cookie)
+// share one backend call instead of each spending a rotating refresh token.
+// This is per server process; it can't help across multiple instances.
+const refreshesInFlight = new Map<string, Promise<RefreshedTokens>>();
+// How long a completed refresh stays shared, for requests that started with the old cookie
+const RECENT_REFRESH_TTL_MS = 10 * 1000;
+
+async function requestTokenRefresh(
+  refreshToken: string,
+): Promise<RefreshedTokens> {
+  console.log("Attempting to refresh access token...");
+  const response = await axios.post(`${BACKEND_API_URL}/auth/token/refresh/`, {
+    refresh: refreshToken,
+  });
+  const { access, refresh, expires_in } = response.data;
+  console.log("Access token refreshed successfully.");
+  return {
+    accessToken: access,
+    refreshToken: refresh,
+    accessTokenExpires: getAccessTokenExpiry(access, expires_in),
+  };
+}
+
+function sharedTokenRefresh(refreshToken: string): Promise<RefreshedTokens> {
+  const existing = refreshesInFlight.get(refreshToken);
+  if (existing) return existing;
+
+  const refresh = requestTokenRefresh(refreshToken);
+  refreshesInFlight.set(refreshToken, refresh);
+  refresh.then(
+    () =>
+      setTimeout(
+        () => refreshesInFlight.delete(refreshToken),
+        RECENT_REFRESH_TTL_MS,
+      ),
+    () => refreshesInFlight.delete(refreshToken), // Failures aren't shared with later requests
+  );
+  return refresh;
+}
+
+// Backend tokens and user, the same for every provider once signed in
+interface BackendLogin {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpires: number;
+  user: BackendUser;
+}
+
+// What the credentials provider's `authorize` returns: the backend login is
+// done there (it needs the password), then handed to the jwt callback
+interface CredentialsUser extends NextAuthUser {
+  backendLogin: BackendLogin;
+}
+
+// Backend social login endpoint (dj-rest-auth) for each OAuth provider id
+const SOCIAL_LOGIN_PATHS: Record<string, string> = {
+  google: "/auth/google/callback/",
+  "azure-ad": "/auth/microsoft/callback/",
+  github: "/auth/github/callback/",
+};
+
+/** Exchanges an OAuth provider's tokens for backend tokens and the backend user. */
+async function exchangeSocialLogin(account: Account): Promise<BackendLogin> {
+  const path = SOCIAL_LOGIN_PATHS[account.provider];
+  if (!path) {
+    throw new Error(
+      `No backend login endpoint for provider ${account.provider}`,
+    );
+  }
+  // dj-rest-auth accepts the provider's access token and, where there is one, ID token
+  const backendResponse = await axios.post(`${BACKEND_API_URL}${path}`, {
+    access_token: account.access_token,
+    id_token: account.id_token,
+  });
+  const { access_token, refresh_token, expires_in, user } =
+    backendResponse.data;
+  return {
+    accessToken: access_token,
+    refreshToken: refresh_token,
+    accessTokenExpires: getAccessTokenExpiry(access_token, expires_in),
+    user: user as BackendUser,
+  };
+}
+
+/**
+ * Exchanges a username and password at the backend's token endpoint. Returns
+ * null when the backend rejects them (NextAuth reports "CredentialsSignin").
+ */
+async function loginWithCredentials(
+  username: string,
+  password: string,
+): Promise<BackendLogin | null> {
+  let tokens: { access: string; refresh: string; expires_in?: number };
+  try {
+    const response = await axios.post(`${BACKEND_API_URL}/auth/token/`, {
+      username,
+      password,
+    });
+    tokens = response.data;
+  } catch (error) {
+    if (
+      axios.isAxiosError(error) &&
+      [400, 401].includes(error.response?.status ?? 0)
+    ) {
+      return null; // Wrong username or password
+    }
+    throw error;
+  }
+  // The token endpoint only returns tokens; the user comes from /auth/user/
+  const userResponse = await axios.get(`${BACKEND_API_URL}/auth/user/`, {
+    headers: { Authorization: `Bearer ${tokens.access}` },
+  });
+  return {
+    accessToken: tokens.access,
+    refreshToken: tokens.refresh,
+    accessTokenExpires: getAccessTokenExpiry(tokens.access, tokens.expires_in),
+    user: userResponse.data as BackendUser,
+  };
+}
+
+/** Signs in as a seeded user with the given role (mock backend only). */
+async function loginWithDevRole(role: string): Promise<BackendLogin> {
+  const response = await axios.post(`${BACKEND_API_URL}/auth/dev-login/`, {
+    role,
+  });
+  const { access, refresh, expires_in, user } = response.data;
+  return {
+    accessToken: access,
+    refreshToken: refresh,
+    accessTokenExpires: getAccessTokenExpiry(access, expires_in),
+    user: user as BackendUser,
+  };
+}
+
+const toCredentialsUser = (backendLogin: BackendLogin): CredentialsUser => ({
+  id: String(backendLogin.user.id),
+  name: backendLogin.user.username,
+  email: backendLogin.user.email,
+  backendLogin,
+});
+
+const devProviders: Provider[] = DEV_LOGIN_ENABLED
+  ? [
+      CredentialsProvider({
+        id: "dev-login",
+        name: "Development login",
+        credentials: {
+          role: { label: "Role", type: "text" },
+        },
+        async authorize(credentials) {
+          if (!credentials?.role) return null;
+          try {
+            return toCredentialsUser(await loginWithDevRole(credentials.role));
+          } catch (error) {
+            console.error("Dev login error:", error);
+            throw new Error("BackendLoginFailed");
+          }
+        },
+      }),
+    ]
+  : [];
+
+const oauthProviders: Provider[] = [];
+if (GOOGLE_ID && GOOGLE_SECRET) {
+  oauthProviders.push(
+    GoogleProvider({
+      clientId: GOOGLE_ID,
+      clientSecret: GOOGLE_SECRET,
+      // Important: Define the scope to get necessary info like email
+      authorization: {
+        params: {
+          prompt: "consent",
+          access_type: "offline",
+          response_type: "code",
+          scope:
+            "openid email profile https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email",
+        },
+      },
+    }),
+  );
+}
+if (AZURE_AD_ID && AZURE_AD_SECRET) {
+  oauthProviders.push(
+    AzureADProvider({
+      name: "Microsoft",
+      clientId: AZURE_AD_ID,
+      clientSecret: AZURE_AD_SECRET,
+      tenantId: AZURE_AD_TENANT_ID, // Omit to allow any Microsoft account
+    }),
+  );
+}
+if (GITHUB_ID && GITHUB_SECRET) {
+  oauthProviders.push(
+    GitHubProvider({ clientId: GITHUB_ID, clientSecret: GITHUB_SECRET }),
+  );
 }
 
 // Helper function to refresh the access token
@@ -44,28 +304,15 @@ async function refreshAccessToken(token: CustomJWT): Promise<CustomJWT> {
   }
 
   try {
-    console.log("Attempting to refresh access token...");
-    const response = await axios.post(
-      `${BACKEND_API_URL}/auth/token/refresh/`,
-      {
-        refresh: token.refreshToken,
-      },
-    );
-
-    const { access, refresh } = response.data;
-
-    // Calculate expiry time (assuming backend returns access token lifetime, e.g., 5 mins)
-    // You might need to adjust this based on your backend's token expiry configuration
-    const newExpiry = Date.now() + 5 * 60 * 1000; // Example: 5 minutes
-
-    console.log("Access token refreshed successfully.");
+    const { accessToken, refreshToken, accessTokenExpires } =
+      await sharedTokenRefresh(token.refreshToken);
 
     return {
       ...token,
-      accessToken: access,
+      accessToken,
       // Conditionally update refresh token if the backend provides a new one (dj-rest-auth rotating refresh tokens)
-      refreshToken: refresh ?? token.refreshToken,
-      accessTokenExpires: newExpiry,
+      refreshToken: refreshToken ?? token.refreshToken,
+      accessTokenExpires,
       error: undefined, // Clear previous errors
     };
   } catch (error) {
@@ -84,20 +331,31 @@ async function refreshAccessToken(token: CustomJWT): Promise<CustomJWT> {
 
 export const authOptions: NextAuthOptions = {
   providers: [
-    GoogleProvider({
-      clientId: GOOGLE_ID,
-      clientSecret: GOOGLE_SECRET,
-      // Important: Define the scope to get necessary info like email
-      authorization: {
-        params: {
-          prompt: "consent",
-          access_type: "offline",
-          response_type: "code",
-          scope:
-            "openid email profile https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email",
-        },
+    CredentialsProvider({
+      name: "Username and password",
+      credentials: {
+        username: { label: "Username", type: "text" },
+        password: { label: "Password", type: "password" },
+      },
+      async authorize(credentials) {
+        if (!credentials?.username || !credentials.password) return null;
+        let backendLogin: BackendLogin | null;
+        try {
+          backendLogin = await loginWithCredentials(
+            credentials.username,
+            credentials.password,
+          );
+        } catch (error) {
+          console.error("Backend credentials login error:", error);
+          // NextAuth passes the message on as the `error` query parameter
+          throw new Error("BackendLoginFailed");
+        }
+        if (!backendLogin) return null; // Reported as "CredentialsSignin"
+        return toCredentialsUser(backendLogin);
       },
     }),
+    ...devProviders,
+    ...oauthProviders,
   ],
   session: {
     strategy: "jwt",
@@ -106,64 +364,48 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     /**
      * This JWT callback is executed first.
-     * It handles the interaction with your backend's social login endpoint
-     * and manages the lifecycle of the backend's JWTs (access and refresh tokens).
+     * It stores the backend login (whatever the provider, the same tokens and
+     * user shape) and manages the lifecycle of the backend's JWTs (access and refresh tokens).
      */
     async jwt({ token, user, account, profile }): Promise<CustomJWT> {
       let customToken = token as CustomJWT;
 
       // Initial sign-in: 'account' and 'profile'/'user' are available.
       if (account && user) {
-        console.log("Initial sign-in: Exchanging Google token with backend...");
-        if (account.provider === "google") {
-          try {
-            // Send the authorization code (or id_token depending on backend) to your backend
-            // dj-rest-auth typically uses an access_token or id_token from Google
-            // Adjust the payload based on your backend's /api/auth/google/callback/ expectation
-            const backendResponse = await axios.post(
-              `${BACKEND_API_URL}/auth/google/callback/`, // Ensure this matches your dj-rest-auth URL
-              {
-                access_token: account.access_token, // Send Google's access token
-                id_token: account.id_token, // Send Google's ID token
-                // Add any other required fields your backend expects
-              },
-            );
-
-            const {
-              access_token,
-              refresh_token,
-              user: backendUser,
-            } = backendResponse.data;
-
-            // Calculate expiry (adjust based on backend config)
-            const accessTokenExpires = Date.now() + 5 * 60 * 1000; // Example: 5 minutes
-
-            console.log(
-              "Backend login successful. Storing tokens and user info.",
-            );
-            customToken = {
-              ...customToken,
-              accessToken: access_token,
-              refreshToken: refresh_token,
-              accessTokenExpires: accessTokenExpires,
-              user: backendUser as BackendUser, // Store full backend user object
-              error: undefined,
-            };
-            return customToken; // Return the token with backend JWTs and user info
-          } catch (error: any) {
-            console.error(
-              "Backend social login error:",
-              error.response?.data || error.message,
-            );
-            // Handle specific errors if needed
-            customToken.error = "BackendLoginFailed";
-            // Clear potentially sensitive Google tokens if backend failed
-            delete customToken.accessToken;
-            delete customToken.refreshToken;
-            delete customToken.accessTokenExpires;
-            delete customToken.user;
-            return customToken; // Return token with error
-          }
+        console.log(
+          `Initial sign-in via ${account.provider}: obtaining backend tokens...`,
+        );
+        try {
+          // Credentials logins (including the dev login) were already
+          // exchanged in `authorize`; OAuth logins exchange the provider's
+          // tokens with the backend here
+          const backendLogin =
+            account.type === "credentials"
+              ? (user as CredentialsUser).backendLogin
+              : await exchangeSocialLogin(account);
+
+          console.log(
+            "Backend login successful. Storing tokens and user info.",
+          );
+          customToken = {
+            ...customToken,
+            ...backendLogin, // Backend JWTs and the full backend user object
+            error: undefined,
+          };
+          return customToken; // Return the token with backend JWTs and user info
+        } catch (error: any) {
+          console.error(
+            "Backend login error:",
+            error.response?.data || error.message,
+          );
+          // Handle specific errors if needed
+          customToken.error = "BackendLoginFailed";
+          // Clear potentially sensitive provider tokens if backend failed
+          delete customToken.accessToken;
+          delete customToken.refreshToken;
+          delete customToken.accessTokenExpires;
+          delete customToken.user;
+          return customToken; // Return token with error
         }
       }
 
@@ -221,7 +463,7 @@ export const authOptions: NextAuthOptions = {
   },
   pages: {
     signIn: "/login", // Redirect users to your custom login page
-    // error: '/auth/error', // Optional: Custom error page
+    error: "/auth/error", // Explains sign-in failures (see lib/accessReasons)
   },
   // Debugging can be helpful during development
   // debug: process.env.NODE_ENV === 'development',
@@ -0,0 +1,12 @@
+// CSV writing shared by the quiz and attempt exports.
+
+/** Byte order mark; lets Excel detect UTF-8 when opening a CSV directly. */
+export const CSV_BOM = "\uFEFF";
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Serialises rows as RFC 4180 CSV with CRLF line endings. */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
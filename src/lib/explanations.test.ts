@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { getExplanationRelease } from "./explanations";
+
+const now = Date.parse("2030-01-01T12:00:00Z");
+
+describe("getExplanationRelease", () => {
+  it("shows explanations immediately by default", () => {
+    expect(getExplanationRelease({ available_to: null }, now)).toEqual({
+      visible: true,
+      visibleFrom: null,
+    });
+  });
+
+  it("waits for the quiz to close before showing them", () => {
+    expect(
+      getExplanationRelease(
+        {
+          explanation_visibility: "AFTER_CLOSE",
+          available_to: "2030-01-02T12:00:00Z",
+        },
+        now,
+      ),
+    ).toEqual({
+      visible: false,
+      visibleFrom: new Date("2030-01-02T12:00:00Z"),
+    });
+    expect(
+      getExplanationRelease(
+        {
+          explanation_visibility: "AFTER_CLOSE",
+          available_to: "2030-01-01T11:00:00Z",
+        },
+        now,
+      ),
+    ).toEqual({ visible: true, visibleFrom: null });
+  });
+
+  it("keeps them hidden without a closing date or when set to never", () => {
+    expect(
+      getExplanationRelease(
+        { explanation_visibility: "AFTER_CLOSE", available_to: null },
+        now,
+      ),
+    ).toEqual({ visible: false, visibleFrom: null });
+    expect(
+      getExplanationRelease(
+        {
+          explanation_visibility: "NEVER",
+          available_to: "2030-01-01T11:00:00Z",
+        },
+        now,
+      ),
+    ).toEqual({ visible: false, visibleFrom: null });
+  });
+});
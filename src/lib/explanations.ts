@@ -0,0 +1,65 @@
+import { ExplanationVisibility, QuizReadOnly } from "@/types/quiz";
+
+// When the question and option explanations show up on a participant's
+// results. The quiz's owner and admins always see them.
+
+export const DEFAULT_EXPLANATION_VISIBILITY: ExplanationVisibility =
+  "IMMEDIATELY";
+
+export const EXPLANATION_VISIBILITY_OPTIONS: {
+  value: ExplanationVisibility;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "IMMEDIATELY",
+    label: "Immediately",
+    description: "Students see the explanations as soon as they submit.",
+  },
+  {
+    value: "AFTER_CLOSE",
+    label: "After the quiz closes",
+    description:
+      "Students see the explanations once the Available To date has passed, so they can't be shared while the quiz is open.",
+  },
+  {
+    value: "NEVER",
+    label: "Never",
+    description: "Only you and admins see the explanations.",
+  },
+];
+
+export const describeExplanationVisibility = (
+  visibility: ExplanationVisibility | undefined,
+) =>
+  EXPLANATION_VISIBILITY_OPTIONS.find((o) => o.value === visibility) ??
+  EXPLANATION_VISIBILITY_OPTIONS[0];
+
+export interface ExplanationRelease {
+  visible: boolean;
+  /** For AFTER_CLOSE quizzes that haven't closed yet: when they will be shown. */
+  visibleFrom: Date | null;
+}
+
+/**
+ * Whether a participant sees the quiz's explanations at the given time.
+ * AFTER_CLOSE without an Available To date never closes, so keeps them hidden.
+ */
+export function getExplanationRelease(
+  quiz: Pick<QuizReadOnly, "explanation_visibility" | "available_to">,
+  now: number = Date.now(),
+): ExplanationRelease {
+  switch (quiz.explanation_visibility ?? DEFAULT_EXPLANATION_VISIBILITY) {
+    case "IMMEDIATELY":
+      return { visible: true, visibleFrom: null };
+    case "AFTER_CLOSE": {
+      const closes = quiz.available_to ? Date.parse(quiz.available_to) : NaN;
+      if (Number.isNaN(closes)) return { visible: false, visibleFrom: null };
+      return closes <= now
+        ? { visible: true, visibleFrom: null }
+        : { visible: false, visibleFrom: new Date(closes) };
+    }
+    default:
+      return { visible: false, visibleFrom: null };
+  }
+}
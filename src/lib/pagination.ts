@@ -0,0 +1,125 @@
+import { PaginatedResponse } from "@/types/quiz";
+
+// Helpers for URL-driven list pages (filters, sorting, paging).
+// List endpoints accept `page`/`limit` query parameters; backends that don't
+// support them return the full array, in which case paging happens here.
+
+/** Next.js `searchParams` page prop. */
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const PAGE_SIZE_OPTIONS = [10, 20, 50];
+
+export interface PageResult<T> {
+  items: T[]; // Items on the current page
+  total: number; // Matching items across all pages
+  page: number;
+  limit: number;
+  pageCount: number;
+}
+
+export function isPaginatedResponse<T>(
+  data: T[] | PaginatedResponse<T>,
+): data is PaginatedResponse<T> {
+  return !Array.isArray(data) && Array.isArray(data?.results);
+}
+
+/** Returns the first value of a search param, trimmed, or "" if absent. */
+export function readSearchParam(params: SearchParams, key: string): string {
+  const value = params[key];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+export function parsePositiveInt(value: string, fallback: number): number {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Reads `page`/`limit`, only accepting the page sizes offered in the UI. */
+export function parsePaging(params: SearchParams): {
+  page: number;
+  limit: number;
+} {
+  const limit = parsePositiveInt(
+    readSearchParam(params, "limit"),
+    DEFAULT_PAGE_SIZE,
+  );
+  return {
+    page: parsePositiveInt(readSearchParam(params, "page"), 1),
+    limit: PAGE_SIZE_OPTIONS.includes(limit) ? limit : DEFAULT_PAGE_SIZE,
+  };
+}
+
+/**
+ * Normalises a list response into a single page.
+ * Paginated responses are trusted as-is (the backend already filtered,
+ * sorted and sliced them); plain arrays go through `applyLocally` first
+ * and are then sliced client-side.
+ */
+export function toPageResult<T>(
+  data: T[] | PaginatedResponse<T>,
+  page: number,
+  limit: number,
+  applyLocally: (items: T[]) => T[],
+): PageResult<T> {
+  if (isPaginatedResponse(data)) {
+    return {
+      items: data.results,
+      total: data.count,
+      page,
+      limit,
+      pageCount: Math.max(1, Math.ceil(data.count / limit)),
+    };
+  }
+
+  const matching = applyLocally(data);
+  return {
+    items: matching.slice((page - 1) * limit, page * limit),
+    total: matching.length,
+    page,
+    limit,
+    pageCount: Math.max(1, Math.ceil(matching.length / limit)),
+  };
+}
+
+/**
+ * Builds `path?query` from a params object, dropping empty/undefined values
+ * and values equal to their default so shared URLs stay short.
+ */
+export function buildListHref(
+  path: string,
+  values: Record<string, string | number | undefined>,
+  defaults: Record<string, string | number> = {},
+): string {
+  const query = new URLSearchParams();
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined || value === "" || value === defaults[key]) return;
+    query.set(key, String(value));
+  });
+  const queryString = query.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/** Page size used when walking every page of a list (exports, analytics). */
+const FETCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * Fetches every item of a list endpoint, following pages when the backend
+ * paginates and returning the plain array as-is when it doesn't.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (
+    page: number,
+    limit: number,
+  ) => Promise<T[] | PaginatedResponse<T>>,
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const data = await fetchPage(page, FETCH_ALL_PAGE_SIZE);
+    if (!isPaginatedResponse(data)) return data;
+    items.push(...data.results);
+    if (!data.next || data.results.length === 0 || items.length >= data.count) {
+      return items;
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  BankQuestion,
+  BankQuestionWritable,
+  Difficulty,
+  QuestionPool,
+  QuestionWritable,
+} from "@/types/quiz";
+import { BankQuestionListParams } from "@/lib/apiClient";
+import {
+  DEFAULT_PAGE_SIZE,
+  SearchParams,
+  buildListHref,
+  parsePaging,
+  readSearchParam,
+} from "@/lib/pagination";
+import { stripQuestionIds } from "@/lib/quizTransfer";
+
+// Query state and helpers for the question bank: the /question-bank page,
+// the "Insert from bank" picker and the random question pools.
+
+export const DIFFICULTY_OPTIONS: { value: Difficulty; label: string }[] = [
+  { value: "EASY", label: "Easy" },
+  { value: "MEDIUM", label: "Medium" },
+  { value: "HARD", label: "Hard" },
+];
+
+export const DEFAULT_DIFFICULTY: Difficulty = "MEDIUM";
+
+export const describeDifficulty = (difficulty: Difficulty | null | undefined) =>
+  DIFFICULTY_OPTIONS.find((o) => o.value === difficulty)?.label ?? "Any";
+
+export interface BankQuestionQuery {
+  search: string; // Matches the question text
+  tags: string[]; // A question must have all of them
+  subject: string;
+  difficulty: Difficulty | "";
+  page: number;
+  limit: number;
+}
+
+const DEFAULT_QUERY = {
+  difficulty: "",
+  page: 1,
+  limit: DEFAULT_PAGE_SIZE,
+};
+
+/** Tags are compared case-insensitively, so they're stored lower-case. */
+const normaliseTag = (tag: string) => tag.trim().toLowerCase();
+
+/** Splits comma-separated tags as typed by the user, dropping blanks and duplicates. */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map(normaliseTag).filter(Boolean))];
+}
+
+export const formatTags = (tags: string[]) => tags.join(", ");
+
+const isDifficulty = (value: string): value is Difficulty =>
+  DIFFICULTY_OPTIONS.some((o) => o.value === value);
+
+export function parseBankQuestionQuery(
+  params: SearchParams,
+): BankQuestionQuery {
+  const difficulty = readSearchParam(params, "difficulty");
+  return {
+    search: readSearchParam(params, "search"),
+    tags: parseTags(readSearchParam(params, "tags")),
+    subject: readSearchParam(params, "subject"),
+    difficulty: isDifficulty(difficulty) ? difficulty : "",
+    ...parsePaging(params),
+  };
+}
+
+/** Builds a /question-bank URL for the query, with any fields overridden. */
+export function bankQuestionListHref(
+  query: BankQuestionQuery,
+  overrides: Partial<BankQuestionQuery> = {},
+): string {
+  const { tags, ...rest } = { ...query, ...overrides };
+  return buildListHref(
+    "/question-bank",
+    { ...rest, tags: tags.join(",") },
+    DEFAULT_QUERY,
+  );
+}
+
+/** Query parameters for GET /question-bank/. */
+export function toBankQuestionListParams(
+  query: BankQuestionQuery,
+): BankQuestionListParams {
+  return {
+    search: query.search || undefined,
+    tags: query.tags.length > 0 ? query.tags.join(",") : undefined,
+    subject: query.subject || undefined,
+    difficulty: query.difficulty || undefined,
+    page: query.page,
+    limit: query.limit,
+  };
+}
+
+/**
+ * Client-side filtering, used when the backend returns the full
+ * unpaginated bank. Newest questions first.
+ */
+export function filterBankQuestions(
+  questions: BankQuestion[],
+  query: Pick<BankQuestionQuery, "search" | "tags" | "subject" | "difficulty">,
+): BankQuestion[] {
+  const search = query.search.toLowerCase();
+  const subject = query.subject.toLowerCase();
+  return questions
+    .filter((question) => {
+      const tags = question.tags.map(normaliseTag);
+      return (
+        (!search || question.text.toLowerCase().includes(search)) &&
+        query.tags.every((tag) => tags.includes(tag)) &&
+        (!subject || question.subject.toLowerCase() === subject) &&
+        (!query.difficulty || question.difficulty === query.difficulty)
+      );
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime(),
+    );
+}
+
+/** The bank query matching the questions a pool draws from. */
+export function poolToQuery(
+  pool: QuestionPool,
+): Pick<BankQuestionQuery, "search" | "tags" | "subject" | "difficulty"> {
+  return {
+    search: "",
+    tags: pool.tags,
+    subject: pool.subject ?? "",
+    difficulty: pool.difficulty ?? "",
+  };
+}
+
+/** A copy of a bank question ready to be added to a quiz (no IDs or bank metadata). */
+export function toQuizQuestion(question: BankQuestion): QuestionWritable {
+  return stripQuestionIds(question);
+}
+
+/** The payload saving a quiz question to the bank. */
+export function toBankQuestionWritable(
+  question: QuestionWritable,
+  meta: Pick<BankQuestionWritable, "subject" | "tags" | "difficulty">,
+): BankQuestionWritable {
+  return {
+    ...stripQuestionIds(question),
+    subject: meta.subject.trim(),
+    tags: meta.tags,
+    difficulty: meta.difficulty,
+  };
+}
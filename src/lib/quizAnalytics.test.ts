@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  ParticipantAnswerResult,
+  QuestionReadOnly,
+  QuizAttemptResult,
+  QuizReadOnly,
+  User,
+} from "@/types/quiz";
+import { computeQuizAnalytics } from "./quizAnalytics";
+
+const teacher: User = {
+  id: 1,
+  username: "teacher",
+  email: "teacher@example.com",
+  role: "TEACHER",
+  is_marked: false,
+};
+
+const options = [
+  { id: 11, text: "Paris", is_correct: true },
+  { id: 12, text: "Lyon", is_correct: false },
+];
+
+const questions: QuestionReadOnly[] = [
+  {
+    id: 1,
+    question_type: "SINGLE_MCQ",
+    text: "Capital of France?",
+    points: 1,
+    answer_options: options,
+  },
+  {
+    id: 2,
+    question_type: "TRUE_FALSE",
+    text: "The Nile is in Africa.",
+    points: 1,
+    answer_options: [],
+  },
+  {
+    id: 3,
+    question_type: "SHORT_ANSWER",
+    text: "Red planet?",
+    points: 1,
+    answer_options: [],
+  },
+  {
+    id: 4,
+    question_type: "NUMERIC",
+    text: "2 + 2?",
+    points: 1,
+    answer_options: [],
+  },
+  {
+    id: 5,
+    question_type: "ORDERING",
+    text: "Order these.",
+    points: 1,
+    answer_options: [],
+  },
+  {
+    id: 6,
+    question_type: "MATCHING",
+    text: "Match these.",
+    points: 1,
+    answer_options: [],
+  },
+];
+
+const quiz: QuizReadOnly = {
+  id: 7,
+  title: "Mixed",
+  teacher,
+  timing_minutes: 10,
+  available_from: null,
+  available_to: null,
+  is_available_for_submission: true,
+  has_availability_window: false,
+  questions,
+};
+
+const result = (
+  question: QuestionReadOnly,
+  overrides: Partial<ParticipantAnswerResult>,
+): ParticipantAnswerResult => ({
+  id: question.id * 100,
+  question,
+  selected_options: [],
+  selected_answer_bool: null,
+  is_correct: false,
+  correct_answer_bool: null,
+  correct_options: [],
+  ...overrides,
+});
+
+const attempt = (
+  id: number,
+  score: number,
+  answers: Partial<ParticipantAnswerResult>[],
+): QuizAttemptResult => ({
+  id,
+  user: { ...teacher, id: 10 + id, role: "STUDENT" },
+  quiz,
+  score,
+  submission_time: "2030-01-01T10:00:00Z",
+  participant_answers: questions.map((q, i) => result(q, answers[i])),
+  rank: null,
+  best_score_for_quiz: null,
+});
+
+// Every question answered, the first three correctly
+const answered = attempt(1, 3, [
+  { selected_options: [options[0]], is_correct: true },
+  { selected_answer_bool: true, is_correct: true },
+  { answer_text: "Mars", is_correct: true },
+  { answer_number: 5 },
+  { ordered_option_ids: [2, 1] },
+  { matches: [{ prompt_id: 1, choice_id: 2 }] },
+]);
+
+// Nothing answered
+const skipped = attempt(2, 0, [
+  {},
+  {},
+  { answer_text: "  " },
+  { answer_number: null },
+  { ordered_option_ids: [] },
+  { matches: [] },
+]);
+
+describe("computeQuizAnalytics", () => {
+  const analytics = computeQuizAnalytics(quiz, [answered, skipped]);
+
+  it("summarises the scores", () => {
+    expect(analytics.attemptCount).toBe(2);
+    expect(analytics.maxPossibleScore).toBe(6);
+    expect(analytics.scores).toEqual({
+      mean: 1.5,
+      median: 1.5,
+      min: 0,
+      max: 3,
+    });
+  });
+
+  it("counts answers of every question type as answered", () => {
+    expect(analytics.questions.map((q) => q.skippedCount)).toEqual([
+      1, 1, 1, 1, 1, 1,
+    ]);
+    expect(analytics.questions.map((q) => q.correctCount)).toEqual([
+      1, 1, 1, 0, 0, 0,
+    ]);
+  });
+
+  it("counts ungraded answers as skipped", () => {
+    const ungraded = attempt(3, 0, [
+      { selected_options: [options[1]], is_correct: null },
+    ]);
+    expect(
+      computeQuizAnalytics(quiz, [ungraded]).questions[0].skippedCount,
+    ).toBe(1);
+  });
+
+  it("reports option picks for choice questions only", () => {
+    expect(analytics.questions[0].options).toMatchObject([
+      { option: options[0], pickedCount: 1, pickedShare: 0.5, isCorrect: true },
+      { option: options[1], pickedCount: 0, isCorrect: false },
+    ]);
+    expect(analytics.questions[1]).toMatchObject({
+      options: [],
+      trueCount: 1,
+      falseCount: 0,
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  AnswerOption,
+  ParticipantAnswerResult,
+  QuestionReadOnly,
+  QuizAttemptResult,
+  QuizReadOnly,
+} from "@/types/quiz";
+
+// Aggregate statistics for a quiz, computed from its attempts' results.
+
+/** Questions answered correctly by fewer than this share of students are flagged as hard. */
+export const HARD_QUESTION_THRESHOLD = 0.3;
+/** Questions answered correctly by more than this share of students are flagged as easy. */
+export const EASY_QUESTION_THRESHOLD = 0.9;
+/** Don't flag questions until enough students have seen them. */
+export const MIN_RESPONSES_FOR_FLAG = 5;
+/** Number of buckets in the score histogram. */
+export const HISTOGRAM_BUCKETS = 10;
+
+export interface ScoreSummary {
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+}
+
+export interface HistogramBucket {
+  from: number; // Inclusive lower bound (score)
+  to: number; // Upper bound (score); inclusive for the last bucket
+  count: number;
+}
+
+export interface OptionStats {
+  option: AnswerOption;
+  pickedCount: number;
+  /** Share of responses to the question that picked this option (0-1). */
+  pickedShare: number;
+  isCorrect: boolean;
+}
+
+export interface QuestionStats {
+  question: QuestionReadOnly;
+  responseCount: number; // Attempts that include this question
+  correctCount: number;
+  skippedCount: number; // Not answered / not graded
+  /** Share of responses that were correct (0-1). */
+  correctShare: number;
+  options: OptionStats[]; // SINGLE_MCQ/MULTI_MCQ only
+  trueCount: number; // TRUE_FALSE only
+  falseCount: number; // TRUE_FALSE only
+  flag: "hard" | "easy" | null;
+}
+
+export interface QuizAnalytics {
+  attemptCount: number;
+  maxPossibleScore: number;
+  scores: ScoreSummary | null; // null when there are no attempts
+  histogram: HistogramBucket[];
+  questions: QuestionStats[];
+}
+
+function summarise(values: number[]): ScoreSummary | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    median:
+      sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle],
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function buildHistogram(scores: number[], maxScore: number): HistogramBucket[] {
+  // Fall back to the best score if the quiz has no points configured
+  const upper = Math.max(maxScore, ...scores, 1);
+  const width = upper / HISTOGRAM_BUCKETS;
+  const buckets: HistogramBucket[] = Array.from(
+    { length: HISTOGRAM_BUCKETS },
+    (_, i) => ({ from: i * width, to: (i + 1) * width, count: 0 }),
+  );
+  scores.forEach((score) => {
+    const index = Math.min(
+      HISTOGRAM_BUCKETS - 1,
+      Math.max(0, Math.floor(score / width)),
+    );
+    buckets[index].count++;
+  });
+  return buckets;
+}
+
+function flagQuestion(
+  correctShare: number,
+  responseCount: number,
+): QuestionStats["flag"] {
+  if (responseCount < MIN_RESPONSES_FOR_FLAG) return null;
+  if (correctShare < HARD_QUESTION_THRESHOLD) return "hard";
+  if (correctShare > EASY_QUESTION_THRESHOLD) return "easy";
+  return null;
+}
+
+// Whether the participant gave an answer, judged by the field the question's type uses
+function hasAnswer(
+  question: QuestionReadOnly,
+  answer: ParticipantAnswerResult,
+): boolean {
+  switch (question.question_type) {
+    case "TRUE_FALSE":
+      return typeof answer.selected_answer_bool === "boolean";
+    case "SHORT_ANSWER":
+      return Boolean(answer.answer_text?.trim());
+    case "NUMERIC":
+      return typeof answer.answer_number === "number";
+    case "ORDERING":
+      return (answer.ordered_option_ids?.length ?? 0) > 0;
+    case "MATCHING":
+      return (answer.matches?.length ?? 0) > 0;
+    default:
+      return (answer.selected_options ?? []).length > 0;
+  }
+}
+
+/**
+ * Computes score distribution and per-question/per-option statistics.
+ * Attempts for other quizzes are ignored.
+ */
+export function computeQuizAnalytics(
+  quiz: QuizReadOnly,
+  attempts: QuizAttemptResult[],
+): QuizAnalytics {
+  const quizAttempts = attempts.filter((a) => a.quiz.id === quiz.id);
+  const scores = quizAttempts.map((a) => a.score);
+  const maxPossibleScore = quiz.questions.reduce((sum, q) => sum + q.points, 0);
+
+  const questions = quiz.questions.map((question): QuestionStats => {
+    const answers = quizAttempts
+      .map((attempt) =>
+        attempt.participant_answers.find((a) => a.question.id === question.id),
+      )
+      .filter((a) => a !== undefined);
+
+    const correctCount = answers.filter((a) => a.is_correct === true).length;
+    const skippedCount = answers.filter(
+      (a) => a.is_correct === null || !hasAnswer(question, a),
+    ).length;
+    const responseCount = answers.length;
+    const correctShare = responseCount > 0 ? correctCount / responseCount : 0;
+
+    // The quiz payload may hide is_correct, so also trust correct_options from the results
+    const correctOptionIds = new Set<number>(
+      answers.flatMap((a) => (a.correct_options ?? []).map((opt) => opt.id)),
+    );
+    const options = question.answer_options.map((option): OptionStats => {
+      const pickedCount = answers.filter((a) =>
+        (a.selected_options ?? []).some((opt) => opt.id === option.id),
+      ).length;
+      return {
+        option,
+        pickedCount,
+        pickedShare: responseCount > 0 ? pickedCount / responseCount : 0,
+        isCorrect: option.is_correct || correctOptionIds.has(option.id),
+      };
+    });
+
+    return {
+      question,
+      responseCount,
+      correctCount,
+      skippedCount,
+      correctShare,
+      // Pick counts only make sense for choice questions
+      options:
+        question.question_type === "SINGLE_MCQ" ||
+        question.question_type === "MULTI_MCQ"
+          ? options
+          : [],
+      trueCount: answers.filter((a) => a.selected_answer_bool === true).length,
+      falseCount: answers.filter((a) => a.selected_answer_bool === false)
+        .length,
+      flag: flagQuestion(correctShare, responseCount),
+    };
+  });
+
+  return {
+    attemptCount: quizAttempts.length,
+    maxPossibleScore,
+    scores: summarise(scores),
+    histogram: buildHistogram(scores, maxPossibleScore),
+    questions,
+  };
+}
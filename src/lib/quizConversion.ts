@@ -0,0 +1,152 @@
+import {
+  QuizReadOnly,
+  QuizWritable,
+  QuestionReadOnly,
+  QuestionWritable,
+} from "@/types/quiz";
+import {
+  DEFAULT_SCORING_POLICY,
+  DEFAULT_WRONG_SELECTION_PENALTY,
+} from "@/lib/scoring";
+import { DEFAULT_QUESTION_LAYOUT } from "@/lib/attemptNavigation";
+import { DEFAULT_EXPLANATION_VISIBILITY } from "@/lib/explanations";
+
+// Derive the correct boolean for a TRUE_FALSE question.
+// The read-only serializer does not expose correct_answer_bool directly, so we
+// look for it on the payload first and then fall back to the "True"/"False"
+// answer options the backend generates for these questions.
+function getCorrectAnswerBool(question: QuestionReadOnly): boolean | null {
+  const explicit = (question as { correct_answer_bool?: boolean | null })
+    .correct_answer_bool;
+  if (typeof explicit === "boolean") return explicit;
+
+  const correctOption = question.answer_options.find((opt) => opt.is_correct);
+  if (!correctOption) return null;
+  const text = correctOption.text.trim().toLowerCase();
+  if (text === "true") return true;
+  if (text === "false") return false;
+  return null;
+}
+
+// ORDERING items are stored in their correct order on the writable side;
+// the read-only payload may list them in display order instead.
+function getOrderedOptions(question: QuestionReadOnly) {
+  const order = question.correct_order_ids;
+  if (!order || order.length === 0) return question.answer_options;
+  const position = (id: number) => {
+    const index = order.indexOf(id);
+    return index === -1 ? order.length : index;
+  };
+  return [...question.answer_options].sort(
+    (a, b) => position(a.id) - position(b.id),
+  );
+}
+
+// MATCHING pairs come back as prompt/choice IDs; the editor works with text pairs.
+function getMatchingPairs(question: QuestionReadOnly) {
+  const prompts = question.match_prompts ?? [];
+  const choices = question.match_choices ?? [];
+  return prompts.map((prompt) => {
+    const pair = question.matching_pairs?.find(
+      (p) => p.prompt_id === prompt.id,
+    );
+    const choice = choices.find((c) => c.id === pair?.choice_id);
+    // The prompt ID doubles as the pair ID, so edits update pairs in place
+    return { id: prompt.id, prompt: prompt.text, match: choice?.text ?? "" };
+  });
+}
+
+function toQuestionWritable(question: QuestionReadOnly): QuestionWritable {
+  const base = {
+    id: question.id,
+    question_type: question.question_type,
+    text: question.text,
+    points: question.points,
+    explanation: question.explanation ?? "",
+  };
+
+  switch (question.question_type) {
+    case "TRUE_FALSE":
+      return {
+        ...base,
+        correct_answer_bool: getCorrectAnswerBool(question),
+        answer_options: [], // T/F questions are edited via correct_answer_bool
+      };
+    case "SHORT_ANSWER":
+      return {
+        ...base,
+        correct_answer_bool: null,
+        answer_options: [],
+        accepted_answers: question.accepted_answers ?? [],
+        case_sensitive: question.case_sensitive ?? false,
+      };
+    case "NUMERIC":
+      return {
+        ...base,
+        correct_answer_bool: null,
+        answer_options: [],
+        correct_answer_number: question.correct_answer_number ?? null,
+        tolerance: question.tolerance ?? 0,
+      };
+    case "ORDERING":
+      return {
+        ...base,
+        correct_answer_bool: null,
+        answer_options: getOrderedOptions(question).map((opt) => ({
+          id: opt.id,
+          text: opt.text,
+          is_correct: false, // Position is what counts, not is_correct
+        })),
+      };
+    case "MATCHING":
+      return {
+        ...base,
+        correct_answer_bool: null,
+        answer_options: [],
+        matching_pairs: getMatchingPairs(question),
+      };
+    default:
+      return {
+        ...base,
+        correct_answer_bool: null,
+        answer_options: question.answer_options.map((opt) => ({
+          id: opt.id,
+          text: opt.text,
+          is_correct: opt.is_correct ?? false, // May be missing if hidden by the serializer
+          explanation: opt.explanation ?? "",
+        })),
+      };
+  }
+}
+
+/**
+ * Converts a quiz as returned by GET /quizzes/{id}/ into the writable shape
+ * expected by QuizManageForm and PUT /quizzes/{id}/.
+ */
+export function toQuizWritable(quiz: QuizReadOnly): QuizWritable {
+  return {
+    id: quiz.id,
+    title: quiz.title,
+    timing_minutes: quiz.timing_minutes,
+    available_from: quiz.available_from,
+    available_to: quiz.available_to,
+    scoring_policy: quiz.scoring_policy ?? DEFAULT_SCORING_POLICY,
+    wrong_selection_penalty:
+      quiz.wrong_selection_penalty ?? DEFAULT_WRONG_SELECTION_PENALTY,
+    shuffle_questions: quiz.shuffle_questions ?? false,
+    shuffle_options: quiz.shuffle_options ?? false,
+    question_layout: quiz.question_layout ?? DEFAULT_QUESTION_LAYOUT,
+    explanation_visibility:
+      quiz.explanation_visibility ?? DEFAULT_EXPLANATION_VISIBILITY,
+    question_pools: (quiz.question_pools ?? []).map((pool) => ({ ...pool })),
+    questions: quiz.questions.map(toQuestionWritable),
+  };
+}
+
+/**
+ * Returns true if two writable quizzes differ in any field the editor manages.
+ * Used to warn about edits made by someone else while the form was open.
+ */
+export function quizzesDiffer(a: QuizWritable, b: QuizWritable): boolean {
+  return JSON.stringify(a) !== JSON.stringify(b);
+}
@@ -0,0 +1,142 @@
+import { QuizReadOnly } from "@/types/quiz";
+import {
+  DEFAULT_PAGE_SIZE,
+  SearchParams,
+  buildListHref,
+  parsePaging,
+  readSearchParam,
+} from "@/lib/pagination";
+
+// URL-driven query state for the quizzes list page.
+// Every filter lives in the URL, so a filtered view can be shared by link.
+
+export type QuizStatusFilter = "" | "open" | "upcoming" | "closed";
+
+/** Sort keys use the backend's `ordering` syntax ("-" for descending). */
+export const QUIZ_SORT_OPTIONS = [
+  { value: "", label: "Default order" },
+  { value: "title", label: "Title (A-Z)" },
+  { value: "-title", label: "Title (Z-A)" },
+  { value: "-available_from", label: "Newest first" },
+  { value: "available_from", label: "Oldest first" },
+  { value: "timing_minutes", label: "Shortest first" },
+  { value: "-timing_minutes", label: "Longest first" },
+] as const;
+
+export type QuizSortKey = (typeof QUIZ_SORT_OPTIONS)[number]["value"];
+
+export const QUIZ_STATUS_OPTIONS: { value: QuizStatusFilter; label: string }[] =
+  [
+    { value: "", label: "Any status" },
+    { value: "open", label: "Open now" },
+    { value: "upcoming", label: "Upcoming" },
+    { value: "closed", label: "Closed" },
+  ];
+
+export interface QuizListQuery {
+  search: string; // Matches the title
+  teacher: string; // Matches the teacher's username
+  status: QuizStatusFilter;
+  sort: QuizSortKey;
+  page: number;
+  limit: number;
+}
+
+const DEFAULT_QUERY: Omit<QuizListQuery, "search" | "teacher"> = {
+  status: "",
+  sort: "",
+  page: 1,
+  limit: DEFAULT_PAGE_SIZE,
+};
+
+export function parseQuizListQuery(params: SearchParams): QuizListQuery {
+  const status = readSearchParam(params, "status");
+  const sort = readSearchParam(params, "sort");
+  return {
+    search: readSearchParam(params, "search"),
+    teacher: readSearchParam(params, "teacher"),
+    status: QUIZ_STATUS_OPTIONS.some((o) => o.value === status)
+      ? (status as QuizStatusFilter)
+      : DEFAULT_QUERY.status,
+    sort: QUIZ_SORT_OPTIONS.some((o) => o.value === sort)
+      ? (sort as QuizSortKey)
+      : DEFAULT_QUERY.sort,
+    ...parsePaging(params),
+  };
+}
+
+/** Builds a /quizzes URL for the query, with any fields overridden. */
+export function quizListHref(
+  query: QuizListQuery,
+  overrides: Partial<QuizListQuery> = {},
+): string {
+  return buildListHref("/quizzes", { ...query, ...overrides }, DEFAULT_QUERY);
+}
+
+/** Query parameters for GET /quizzes/. */
+export function toQuizListParams(query: QuizListQuery) {
+  return {
+    search: query.search || undefined,
+    teacher: query.teacher || undefined,
+    status: query.status || undefined,
+    ordering: query.sort || undefined,
+    page: query.page,
+    limit: query.limit,
+  };
+}
+
+/** Classifies a quiz as open now, upcoming, or closed. */
+export function getQuizStatus(
+  quiz: QuizReadOnly,
+  now: Date = new Date(),
+): Exclude<QuizStatusFilter, ""> {
+  if (quiz.is_available_for_submission) return "open";
+  if (quiz.available_from && new Date(quiz.available_from) > now) {
+    return "upcoming";
+  }
+  return "closed";
+}
+
+function compareQuizzes(a: QuizReadOnly, b: QuizReadOnly, sort: QuizSortKey) {
+  const descending = sort.startsWith("-");
+  const field = sort.replace(/^-/, "");
+  let result = 0;
+  if (field === "title") {
+    result = a.title.localeCompare(b.title, undefined, {
+      sensitivity: "base",
+    });
+  } else if (field === "timing_minutes") {
+    result = a.timing_minutes - b.timing_minutes;
+  } else if (field === "available_from") {
+    // Quizzes without a start date always sort last
+    if (!a.available_from || !b.available_from) {
+      return (a.available_from ? 0 : 1) - (b.available_from ? 0 : 1);
+    }
+    result =
+      new Date(a.available_from).getTime() -
+      new Date(b.available_from).getTime();
+  }
+  return descending ? -result : result;
+}
+
+/**
+ * Client-side filtering and sorting, used when the backend returns the
+ * full unpaginated list.
+ */
+export function filterAndSortQuizzes(
+  quizzes: QuizReadOnly[],
+  query: QuizListQuery,
+  now: Date = new Date(),
+): QuizReadOnly[] {
+  const search = query.search.toLowerCase();
+  const teacher = query.teacher.toLowerCase();
+  const filtered = quizzes.filter(
+    (quiz) =>
+      (!search || quiz.title.toLowerCase().includes(search)) &&
+      (!teacher || quiz.teacher.username.toLowerCase().includes(teacher)) &&
+      (!query.status || getQuizStatus(quiz, now) === query.status),
+  );
+  return query.sort
+    ? [...filtered].sort((a, b) => compareQuizzes(a, b, query.sort))
+    : filtered;
+}
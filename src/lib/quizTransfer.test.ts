@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import { QuizWritable } from "@/types/quiz";
+import {
+  QUIZ_EXPORT_FORMAT,
+  QUIZ_EXPORT_VERSION,
+  exportQuizToCsv,
+  exportQuizToJson,
+  parseQuizCsv,
+  parseQuizFile,
+  parseQuizJson,
+} from "./quizTransfer";
+
+const quiz: QuizWritable = {
+  id: 3,
+  title: "Geography",
+  timing_minutes: 15,
+  available_from: null,
+  available_to: null,
+  questions: [
+    {
+      id: 10,
+      question_type: "SINGLE_MCQ",
+      text: "Capital of France?",
+      points: 1,
+      answer_options: [
+        { id: 11, text: "Paris", is_correct: true },
+        { id: 12, text: "Lyon", is_correct: false },
+      ],
+    },
+    {
+      id: 13,
+      question_type: "TRUE_FALSE",
+      text: "The Nile is in Africa.",
+      points: 2,
+      correct_answer_bool: true,
+    },
+  ],
+};
+
+// A JSON export document around the given (possibly malformed) quiz
+const exportDocument = (content: unknown) =>
+  JSON.stringify({
+    format: QUIZ_EXPORT_FORMAT,
+    version: QUIZ_EXPORT_VERSION,
+    exported_at: "2030-01-01T00:00:00Z",
+    quiz: content,
+  });
+
+const question = (overrides: Record<string, unknown>) => ({
+  question_type: "SINGLE_MCQ",
+  text: "Question?",
+  points: 1,
+  ...overrides,
+});
+
+describe("parseQuizJson", () => {
+  it("reads back an export without its IDs", () => {
+    const result = parseQuizJson(exportQuizToJson(quiz));
+    expect(result.problems).toEqual([]);
+    expect(result.quiz?.title).toBe("Geography");
+    expect(result.quiz?.questions?.[0]).toMatchObject({
+      text: "Capital of France?",
+      answer_options: [
+        { text: "Paris", is_correct: true },
+        { text: "Lyon", is_correct: false },
+      ],
+    });
+    expect(JSON.stringify(result.quiz)).not.toContain('"id"');
+  });
+
+  it("rejects files that aren't quiz exports", () => {
+    expect(parseQuizJson("{not json").problems).toEqual([
+      { location: "file", message: "The file is not valid JSON." },
+    ]);
+    expect(parseQuizJson('{"format": "other"}').problems[0].message).toBe(
+      "This is not a quiz export document.",
+    );
+    expect(
+      parseQuizJson(
+        JSON.stringify({ format: QUIZ_EXPORT_FORMAT, version: 99, quiz: {} }),
+      ).problems[0].location,
+    ).toBe("version");
+  });
+
+  it("reports malformed nested lists instead of throwing", () => {
+    const result = parseQuizJson(
+      exportDocument({
+        title: "Broken",
+        timing_minutes: 10,
+        available_to: "tomorrow",
+        question_pools: [null, { tags: "science" }],
+        questions: [
+          null,
+          question({ answer_options: [null] }),
+          question({ question_type: "MATCHING", matching_pairs: "x" }),
+          question({ question_type: "SHORT_ANSWER", accepted_answers: [{}] }),
+          question({ question_type: "ESSAY" }),
+        ],
+      }),
+    );
+    expect(result.quiz).toBeNull();
+    expect(result.problems.map((p) => p.location)).toEqual([
+      "available_to",
+      "question_pools[0]",
+      "question_pools[1].tags",
+      "questions[0]",
+      "questions[1].answer_options[0]",
+      "questions[2].matching_pairs",
+      "questions[3].accepted_answers[0]",
+      "questions[4].question_type",
+    ]);
+  });
+
+  it("reports validation problems of a well-formed quiz", () => {
+    const result = parseQuizJson(
+      exportDocument({
+        title: "",
+        timing_minutes: 10,
+        questions: [question({ answer_options: [] })],
+      }),
+    );
+    expect(result.problems).toEqual([
+      { location: "title", message: "Quiz title is required." },
+      {
+        location: "questions[0].answer_options",
+        message: "Add at least one answer option.",
+      },
+    ]);
+  });
+});
+
+describe("parseQuizCsv", () => {
+  it("reads questions with their options from continuation rows", () => {
+    const result = parseQuizCsv(exportQuizToCsv(quiz));
+    expect(result.problems).toEqual([]);
+    expect(result.quiz?.questions).toEqual([
+      {
+        question_type: "SINGLE_MCQ",
+        text: "Capital of France?",
+        points: 1,
+        correct_answer_bool: null,
+        answer_options: [
+          { text: "Paris", is_correct: true },
+          { text: "Lyon", is_correct: false },
+        ],
+      },
+      {
+        question_type: "TRUE_FALSE",
+        text: "The Nile is in Africa.",
+        points: 2,
+        correct_answer_bool: true,
+        answer_options: [],
+      },
+    ]);
+  });
+
+  it("handles quoted cells, a BOM and Windows line endings", () => {
+    const result = parseQuizCsv(
+      '﻿question,question_type,points,option,is_correct\r\n"Pick ""one"", please",MULTI_MCQ,,"A, B",yes\r\n,,,C,no\r\n',
+    );
+    expect(result.problems).toEqual([]);
+    expect(result.quiz?.questions?.[0]).toMatchObject({
+      text: 'Pick "one", please',
+      question_type: "MULTI_MCQ",
+      points: 1,
+      answer_options: [
+        { text: "A, B", is_correct: true },
+        { text: "C", is_correct: false },
+      ],
+    });
+  });
+
+  it("points problems at the rows they come from", () => {
+    const result = parseQuizCsv(
+      [
+        "question,question_type,points,option,is_correct",
+        ",,,Orphan,false",
+        "Q1,SINGLE_MCQ,1,A,maybe",
+        "Q2,ORDERING,1,,",
+        "Q3,SINGLE_MCQ,x,A,true",
+        "Q4,SINGLE_MCQ,1,A,false",
+      ].join("\n"),
+    );
+    expect(result.problems).toEqual([
+      { location: "Row 2", message: "Option row has no question above it." },
+      {
+        location: "Row 3",
+        message: 'is_correct must be true or false, got "maybe".',
+      },
+      {
+        location: "Row 4",
+        message:
+          "ORDERING questions can't be imported from CSV; use a JSON export instead.",
+      },
+      { location: "Row 5", message: 'points must be a number, got "x".' },
+      {
+        location: "Row 6",
+        message: "Single choice questions need exactly one correct option.",
+      },
+    ]);
+  });
+
+  it("requires the header columns", () => {
+    expect(parseQuizCsv("question,option\nQ,A").problems[0]).toMatchObject({
+      location: "Row 1",
+    });
+    expect(parseQuizCsv("").problems).toEqual([
+      { location: "file", message: "The file is empty." },
+    ]);
+  });
+});
+
+describe("parseQuizFile", () => {
+  const csv = "question,question_type,points,option,is_correct\nQ,,,A,true";
+
+  it("reports the format it read the file as", () => {
+    expect(parseQuizFile("quiz.csv", csv).format).toBe("csv");
+    expect(parseQuizFile("quiz.json", exportQuizToJson(quiz)).format).toBe(
+      "json",
+    );
+  });
+
+  it("detects JSON content whatever the file is called", () => {
+    expect(parseQuizFile("quiz.csv", exportQuizToJson(quiz)).format).toBe(
+      "json",
+    );
+    expect(parseQuizFile("questions.txt", csv)).toMatchObject({
+      format: "csv",
+      problems: [],
+    });
+  });
+});
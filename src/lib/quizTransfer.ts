@@ -0,0 +1,689 @@
+import {
+  QuizWritable,
+  QuestionWritable,
+  QuestionType,
+  AnswerOptionWritable,
+  QuestionPool,
+  Difficulty,
+} from "@/types/quiz";
+import { validateQuiz } from "@/lib/quizValidation";
+import { toCsv } from "@/lib/csv";
+import {
+  DEFAULT_SCORING_POLICY,
+  DEFAULT_WRONG_SELECTION_PENALTY,
+  SCORING_POLICY_OPTIONS,
+} from "@/lib/scoring";
+import {
+  DEFAULT_QUESTION_LAYOUT,
+  QUESTION_LAYOUT_OPTIONS,
+} from "@/lib/attemptNavigation";
+import {
+  DEFAULT_EXPLANATION_VISIBILITY,
+  EXPLANATION_VISIBILITY_OPTIONS,
+} from "@/lib/explanations";
+
+// Portable quiz documents for import/export.
+//
+// JSON: a versioned wrapper around QuizWritable with all IDs stripped, so a
+// re-import always creates a fresh quiz:
+//   { "format": "online-quiz-system/quiz", "version": 3,
+//     "exported_at": "...", "quiz": { title, timing_minutes, ..., questions } }
+//
+// Version 2 added the SHORT_ANSWER, NUMERIC, ORDERING and MATCHING question
+// types and the quiz's scoring policy; version 3 added question and option
+// explanations and when they are shown. Older documents are still accepted.
+// Random question pools are exported by their tags, so they draw from the
+// question bank of whichever system the quiz is imported into.
+//
+// CSV: questions only (title, timing and availability come from the form),
+// and only the choice-based question types, with this header row:
+//   question,question_type,points,option,is_correct
+// - A row with a `question` starts a new question; a row with an empty
+//   `question` adds another option to the question above it.
+// - question_type is SINGLE_MCQ, MULTI_MCQ or TRUE_FALSE (default SINGLE_MCQ).
+// - points defaults to 1.
+// - MCQ: `option` is the option text and `is_correct` marks it correct.
+//   The question row may carry the first option.
+// - TRUE_FALSE: leave `option` empty; `is_correct` is the correct answer
+//   (true if the statement in `question` is true).
+// Booleans accept true/false, yes/no, 1/0 (case-insensitive).
+
+export const QUIZ_EXPORT_FORMAT = "online-quiz-system/quiz";
+export const QUIZ_EXPORT_VERSION = 3;
+
+export const QUIZ_CSV_COLUMNS = [
+  "question",
+  "question_type",
+  "points",
+  "option",
+  "is_correct",
+] as const;
+
+const QUESTION_TYPES: QuestionType[] = [
+  "SINGLE_MCQ",
+  "MULTI_MCQ",
+  "TRUE_FALSE",
+  "SHORT_ANSWER",
+  "NUMERIC",
+  "ORDERING",
+  "MATCHING",
+];
+
+const DIFFICULTIES: Difficulty[] = ["EASY", "MEDIUM", "HARD"];
+
+/** Question types that fit the CSV layout; the others need a JSON export. */
+export const CSV_QUESTION_TYPES: QuestionType[] = [
+  "SINGLE_MCQ",
+  "MULTI_MCQ",
+  "TRUE_FALSE",
+];
+
+/** A versioned quiz export document. */
+export interface QuizExportDocument {
+  format: typeof QUIZ_EXPORT_FORMAT;
+  version: number;
+  /** ISO date-time string */
+  exported_at: string;
+  quiz: Omit<QuizWritable, "id">;
+}
+
+/** A problem found while importing; `location` is a CSV row or field path. */
+export interface ImportProblem {
+  location: string;
+  message: string;
+}
+
+export interface ImportResult {
+  quiz: Omit<QuizWritable, "id"> | null; // null if the file could not be read at all
+  problems: ImportProblem[];
+}
+
+export type QuizFileFormat = "json" | "csv";
+
+/** An import from a file, with the format it was actually read as. */
+export interface QuizFileImportResult extends ImportResult {
+  format: QuizFileFormat;
+}
+
+// --- Export ---
+
+/** Keeps only the fields that apply to the question's type, without IDs. */
+export function stripQuestionIds(q: QuestionWritable): QuestionWritable {
+  const question: QuestionWritable = {
+    question_type: q.question_type,
+    text: q.text,
+    points: q.points,
+    explanation: q.explanation ?? "",
+    correct_answer_bool:
+      q.question_type === "TRUE_FALSE" ? (q.correct_answer_bool ?? null) : null,
+    answer_options: ["SINGLE_MCQ", "MULTI_MCQ", "ORDERING"].includes(
+      q.question_type,
+    )
+      ? (q.answer_options ?? []).map((a) => ({
+          text: a.text,
+          is_correct: a.is_correct,
+          explanation: a.explanation ?? "",
+        }))
+      : [],
+  };
+  if (q.question_type === "SHORT_ANSWER") {
+    question.accepted_answers = [...(q.accepted_answers ?? [])];
+    question.case_sensitive = q.case_sensitive ?? false;
+  } else if (q.question_type === "NUMERIC") {
+    question.correct_answer_number = q.correct_answer_number ?? null;
+    question.tolerance = q.tolerance ?? 0;
+  } else if (q.question_type === "MATCHING") {
+    question.matching_pairs = (q.matching_pairs ?? []).map((pair) => ({
+      prompt: pair.prompt,
+      match: pair.match,
+    }));
+  }
+  return question;
+}
+
+const stripPoolId = (pool: QuestionPool): QuestionPool => ({
+  tags: [...pool.tags],
+  subject: pool.subject ?? "",
+  difficulty: pool.difficulty ?? null,
+  count: pool.count,
+});
+
+/** Returns a copy of the quiz without quiz, question, option, pair or pool IDs. */
+export function stripIds(quiz: QuizWritable): Omit<QuizWritable, "id"> {
+  return {
+    title: quiz.title,
+    timing_minutes: quiz.timing_minutes,
+    available_from: quiz.available_from ?? null,
+    available_to: quiz.available_to ?? null,
+    scoring_policy: quiz.scoring_policy ?? DEFAULT_SCORING_POLICY,
+    wrong_selection_penalty:
+      quiz.wrong_selection_penalty ?? DEFAULT_WRONG_SELECTION_PENALTY,
+    shuffle_questions: quiz.shuffle_questions ?? false,
+    shuffle_options: quiz.shuffle_options ?? false,
+    question_layout: quiz.question_layout ?? DEFAULT_QUESTION_LAYOUT,
+    explanation_visibility:
+      quiz.explanation_visibility ?? DEFAULT_EXPLANATION_VISIBILITY,
+    question_pools: (quiz.question_pools ?? []).map(stripPoolId),
+    questions: (quiz.questions ?? []).map(stripQuestionIds),
+  };
+}
+
+export function exportQuizToJson(quiz: QuizWritable): string {
+  const document: QuizExportDocument = {
+    format: QUIZ_EXPORT_FORMAT,
+    version: QUIZ_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    quiz: stripIds(quiz),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/** Whether every question of the quiz fits the CSV layout. */
+export function canExportToCsv(quiz: QuizWritable): boolean {
+  return (quiz.questions ?? []).every((q) =>
+    CSV_QUESTION_TYPES.includes(q.question_type),
+  );
+}
+
+/** Throws if the quiz has question types CSV can't hold; check canExportToCsv first. */
+export function exportQuizToCsv(quiz: QuizWritable): string {
+  if (!canExportToCsv(quiz)) {
+    throw new Error(
+      `Only ${CSV_QUESTION_TYPES.join(", ")} questions can be exported to CSV.`,
+    );
+  }
+  const rows: string[][] = [[...QUIZ_CSV_COLUMNS]];
+  stripIds(quiz).questions?.forEach((q) => {
+    if (q.question_type === "TRUE_FALSE") {
+      rows.push([
+        q.text,
+        q.question_type,
+        String(q.points),
+        "",
+        String(q.correct_answer_bool ?? ""),
+      ]);
+      return;
+    }
+    const options = q.answer_options ?? [];
+    options.forEach((opt, index) => {
+      rows.push(
+        index === 0
+          ? [
+              q.text,
+              q.question_type,
+              String(q.points),
+              opt.text,
+              String(opt.is_correct),
+            ]
+          : ["", "", "", opt.text, String(opt.is_correct)],
+      );
+    });
+    if (options.length === 0) {
+      rows.push([q.text, q.question_type, String(q.points), "", ""]);
+    }
+  });
+  return toCsv(rows);
+}
+
+// --- Import ---
+
+/** Reports validation errors for an imported quiz using its field paths. */
+const validationProblems = (
+  quiz: Omit<QuizWritable, "id">,
+  describe: (path: string) => string = (path) => path,
+  include: (path: string) => boolean = () => true,
+): ImportProblem[] =>
+  Object.entries(validateQuiz(quiz))
+    .filter(([path]) => include(path))
+    .map(([path, message]) => ({ location: describe(path), message }));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === "string";
+
+const isDateTimeOrNull = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (isText(value) && !Number.isNaN(new Date(value).getTime()));
+
+/**
+ * Checks the nested lists of an imported quiz hold what the import maps over,
+ * so a hand-edited or truncated file is reported instead of crashing the importer.
+ */
+function shapeProblems(raw: Record<string, unknown>): ImportProblem[] {
+  const problems: ImportProblem[] = [];
+
+  // Missing lists are fine; anything else must be a list of the expected items
+  const checkList = (
+    value: unknown,
+    location: string,
+    isItem: (item: unknown) => boolean,
+    itemMessage: string,
+  ) => {
+    if (value === undefined || value === null) return;
+    if (!Array.isArray(value)) {
+      problems.push({ location, message: "Must be a list." });
+      return;
+    }
+    value.forEach((item, index) => {
+      if (!isItem(item)) {
+        problems.push({
+          location: `${location}[${index}]`,
+          message: itemMessage,
+        });
+      }
+    });
+  };
+
+  (["available_from", "available_to"] as const).forEach((field) => {
+    if (!isDateTimeOrNull(raw[field])) {
+      problems.push({
+        location: field,
+        message: "Must be an ISO date-time or null.",
+      });
+    }
+  });
+
+  checkList(
+    raw.question_pools,
+    "question_pools",
+    isRecord,
+    "Each pool must be an object.",
+  );
+  (Array.isArray(raw.question_pools) ? raw.question_pools : []).forEach(
+    (pool, index) => {
+      if (!isRecord(pool)) return; // Already reported
+      checkList(
+        pool.tags,
+        `question_pools[${index}].tags`,
+        isText,
+        "Each tag must be text.",
+      );
+    },
+  );
+
+  // The caller has checked that questions is a list
+  (raw.questions as unknown[]).forEach((q, index) => {
+    const path = `questions[${index}]`;
+    if (!isRecord(q)) {
+      problems.push({
+        location: path,
+        message: "Each question must be an object.",
+      });
+      return;
+    }
+    if (!QUESTION_TYPES.includes(q.question_type as QuestionType)) {
+      problems.push({
+        location: `${path}.question_type`,
+        message: `Unknown question type "${q.question_type}".`,
+      });
+    }
+    checkList(
+      q.answer_options,
+      `${path}.answer_options`,
+      isRecord,
+      "Each answer option must be an object.",
+    );
+    checkList(
+      q.accepted_answers,
+      `${path}.accepted_answers`,
+      isText,
+      "Each accepted answer must be text.",
+    );
+    checkList(
+      q.matching_pairs,
+      `${path}.matching_pairs`,
+      isRecord,
+      "Each pair must be an object.",
+    );
+  });
+
+  return problems;
+}
+
+export function parseQuizJson(text: string): ImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, "")); // Drop a BOM
+  } catch {
+    return {
+      quiz: null,
+      problems: [{ location: "file", message: "The file is not valid JSON." }],
+    };
+  }
+
+  const document = parsed as Partial<QuizExportDocument>;
+  if (!document || document.format !== QUIZ_EXPORT_FORMAT) {
+    return {
+      quiz: null,
+      problems: [
+        { location: "file", message: "This is not a quiz export document." },
+      ],
+    };
+  }
+  if (
+    typeof document.version !== "number" ||
+    document.version > QUIZ_EXPORT_VERSION
+  ) {
+    return {
+      quiz: null,
+      problems: [
+        {
+          location: "version",
+          message: `Unsupported export version ${document.version}; this app reads version ${QUIZ_EXPORT_VERSION} or older.`,
+        },
+      ],
+    };
+  }
+
+  const raw = document.quiz;
+  if (!isRecord(raw) || !Array.isArray(raw.questions)) {
+    return {
+      quiz: null,
+      problems: [{ location: "quiz", message: "The quiz has no questions." }],
+    };
+  }
+
+  const problems = shapeProblems(raw);
+  if (problems.length > 0) return { quiz: null, problems };
+
+  // Re-run through stripIds to normalise the shape and drop any IDs
+  const quiz = stripIds({
+    title: String(raw.title ?? ""),
+    timing_minutes: Number(raw.timing_minutes),
+    available_from: raw.available_from ?? null,
+    available_to: raw.available_to ?? null,
+    scoring_policy: SCORING_POLICY_OPTIONS.some(
+      (o) => o.value === raw.scoring_policy,
+    )
+      ? raw.scoring_policy
+      : DEFAULT_SCORING_POLICY,
+    wrong_selection_penalty: Number(
+      raw.wrong_selection_penalty ?? DEFAULT_WRONG_SELECTION_PENALTY,
+    ),
+    shuffle_questions: raw.shuffle_questions === true,
+    shuffle_options: raw.shuffle_options === true,
+    question_layout: QUESTION_LAYOUT_OPTIONS.some(
+      (o) => o.value === raw.question_layout,
+    )
+      ? raw.question_layout
+      : DEFAULT_QUESTION_LAYOUT,
+    explanation_visibility: EXPLANATION_VISIBILITY_OPTIONS.some(
+      (o) => o.value === raw.explanation_visibility,
+    )
+      ? raw.explanation_visibility
+      : DEFAULT_EXPLANATION_VISIBILITY,
+    question_pools: (raw.question_pools ?? []).map((pool) => ({
+      tags: (pool.tags ?? []).map((tag) => String(tag)),
+      subject: String(pool.subject ?? ""),
+      difficulty: DIFFICULTIES.includes(pool.difficulty as Difficulty)
+        ? pool.difficulty
+        : null,
+      count: Number(pool.count),
+    })),
+    questions: raw.questions.map((q) => ({
+      question_type: q.question_type,
+      text: String(q.text ?? ""),
+      points: Number(q.points),
+      explanation: String(q.explanation ?? ""),
+      correct_answer_bool: q.correct_answer_bool ?? null,
+      answer_options: (q.answer_options ?? []).map((a) => ({
+        text: String(a.text ?? ""),
+        is_correct: a.is_correct === true,
+        explanation: String(a.explanation ?? ""),
+      })),
+      accepted_answers: (q.accepted_answers ?? []).map((a) => String(a)),
+      case_sensitive: q.case_sensitive === true,
+      correct_answer_number:
+        q.correct_answer_number === null ||
+        q.correct_answer_number === undefined
+          ? null
+          : Number(q.correct_answer_number),
+      tolerance: Number(q.tolerance ?? 0),
+      matching_pairs: (q.matching_pairs ?? []).map((pair) => ({
+        prompt: String(pair.prompt ?? ""),
+        match: String(pair.match ?? ""),
+      })),
+    })),
+  });
+
+  return { quiz, problems: validationProblems(quiz) };
+}
+
+/** Minimal RFC 4180 parser: quoted cells, escaped quotes and newlines inside quotes. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const parseCsvBool = (value: string): boolean | null => {
+  const normalised = value.trim().toLowerCase();
+  if (["true", "yes", "1"].includes(normalised)) return true;
+  if (["false", "no", "0", ""].includes(normalised)) return false;
+  return null;
+};
+
+/**
+ * Parses questions from the CSV layout described at the top of this file.
+ * The returned quiz has an empty title and default timing; callers merge the
+ * questions into the form.
+ */
+export function parseQuizCsv(text: string): ImportResult {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, "")) // Drop Excel's BOM
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+
+  if (rows.length === 0) {
+    return {
+      quiz: null,
+      problems: [{ location: "file", message: "The file is empty." }],
+    };
+  }
+
+  const header = rows[0].cells.map((cell) => cell.trim().toLowerCase());
+  const missing = QUIZ_CSV_COLUMNS.filter((col) => !header.includes(col));
+  if (missing.length > 0) {
+    return {
+      quiz: null,
+      problems: [
+        {
+          location: "Row 1",
+          message: `Missing column(s): ${missing.join(", ")}. Expected header: ${QUIZ_CSV_COLUMNS.join(",")}`,
+        },
+      ],
+    };
+  }
+  const column = (cells: string[], name: (typeof QUIZ_CSV_COLUMNS)[number]) =>
+    (cells[header.indexOf(name)] ?? "").trim();
+
+  const problems: ImportProblem[] = [];
+  const questions: QuestionWritable[] = [];
+  // CSV row numbers for each question and option, to point validation errors back at rows
+  const questionRows: number[] = [];
+  const optionRows: number[][] = [];
+  // Set when a question row is rejected, so its option rows aren't attached to the question before it
+  let skippingQuestion = false;
+
+  rows.slice(1).forEach(({ cells, rowNumber }) => {
+    const location = `Row ${rowNumber}`;
+    const questionText = column(cells, "question");
+    const optionText = column(cells, "option");
+    const isCorrect = parseCsvBool(column(cells, "is_correct"));
+
+    if (isCorrect === null) {
+      problems.push({
+        location,
+        message: `is_correct must be true or false, got "${column(cells, "is_correct")}".`,
+      });
+      if (questionText) skippingQuestion = true;
+      return;
+    }
+
+    if (questionText) {
+      const typeValue = (column(cells, "question_type") || "SINGLE_MCQ")
+        .toUpperCase()
+        .replace(/[\s/-]/g, "_") as QuestionType;
+      if (!CSV_QUESTION_TYPES.includes(typeValue)) {
+        problems.push({
+          location,
+          message: QUESTION_TYPES.includes(typeValue)
+            ? `${typeValue} questions can't be imported from CSV; use a JSON export instead.`
+            : `Unknown question_type "${column(cells, "question_type")}". Use ${CSV_QUESTION_TYPES.join(", ")}.`,
+        });
+        skippingQuestion = true;
+        return;
+      }
+      const pointsValue = column(cells, "points");
+      const points = pointsValue === "" ? 1 : Number(pointsValue);
+      if (Number.isNaN(points)) {
+        problems.push({
+          location,
+          message: `points must be a number, got "${pointsValue}".`,
+        });
+        skippingQuestion = true;
+        return;
+      }
+
+      const options: AnswerOptionWritable[] = [];
+      const rowsForOptions: number[] = [];
+      if (typeValue !== "TRUE_FALSE" && optionText) {
+        options.push({ text: optionText, is_correct: isCorrect });
+        rowsForOptions.push(rowNumber);
+      }
+      if (typeValue === "TRUE_FALSE" && optionText) {
+        problems.push({
+          location,
+          message:
+            "TRUE_FALSE questions take no options; put the answer in is_correct.",
+        });
+      }
+
+      questions.push({
+        question_type: typeValue,
+        text: questionText,
+        points,
+        // An empty is_correct on a TRUE_FALSE row is left unset so validation reports it
+        correct_answer_bool:
+          typeValue === "TRUE_FALSE" && column(cells, "is_correct") !== ""
+            ? isCorrect
+            : null,
+        answer_options: options,
+      });
+      questionRows.push(rowNumber);
+      optionRows.push(rowsForOptions);
+      skippingQuestion = false;
+      return;
+    }
+
+    // Continuation row: another option for the previous question
+    if (skippingQuestion) return; // Its question row was already reported
+    const current = questions[questions.length - 1];
+    if (!current) {
+      problems.push({
+        location,
+        message: "Option row has no question above it.",
+      });
+      return;
+    }
+    if (current.question_type === "TRUE_FALSE") {
+      problems.push({
+        location,
+        message: "TRUE_FALSE questions take no options.",
+      });
+      return;
+    }
+    current.answer_options = [
+      ...(current.answer_options ?? []),
+      { text: optionText, is_correct: isCorrect },
+    ];
+    optionRows[optionRows.length - 1].push(rowNumber);
+  });
+
+  const quiz: Omit<QuizWritable, "id"> = {
+    title: "",
+    timing_minutes: 10,
+    available_from: null,
+    available_to: null,
+    questions,
+  };
+
+  if (questions.length === 0 && problems.length === 0) {
+    problems.push({ location: "file", message: "No questions found." });
+  }
+
+  // Point question/option errors back at the CSV rows they came from
+  const describeRow = (path: string) => {
+    const match = path.match(
+      /^questions\[(\d+)\](?:\.answer_options\[(\d+)\])?/,
+    );
+    if (!match) return path;
+    const qIndex = Number(match[1]);
+    const row =
+      match[2] !== undefined
+        ? optionRows[qIndex]?.[Number(match[2])]
+        : questionRows[qIndex];
+    return row ? `Row ${row}` : path;
+  };
+
+  return {
+    quiz,
+    problems: [
+      ...problems,
+      // Title/timing come from the form, so only question problems apply here
+      ...validationProblems(quiz, describeRow, (path) =>
+        path.startsWith("questions"),
+      ),
+    ],
+  };
+}
+
+/**
+ * Picks the parser by file name (falling back to content sniffing). The result
+ * says which format was read, so callers apply it as that format.
+ */
+export function parseQuizFile(
+  fileName: string,
+  text: string,
+): QuizFileImportResult {
+  const isJson =
+    fileName.toLowerCase().endsWith(".json") ||
+    text.trimStart().startsWith("{");
+  return isJson
+    ? { ...parseQuizJson(text), format: "json" }
+    : { ...parseQuizCsv(text), format: "csv" };
+}
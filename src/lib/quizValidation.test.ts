@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { QuestionWritable, QuizWritable } from "@/types/quiz";
+import {
+  clearFieldErrors,
+  flattenApiFieldErrors,
+  validateQuiz,
+} from "./quizValidation";
+
+const singleChoice = (
+  overrides: Partial<QuestionWritable> = {},
+): QuestionWritable => ({
+  question_type: "SINGLE_MCQ",
+  text: "What is the capital of France?",
+  points: 1,
+  answer_options: [
+    { text: "Paris", is_correct: true },
+    { text: "Berlin", is_correct: false },
+  ],
+  ...overrides,
+});
+
+const quiz = (
+  overrides: Partial<Omit<QuizWritable, "id">> = {},
+): Omit<QuizWritable, "id"> => ({
+  title: "Geography",
+  timing_minutes: 10,
+  available_from: null,
+  available_to: null,
+  questions: [singleChoice()],
+  ...overrides,
+});
+
+describe("validateQuiz", () => {
+  it("accepts a complete quiz", () => {
+    expect(validateQuiz(quiz())).toEqual({});
+  });
+
+  it("checks the quiz settings", () => {
+    expect(
+      validateQuiz(
+        quiz({
+          title: "  ",
+          timing_minutes: 0,
+          available_from: "2030-01-02T10:00:00Z",
+          available_to: "2030-01-01T10:00:00Z",
+          questions: [],
+        }),
+      ),
+    ).toEqual({
+      title: "Quiz title is required.",
+      timing_minutes: "Timing must be a positive number of minutes.",
+      available_to: "Must be later than Available From.",
+      non_field_errors:
+        "A quiz must have at least one question or random question pool.",
+    });
+  });
+
+  it("requires a closing date to show explanations after close", () => {
+    expect(
+      validateQuiz(quiz({ explanation_visibility: "AFTER_CLOSE" })),
+    ).toEqual({
+      explanation_visibility:
+        "Set an Available To date, or the explanations will never be shown.",
+    });
+    expect(
+      validateQuiz(
+        quiz({
+          explanation_visibility: "AFTER_CLOSE",
+          available_to: "2030-01-01T10:00:00Z",
+        }),
+      ),
+    ).toEqual({});
+  });
+
+  it("reports question problems under the question's path", () => {
+    const errors = validateQuiz(
+      quiz({
+        questions: [
+          singleChoice(),
+          singleChoice({
+            text: "",
+            answer_options: [
+              { text: "", is_correct: true },
+              { text: "Lyon", is_correct: true },
+            ],
+          }),
+          { question_type: "TRUE_FALSE", text: "True?", points: 1 },
+          {
+            question_type: "SHORT_ANSWER",
+            text: "Red planet?",
+            points: 1,
+            accepted_answers: [],
+          },
+        ],
+      }),
+    );
+    expect(errors).toEqual({
+      "questions[1].text": "Question text is required.",
+      "questions[1].answer_options[0].text": "Option text is required.",
+      "questions[1].answer_options":
+        "Single choice questions need exactly one correct option.",
+      "questions[2].correct_answer_bool":
+        "Select whether the correct answer is True or False.",
+      "questions[3].accepted_answers": "Add at least one accepted answer.",
+    });
+  });
+});
+
+describe("flattenApiFieldErrors", () => {
+  it("flattens nested DRF errors into field paths", () => {
+    expect(
+      flattenApiFieldErrors({
+        title: ["This field is required.", "Too short."],
+        questions: [
+          {},
+          { answer_options: [{ text: ["This field may not be blank."] }] },
+        ],
+      }),
+    ).toEqual({
+      title: "This field is required. Too short.",
+      "questions[1].answer_options[0].text": "This field may not be blank.",
+    });
+  });
+});
+
+describe("clearFieldErrors", () => {
+  it("clears a path and the fields nested under it, but not sibling list items", () => {
+    const errors = {
+      title: "Required.",
+      "questions[1]": "Invalid.",
+      "questions[1].text": "Required.",
+      "questions[1].answer_options": "Pick one.",
+      "questions[1].answer_options[0].text": "Required.",
+      "questions[10].text": "Required.",
+    };
+    expect(
+      clearFieldErrors(errors, "title", "questions[1].answer_options"),
+    ).toEqual({
+      "questions[1]": "Invalid.",
+      "questions[1].text": "Required.",
+      "questions[1].answer_options[0].text": "Required.",
+      "questions[10].text": "Required.",
+    });
+    expect(Object.keys(clearFieldErrors(errors, "questions[1]"))).toEqual([
+      "title",
+      "questions[10].text",
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { ApiFieldErrors } from "@/lib/api";
+import { QuizWritable } from "@/types/quiz";
+
+/**
+ * Validation messages keyed by field path, using the same paths as the
+ * backend's nested errors, e.g. "title" or "questions[2].answer_options[0].text".
+ * Question-level problems with the correct answer use the answer field's own path,
+ * e.g. "questions[i].answer_options", "questions[i].correct_answer_bool",
+ * "questions[i].accepted_answers" or "questions[i].matching_pairs";
+ * errors not tied to a field use "non_field_errors".
+ */
+export type QuizFieldErrors = Record<string, string>;
+
+export const questionPath = (qIndex: number) => `questions[${qIndex}]`;
+export const optionPath = (qIndex: number, aIndex: number) =>
+  `${questionPath(qIndex)}.answer_options[${aIndex}]`;
+export const poolPath = (index: number) => `question_pools[${index}]`;
+
+/** Checks a quiz in the editor before it is sent to the backend. */
+export function validateQuiz(quiz: Omit<QuizWritable, "id">): QuizFieldErrors {
+  const errors: QuizFieldErrors = {};
+
+  if (!quiz.title.trim()) {
+    errors.title = "Quiz title is required.";
+  }
+  if (!(quiz.timing_minutes > 0)) {
+    errors.timing_minutes = "Timing must be a positive number of minutes.";
+  }
+  if (quiz.available_from && quiz.available_to) {
+    const from = new Date(quiz.available_from).getTime();
+    const to = new Date(quiz.available_to).getTime();
+    if (from >= to) {
+      errors.available_to = "Must be later than Available From.";
+    }
+  }
+
+  if (quiz.explanation_visibility === "AFTER_CLOSE" && !quiz.available_to) {
+    errors.explanation_visibility =
+      "Set an Available To date, or the explanations will never be shown.";
+  }
+
+  const penalty = quiz.wrong_selection_penalty;
+  if (
+    quiz.scoring_policy === "NEGATIVE_MARKING" &&
+    penalty !== undefined &&
+    !(penalty >= 0 && penalty <= 1)
+  ) {
+    errors.wrong_selection_penalty =
+      "Penalty must be between 0% and 100% of the question's points.";
+  }
+
+  const pools = quiz.question_pools ?? [];
+  pools.forEach((pool, index) => {
+    const path = poolPath(index);
+    if (pool.tags.length === 0) {
+      errors[`${path}.tags`] = "Enter at least one tag to draw from.";
+    }
+    if (!Number.isInteger(pool.count) || pool.count < 1) {
+      errors[`${path}.count`] = "Draw at least one question.";
+    }
+  });
+
+  const questions = quiz.questions ?? [];
+  if (questions.length === 0 && pools.length === 0) {
+    errors.non_field_errors =
+      "A quiz must have at least one question or random question pool.";
+  }
+
+  questions.forEach((question, qIndex) => {
+    const path = questionPath(qIndex);
+
+    if (!question.text.trim()) {
+      errors[`${path}.text`] = "Question text is required.";
+    }
+    if (!(question.points > 0)) {
+      errors[`${path}.points`] = "Points must be greater than zero.";
+    }
+
+    if (question.question_type === "TRUE_FALSE") {
+      if (typeof question.correct_answer_bool !== "boolean") {
+        errors[`${path}.correct_answer_bool`] =
+          "Select whether the correct answer is True or False.";
+      }
+      return;
+    }
+
+    if (question.question_type === "SHORT_ANSWER") {
+      const accepted = question.accepted_answers ?? [];
+      accepted.forEach((answer, index) => {
+        if (!answer.trim()) {
+          errors[`${path}.accepted_answers[${index}]`] =
+            "Accepted answer cannot be empty.";
+        }
+      });
+      if (accepted.length === 0) {
+        errors[`${path}.accepted_answers`] =
+          "Add at least one accepted answer.";
+      }
+      return;
+    }
+
+    if (question.question_type === "NUMERIC") {
+      if (
+        typeof question.correct_answer_number !== "number" ||
+        !Number.isFinite(question.correct_answer_number)
+      ) {
+        errors[`${path}.correct_answer_number`] = "Enter the correct value.";
+      }
+      const tolerance = question.tolerance ?? 0;
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        errors[`${path}.tolerance`] = "Tolerance must be zero or more.";
+      }
+      return;
+    }
+
+    if (question.question_type === "MATCHING") {
+      const pairs = question.matching_pairs ?? [];
+      pairs.forEach((pair, index) => {
+        const pairPath = `${path}.matching_pairs[${index}]`;
+        if (!pair.prompt.trim()) {
+          errors[`${pairPath}.prompt`] = "Prompt is required.";
+        }
+        if (!pair.match.trim()) {
+          errors[`${pairPath}.match`] = "Match is required.";
+        }
+      });
+      if (pairs.length < 2) {
+        errors[`${path}.matching_pairs`] = "Add at least two pairs to match.";
+      }
+      return;
+    }
+
+    // MCQ and ORDERING types
+    const options = question.answer_options ?? [];
+    options.forEach((option, aIndex) => {
+      if (!option.text.trim()) {
+        errors[`${optionPath(qIndex, aIndex)}.text`] =
+          "Option text is required.";
+      }
+    });
+
+    const correctCount = options.filter((opt) => opt.is_correct).length;
+    if (question.question_type === "ORDERING") {
+      if (options.length < 2) {
+        errors[`${path}.answer_options`] = "Add at least two items to order.";
+      }
+    } else if (options.length === 0) {
+      errors[`${path}.answer_options`] = "Add at least one answer option.";
+    } else if (question.question_type === "SINGLE_MCQ" && correctCount !== 1) {
+      errors[`${path}.answer_options`] =
+        "Single choice questions need exactly one correct option.";
+    } else if (question.question_type === "MULTI_MCQ" && correctCount === 0) {
+      errors[`${path}.answer_options`] =
+        "Multiple choice questions need at least one correct option.";
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Flattens DRF-style nested validation errors into the same paths used by
+ * validateQuiz, so backend errors show up next to the field that caused them.
+ * e.g. { questions: [{}, { answer_options: [{ text: ["..."] }] }] }
+ *   -> { "questions[1].answer_options[0].text": "..." }
+ */
+export function flattenApiFieldErrors(
+  errors: ApiFieldErrors,
+  prefix: string = "",
+): QuizFieldErrors {
+  const flat: QuizFieldErrors = {};
+
+  const visit = (value: unknown, path: string) => {
+    if (typeof value === "string") {
+      flat[path] = flat[path] ? `${flat[path]} ${value}` : value;
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) =>
+        // Arrays of strings are messages for this path; anything else is a nested list
+        typeof item === "string"
+          ? visit(item, path)
+          : visit(item, `${path}[${index}]`),
+      );
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([key, nested]) =>
+        visit(nested, path ? `${path}.${key}` : key),
+      );
+    }
+  };
+
+  visit(errors, prefix);
+  return flat;
+}
+
+/**
+ * Removes the errors for the given paths and the fields nested under them
+ * (e.g. "questions[1]" also clears "questions[1].text"). List items such as
+ * "questions[1].answer_options[0]" are not cleared by "questions[1].answer_options".
+ */
+export function clearFieldErrors(
+  errors: QuizFieldErrors,
+  ...paths: string[]
+): QuizFieldErrors {
+  return Object.fromEntries(
+    Object.entries(errors).filter(
+      ([key]) =>
+        !paths.some((path) => key === path || key.startsWith(`${path}.`)),
+    ),
+  );
+}
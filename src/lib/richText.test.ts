@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { hasMarkup, imageMarkdown, toPlainText } from "./richText";
+
+describe("toPlainText", () => {
+  it.each([
+    ["What is **2 + 2**?", "What is 2 + 2?"],
+    ["Solve $x^2 = 4$", "Solve x^2 = 4"],
+    ["See ![diagram](https://example.com/a.png) below", "See diagram below"],
+    ["![](https://example.com/a.png)", "[image]"],
+    ["```python\nprint(1)\n```", "print(1)"],
+    ["# Title\n- one\n- two", "Title one two"],
+    ["Use `map` and *reduce*", "Use map and reduce"],
+    ["[the docs](https://example.com)", "the docs"],
+    ["Is $a<b$ and $c>d$?", "Is a<b and c>d?"],
+  ])("%j -> %j", (markdown, plain) => {
+    expect(toPlainText(markdown)).toBe(plain);
+  });
+
+  it("leaves plain text alone", () => {
+    expect(toPlainText("snake_case and 2 * 3 * 4")).toBe(
+      "snake_case and 2 * 3 * 4",
+    );
+  });
+});
+
+describe("hasMarkup", () => {
+  it("is true only when the text uses Markdown or math", () => {
+    expect(hasMarkup("Paris")).toBe(false);
+    expect(hasMarkup("A  sentence,\nwrapped.")).toBe(false);
+    expect(hasMarkup("$\\pi$")).toBe(true);
+    expect(hasMarkup("`null`")).toBe(true);
+  });
+});
+
+describe("imageMarkdown", () => {
+  it("escapes characters that would break the link", () => {
+    expect(
+      imageMarkdown(
+        "https://example.com/my file (1).png",
+        "A [labelled] diagram",
+      ),
+    ).toBe(
+      "![A labelled diagram](https://example.com/my%20file%20%281%29.png)",
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { defaultSchema } from "rehype-sanitize";
+
+// Question and option text is Markdown (GitHub flavoured) with $inline$ and
+// $$display$$ LaTeX math, fenced code blocks and images. See components/RichText.
+
+type SanitizeSchema = typeof defaultSchema;
+
+/**
+ * What authors' Markdown may produce: GitHub's defaults (no scripts, styles,
+ * event handlers or javascript: URLs), plus the classes remark-math puts on
+ * math so KaTeX can tell inline from display math. Math and code highlighting
+ * are rendered after sanitising, so their own markup is kept.
+ */
+export const RICH_TEXT_SANITIZE_SCHEMA: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]],
+  },
+};
+
+/** Largest image an author can attach to a question or option. */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Percent-encodes the characters that would end a Markdown link destination
+const escapeUrl = (url: string) =>
+  url.replace(
+    /[()\s]/g,
+    (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`,
+  );
+
+/** Markdown that shows an uploaded image. */
+export const imageMarkdown = (url: string, alt: string) =>
+  `![${alt.replace(/[[\]]/g, "")}](${escapeUrl(url)})`;
+
+/**
+ * Plain-text version of rich content, for places that can't show Markdown
+ * (select options, ARIA labels, one-line summaries, CSV exports).
+ */
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1") // Code blocks: keep the code
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt: string) => alt || "[image]")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1") // Links: keep the text
+    .replace(/\$\$([\s\S]*?)\$\$/g, "$1") // Math: keep the TeX
+    .replace(/\$([^$\n]+)\$/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/gm, "$1$2")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "") // Headings, quotes, list markers
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Whether the text uses any Markdown, math or images (plain text needs no preview). */
+export const hasMarkup = (text: string) =>
+  toPlainText(text) !== text.replace(/\s+/g, " ").trim();
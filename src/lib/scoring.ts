@@ -0,0 +1,135 @@
+import {
+  ParticipantAnswerResult,
+  QuizAttemptResult,
+  ScoringPolicy,
+} from "@/types/quiz";
+import { inQuizOrder } from "@/lib/attemptShuffle";
+
+// Scoring policies for MULTI_MCQ questions. Every other question type is
+// all-or-nothing. The backend is the source of truth for scores; these
+// helpers explain a result and fill in per-answer points when the backend
+// doesn't report them.
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = "ALL_OR_NOTHING";
+/** Share of a question's points deducted per wrong selection under NEGATIVE_MARKING. */
+export const DEFAULT_WRONG_SELECTION_PENALTY = 0.25;
+
+export const SCORING_POLICY_OPTIONS: {
+  value: ScoringPolicy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "ALL_OR_NOTHING",
+    label: "All or nothing",
+    description:
+      "Multiple choice questions score full points only if exactly the correct options are selected.",
+  },
+  {
+    value: "PARTIAL_CREDIT",
+    label: "Partial credit",
+    description:
+      "Multiple choice questions score a share of the points for each correct option selected; each wrong selection cancels one correct one (never below zero).",
+  },
+  {
+    value: "NEGATIVE_MARKING",
+    label: "Negative marking",
+    description:
+      "Multiple choice questions score a share of the points for each correct option selected, minus a penalty for each wrong selection (can go below zero).",
+  },
+];
+
+export const describeScoringPolicy = (policy: ScoringPolicy | undefined) =>
+  SCORING_POLICY_OPTIONS.find((o) => o.value === policy) ??
+  SCORING_POLICY_OPTIONS[0];
+
+export interface AnswerScore {
+  earned: number;
+  possible: number;
+  /** "backend" if reported by the API, "computed" if derived here. */
+  source: "backend" | "computed";
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Points earned for one answer under the quiz's scoring policy. */
+export function scoreAnswer(
+  result: ParticipantAnswerResult,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+  penalty: number = DEFAULT_WRONG_SELECTION_PENALTY,
+): AnswerScore {
+  const possible = result.question.points;
+  if (typeof result.points_awarded === "number") {
+    return { earned: result.points_awarded, possible, source: "backend" };
+  }
+
+  const allOrNothing = {
+    earned: result.is_correct === true ? possible : 0,
+    possible,
+    source: "computed" as const,
+  };
+  if (result.question.question_type !== "MULTI_MCQ") return allOrNothing;
+
+  // The correct options may be hidden; without them fall back to is_correct
+  const correctIds = new Set(
+    (result.correct_options?.length
+      ? result.correct_options
+      : result.question.answer_options.filter((opt) => opt.is_correct)
+    ).map((opt) => opt.id),
+  );
+  if (correctIds.size === 0) return allOrNothing;
+
+  const selected = (result.selected_options ?? []).map((opt) => opt.id);
+  const right = selected.filter((id) => correctIds.has(id)).length;
+  const wrong = selected.length - right;
+  const perOption = possible / correctIds.size;
+
+  let earned: number;
+  switch (policy) {
+    case "PARTIAL_CREDIT":
+      earned = Math.max(0, (right - wrong) * perOption);
+      break;
+    case "NEGATIVE_MARKING":
+      earned = Math.max(
+        -possible,
+        right * perOption - wrong * penalty * possible,
+      );
+      break;
+    default:
+      earned = right === correctIds.size && wrong === 0 ? possible : 0;
+  }
+  return { earned: round(earned), possible, source: "computed" };
+}
+
+export interface ScoreBreakdown {
+  answers: { result: ParticipantAnswerResult; score: AnswerScore }[];
+  totalEarned: number;
+  totalPossible: number;
+  /** True if any answer's points were derived here rather than reported by the backend. */
+  hasComputedScores: boolean;
+}
+
+/**
+ * Per-answer points and totals for an attempt, following its quiz's policy.
+ * Answers are in the quiz's own question order, however the attempt was shuffled.
+ */
+export function getScoreBreakdown(attempt: QuizAttemptResult): ScoreBreakdown {
+  const answers = inQuizOrder(
+    attempt.participant_answers,
+    attempt.quiz.questions,
+    (result) => result.question.id,
+  ).map((result) => ({
+    result,
+    score: scoreAnswer(
+      result,
+      attempt.quiz.scoring_policy,
+      attempt.quiz.wrong_selection_penalty,
+    ),
+  }));
+  return {
+    answers,
+    totalEarned: round(answers.reduce((sum, a) => sum + a.score.earned, 0)),
+    totalPossible: answers.reduce((sum, a) => sum + a.score.possible, 0),
+    hasComputedScores: answers.some((a) => a.score.source === "computed"),
+  };
+}
@@ -0,0 +1,99 @@
+import { User } from "@/types/quiz";
+import { UserListParams } from "@/lib/apiClient";
+import {
+  DEFAULT_PAGE_SIZE,
+  SearchParams,
+  buildListHref,
+  parsePaging,
+  readSearchParam,
+} from "@/lib/pagination";
+
+// URL-driven query state for the admin console's user list.
+
+export type UserRoleFilter = "" | User["role"];
+export type UserMarkedFilter = "" | "marked" | "unmarked";
+
+export const USER_ROLE_OPTIONS: { value: User["role"]; label: string }[] = [
+  { value: "STUDENT", label: "Student" },
+  { value: "TEACHER", label: "Teacher" },
+  { value: "ADMIN", label: "Admin" },
+];
+
+export const USER_MARKED_OPTIONS: {
+  value: UserMarkedFilter;
+  label: string;
+}[] = [
+  { value: "", label: "Marked or not" },
+  { value: "marked", label: "Marked only" },
+  { value: "unmarked", label: "Not marked" },
+];
+
+export const describeRole = (role: User["role"]) =>
+  USER_ROLE_OPTIONS.find((o) => o.value === role)?.label ?? role;
+
+export interface UserListQuery {
+  search: string; // Matches username or email
+  role: UserRoleFilter;
+  marked: UserMarkedFilter;
+  page: number;
+  limit: number;
+}
+
+const DEFAULT_QUERY: Omit<UserListQuery, "search"> = {
+  role: "",
+  marked: "",
+  page: 1,
+  limit: DEFAULT_PAGE_SIZE,
+};
+
+export function parseUserListQuery(params: SearchParams): UserListQuery {
+  const role = readSearchParam(params, "role");
+  const marked = readSearchParam(params, "marked");
+  return {
+    search: readSearchParam(params, "search"),
+    role: USER_ROLE_OPTIONS.some((o) => o.value === role)
+      ? (role as User["role"])
+      : "",
+    marked: USER_MARKED_OPTIONS.some((o) => o.value === marked)
+      ? (marked as UserMarkedFilter)
+      : "",
+    ...parsePaging(params),
+  };
+}
+
+/** Builds an /admin URL for the query, with any fields overridden. */
+export function userListHref(
+  query: UserListQuery,
+  overrides: Partial<UserListQuery> = {},
+): string {
+  return buildListHref("/admin", { ...query, ...overrides }, DEFAULT_QUERY);
+}
+
+/** Query parameters for GET /users/. */
+export function toUserListParams(query: UserListQuery): UserListParams {
+  return {
+    search: query.search || undefined,
+    role: query.role || undefined,
+    is_marked: query.marked ? query.marked === "marked" : undefined,
+    page: query.page,
+    limit: query.limit,
+  };
+}
+
+/**
+ * Client-side filtering, used when the backend returns the full
+ * unpaginated list. Sorted by username.
+ */
+export function filterUsers(users: User[], query: UserListQuery): User[] {
+  const search = query.search.toLowerCase();
+  return users
+    .filter(
+      (user) =>
+        (!search ||
+          user.username.toLowerCase().includes(search) ||
+          user.email.toLowerCase().includes(search)) &&
+        (!query.role || user.role === query.role) &&
+        (!query.marked || user.is_marked === (query.marked === "marked")),
+    )
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
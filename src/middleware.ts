@@ -32,15 +32,22 @@ export default withAuth(
 
     // --- Role-Based Access Control ---
 
-    // Admin-only routes (example)
-    // if (pathname.startsWith('/admin') && userRole !== 'ADMIN') {
-    //     return NextResponse.redirect(new URL('/unauthorized', req.url));
-    // }
+    // Admin-only routes
+    if (pathname.startsWith("/admin") && userRole !== "ADMIN") {
+      console.log(
+        `Middleware: Denying access to ${pathname} for role ${userRole}`,
+      );
+      return NextResponse.redirect(
+        new URL("/unauthorized?reason=role", req.url),
+      );
+    }
 
     // Teacher/Admin routes
     if (
       pathname.startsWith("/quizzes/new") ||
-      pathname.match(/^\/quizzes\/\d+\/edit$/)
+      pathname.match(/^\/quizzes\/\d+\/edit$/) ||
+      pathname.match(/^\/quizzes\/\d+\/analytics$/) ||
+      pathname.startsWith("/question-bank")
     ) {
       if (userRole !== "TEACHER" && userRole !== "ADMIN") {
         console.log(
@@ -71,6 +78,9 @@ export default withAuth(
           "/attempts",
           "/quizzes/new",
           "/quizzes/[id]/edit",
+          "/quizzes/[id]/analytics",
+          "/question-bank",
+          "/admin",
         ]; // Add base paths or patterns
 
         // Check if the current path starts with any of the protected paths
@@ -95,7 +105,7 @@ export default withAuth(
     // Redirect to custom login page if unauthorized
     pages: {
       signIn: "/login",
-      // error: '/auth/error', // Optional error page
+      error: "/auth/error",
     },
   },
 );
@@ -109,14 +119,12 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
-     * - login page itself
+     * - login page itself, and the access/sign-in error pages
      */
-    "/((?!api|_next/static|_next/image|favicon.ico|login|unauthorized).*)",
+    "/((?!api|_next/static|_next/image|favicon.ico|login|unauthorized|auth/error).*)",
     // Explicitly include specific protected routes if needed, but the above negative lookahead is often better
     // '/attempts/:path*',
     // '/quizzes/new',
     // '/quizzes/:id/edit',
   ],
 };
-
-// Add a simple /unauthorized page: src/app/unauthorized/page.tsx
@@ -0,0 +1,216 @@
+import { QuizWritable, User } from "@/types/quiz";
+
+// Seed data for the mock backend. Every user's password is "password".
+
+export const MOCK_PASSWORD = "password";
+
+export const SEED_USERS: User[] = [
+  {
+    id: 1,
+    username: "admin",
+    email: "admin@example.com",
+    role: "ADMIN",
+    is_marked: false,
+    marked_reason: null,
+  },
+  {
+    id: 2,
+    username: "teacher",
+    email: "teacher@example.com",
+    role: "TEACHER",
+    is_marked: false,
+    marked_reason: null,
+  },
+  {
+    id: 3,
+    username: "teacher2",
+    email: "teacher2@example.com",
+    role: "TEACHER",
+    is_marked: false,
+    marked_reason: null,
+  },
+  {
+    id: 4,
+    username: "student",
+    email: "student@example.com",
+    role: "STUDENT",
+    is_marked: false,
+    marked_reason: null,
+  },
+  {
+    id: 5,
+    username: "student2",
+    email: "student2@example.com",
+    role: "STUDENT",
+    is_marked: false,
+    marked_reason: null,
+  },
+  {
+    id: 6,
+    username: "marked",
+    email: "marked@example.com",
+    role: "STUDENT",
+    is_marked: true,
+    marked_reason: "Shared answers during an exam.",
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) =>
+  new Date(Date.now() + days * DAY_MS).toISOString();
+
+/** Seed quizzes with the username of the teacher who owns each. */
+export function getSeedQuizzes(): { teacher: string; quiz: QuizWritable }[] {
+  return [
+    {
+      teacher: "teacher",
+      quiz: {
+        title: "General Knowledge",
+        timing_minutes: 10,
+        available_from: null,
+        available_to: null,
+        questions: [
+          {
+            question_type: "SINGLE_MCQ",
+            text: "What is the capital of France?",
+            points: 1,
+            answer_options: [
+              {
+                text: "Berlin",
+                is_correct: false,
+                explanation: "Berlin is the capital of Germany.",
+              },
+              { text: "Paris", is_correct: true },
+              {
+                text: "Madrid",
+                is_correct: false,
+                explanation: "Madrid is the capital of Spain.",
+              },
+            ],
+            explanation: "Paris has been the capital of France since 987.",
+          },
+          {
+            question_type: "TRUE_FALSE",
+            text: "The Pacific is the largest ocean on Earth.",
+            points: 1,
+            correct_answer_bool: true,
+          },
+          {
+            question_type: "MULTI_MCQ",
+            text: "Which of these are prime numbers?",
+            points: 2,
+            answer_options: [
+              { text: "2", is_correct: true },
+              { text: "4", is_correct: false },
+              { text: "7", is_correct: true },
+              { text: "9", is_correct: false },
+            ],
+          },
+          {
+            question_type: "SHORT_ANSWER",
+            text: "Which planet is known as the Red Planet?",
+            points: 1,
+            accepted_answers: ["Mars"],
+            case_sensitive: false,
+          },
+          {
+            question_type: "NUMERIC",
+            text: "What is 0.1 + 0.2, to two decimal places?",
+            points: 1,
+            correct_answer_number: 0.3,
+            tolerance: 0.005,
+            explanation:
+              "$0.1 + 0.2 = 0.3$, although floating point arithmetic gives `0.30000000000000004`.",
+          },
+        ],
+      },
+    },
+    {
+      teacher: "teacher",
+      quiz: {
+        title: "Science Sequences",
+        timing_minutes: 15,
+        available_from: daysFromNow(-1),
+        available_to: daysFromNow(30),
+        scoring_policy: "PARTIAL_CREDIT",
+        shuffle_options: true,
+        question_layout: "ONE_AT_A_TIME",
+        explanation_visibility: "AFTER_CLOSE",
+        questions: [
+          {
+            question_type: "ORDERING",
+            text: "Order the planets by distance from the Sun, closest first.",
+            points: 2,
+            answer_options: [
+              { text: "Mercury", is_correct: false },
+              { text: "Venus", is_correct: false },
+              { text: "Earth", is_correct: false },
+              { text: "Mars", is_correct: false },
+            ],
+          },
+          {
+            question_type: "MATCHING",
+            text: "Match each element to its symbol.",
+            points: 3,
+            matching_pairs: [
+              { prompt: "Gold", match: "Au" },
+              { prompt: "Iron", match: "Fe" },
+              { prompt: "Sodium", match: "Na" },
+            ],
+            explanation:
+              "The symbols of Gold (*aurum*), Iron (*ferrum*) and Sodium (*natrium*) come from their Latin names.",
+          },
+          {
+            question_type: "MULTI_MCQ",
+            text: "Which of these are noble gases?",
+            points: 2,
+            answer_options: [
+              { text: "Helium", is_correct: true },
+              { text: "Oxygen", is_correct: false },
+              { text: "Neon", is_correct: true },
+              { text: "Argon", is_correct: true },
+            ],
+          },
+        ],
+      },
+    },
+    {
+      teacher: "teacher2",
+      quiz: {
+        title: "History Final (upcoming)",
+        timing_minutes: 30,
+        available_from: daysFromNow(7),
+        available_to: daysFromNow(8),
+        questions: [
+          {
+            question_type: "SINGLE_MCQ",
+            text: "In which year did the Berlin Wall fall?",
+            points: 1,
+            answer_options: [
+              { text: "1979", is_correct: false },
+              { text: "1989", is_correct: true },
+              { text: "1999", is_correct: false },
+            ],
+          },
+        ],
+      },
+    },
+    {
+      teacher: "teacher2",
+      quiz: {
+        title: "Geography Pop Quiz (closed)",
+        timing_minutes: 5,
+        available_from: daysFromNow(-10),
+        available_to: daysFromNow(-9),
+        questions: [
+          {
+            question_type: "TRUE_FALSE",
+            text: "Mount Everest is in the Andes.",
+            points: 1,
+            correct_answer_bool: false,
+          },
+        ],
+      },
+    },
+  ];
+}
@@ -0,0 +1,157 @@
+import {
+  ParticipantAnswerResult,
+  ParticipantAnswerSubmit,
+  QuestionReadOnly,
+  QuizAttemptResult,
+  QuizReadOnly,
+  QuizSubmission,
+  User,
+} from "@/types/quiz";
+import { scoreAnswer } from "@/lib/scoring";
+import { MockState, nextId } from "./store";
+
+// Grades a submission the way the backend does: each question type has its
+// own correctness rule, and MULTI_MCQ points follow the quiz's scoring policy
+// (shared with the results page via lib/scoring).
+
+const sameIds = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+const sortedIds = (ids: number[]) => [...ids].sort((a, b) => a - b);
+
+function isCorrect(
+  question: QuestionReadOnly,
+  answer: ParticipantAnswerSubmit | undefined,
+): boolean {
+  if (!answer) return false;
+  switch (question.question_type) {
+    case "SINGLE_MCQ":
+    case "MULTI_MCQ":
+      return sameIds(
+        sortedIds(answer.selected_option_ids ?? []),
+        sortedIds(
+          question.answer_options
+            .filter((opt) => opt.is_correct)
+            .map((opt) => opt.id),
+        ),
+      );
+    case "TRUE_FALSE": {
+      const correct = question.answer_options.find((opt) => opt.is_correct);
+      return (
+        typeof answer.selected_answer_bool === "boolean" &&
+        correct?.text === (answer.selected_answer_bool ? "True" : "False")
+      );
+    }
+    case "SHORT_ANSWER": {
+      const normalize = (text: string) =>
+        question.case_sensitive ? text.trim() : text.trim().toLowerCase();
+      const given = normalize(answer.answer_text ?? "");
+      return (
+        given !== "" &&
+        (question.accepted_answers ?? []).some((a) => normalize(a) === given)
+      );
+    }
+    case "NUMERIC":
+      return (
+        typeof answer.answer_number === "number" &&
+        typeof question.correct_answer_number === "number" &&
+        Math.abs(answer.answer_number - question.correct_answer_number) <=
+          (question.tolerance ?? 0)
+      );
+    case "ORDERING":
+      return sameIds(
+        answer.ordered_option_ids ?? [],
+        question.correct_order_ids ?? [],
+      );
+    case "MATCHING": {
+      const pairs = question.matching_pairs ?? [];
+      const given = answer.matches ?? [];
+      return (
+        pairs.length > 0 &&
+        pairs.every((pair) =>
+          given.some(
+            (m) =>
+              m.prompt_id === pair.prompt_id && m.choice_id === pair.choice_id,
+          ),
+        )
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+function gradeAnswer(
+  state: MockState,
+  quiz: QuizReadOnly,
+  question: QuestionReadOnly,
+  answer: ParticipantAnswerSubmit | undefined,
+): ParticipantAnswerResult {
+  const correctOptions = question.answer_options.filter((o) => o.is_correct);
+  const result: ParticipantAnswerResult = {
+    id: nextId(state),
+    question,
+    selected_options: question.answer_options.filter((opt) =>
+      answer?.selected_option_ids?.includes(opt.id),
+    ),
+    selected_answer_bool: answer?.selected_answer_bool ?? null,
+    is_correct: isCorrect(question, answer),
+    points_awarded: null, // Filled in below
+    correct_answer_bool:
+      question.question_type === "TRUE_FALSE"
+        ? correctOptions[0]?.text === "True"
+        : null,
+    correct_options: correctOptions,
+    answer_text: answer?.answer_text ?? null,
+    answer_number: answer?.answer_number ?? null,
+    ordered_option_ids: answer?.ordered_option_ids ?? null,
+    matches: answer?.matches ?? null,
+  };
+  result.points_awarded = scoreAnswer(
+    result,
+    quiz.scoring_policy,
+    quiz.wrong_selection_penalty,
+  ).earned;
+  return result;
+}
+
+/** Grades a submission and records it as a new attempt. */
+export function recordAttempt(
+  state: MockState,
+  quiz: QuizReadOnly,
+  user: User,
+  submission: QuizSubmission,
+): QuizAttemptResult {
+  const participantAnswers = quiz.questions.map((question) =>
+    gradeAnswer(
+      state,
+      quiz,
+      question,
+      submission.answers.find((a) => a.question_id === question.id),
+    ),
+  );
+  const score =
+    Math.round(
+      participantAnswers.reduce((sum, a) => sum + (a.points_awarded ?? 0), 0) *
+        100,
+    ) / 100;
+
+  const attempt: QuizAttemptResult = {
+    id: nextId(state),
+    user,
+    quiz, // A snapshot, so later edits to the quiz don't change the result
+    score,
+    submission_time: new Date().toISOString(),
+    participant_answers: participantAnswers,
+    rank: null,
+    best_score_for_quiz: null,
+  };
+  state.attempts.push(attempt);
+
+  const quizAttempts = state.attempts.filter((a) => a.quiz.id === quiz.id);
+  attempt.rank = quizAttempts.filter((a) => a.score > score).length + 1;
+  attempt.best_score_for_quiz = Math.max(
+    ...quizAttempts.filter((a) => a.user.id === user.id).map((a) => a.score),
+  );
+  return attempt;
+}
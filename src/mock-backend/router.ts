@@ -0,0 +1,422 @@
+import {
+  QuizSubmission,
+  QuizWritable,
+  User,
+  UserAdminUpdate,
+} from "@/types/quiz";
+import { MOCK_PASSWORD } from "./fixtures";
+import { MAX_IMAGE_BYTES } from "@/lib/richText";
+import {
+  attemptForViewer,
+  buildQuiz,
+  canManageQuiz,
+  canSeeAttempt,
+  forViewer,
+  getState,
+  nextId,
+  resetState,
+} from "./store";
+import { recordAttempt } from "./grading";
+import {
+  ACCESS_TOKEN_LIFETIME_S,
+  issueTokenPair,
+  readIdTokenEmail,
+  readToken,
+} from "./tokens";
+
+// Request handling for the mock backend: DRF-style paths (trailing slashes),
+// status codes and error bodies ({ detail } or per-field lists).
+// List endpoints return plain arrays; the pages filter and page them locally.
+
+export interface MockRequest {
+  method: string;
+  path: string; // Relative to the backend root, e.g. "/quizzes/3/submit/"
+  /** Absolute URL of the backend root, for URLs in responses. */
+  baseUrl: string;
+  authorization: string | null;
+  /** Parsed JSON, or a multipart upload's file. */
+  body: unknown;
+}
+
+/** A file from a multipart request (the "file" field). */
+export interface MockFile {
+  name: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  /** Served as-is instead of a JSON body, e.g. an uploaded image. */
+  file?: { contentType: string; data: Uint8Array };
+}
+
+const ok = (body: unknown, status = 200): MockResponse => ({ status, body });
+const fail = (status: number, detail: string): MockResponse => ({
+  status,
+  body: { detail },
+});
+
+type Handler = (
+  request: MockRequest,
+  params: string[],
+) => MockResponse | Promise<MockResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+const routes: Route[] = [];
+const route = (method: string, pattern: RegExp, handler: Handler) =>
+  routes.push({ method, pattern, handler });
+
+function currentUser(request: MockRequest): User | null {
+  const token = request.authorization?.replace(/^Bearer\s+/i, "");
+  const userId = readToken(token, "access");
+  return getState().users.find((user) => user.id === userId) ?? null;
+}
+
+// Wraps a handler that needs a signed-in user
+const authenticated =
+  (
+    handler: (
+      request: MockRequest,
+      params: string[],
+      user: User,
+    ) => MockResponse | Promise<MockResponse>,
+  ): Handler =>
+  (request, params) => {
+    const user = currentUser(request);
+    if (!user) {
+      return fail(401, "Authentication credentials were not provided.");
+    }
+    return handler(request, params, user);
+  };
+
+const loginResponse = (user: User) => {
+  const { access, refresh } = issueTokenPair(user.id);
+  return ok({
+    access,
+    refresh,
+    access_token: access,
+    refresh_token: refresh,
+    expires_in: ACCESS_TOKEN_LIFETIME_S,
+    user,
+  });
+};
+
+const field = (body: unknown, key: string): unknown =>
+  body && typeof body === "object"
+    ? (body as Record<string, unknown>)[key]
+    : undefined;
+
+// --- Auth ---
+
+route("POST", /^\/auth\/token\/$/, (request) => {
+  const username = field(request.body, "username");
+  const user = getState().users.find((u) => u.username === username);
+  if (!user || field(request.body, "password") !== MOCK_PASSWORD) {
+    return fail(401, "No active account found with the given credentials");
+  }
+  return loginResponse(user);
+});
+
+route("POST", /^\/auth\/token\/refresh\/$/, (request) => {
+  const userId = readToken(
+    field(request.body, "refresh") as string | undefined,
+    "refresh",
+  );
+  const user = getState().users.find((u) => u.id === userId);
+  if (!user) return fail(401, "Token is invalid or expired");
+  // Rotating refresh tokens, like dj-rest-auth with ROTATE_REFRESH_TOKENS
+  const { access, refresh } = issueTokenPair(user.id);
+  return ok({ access, refresh, expires_in: ACCESS_TOKEN_LIFETIME_S });
+});
+
+// Any Google token is accepted; the user is picked by the ID token's email,
+// falling back to the seeded student
+route("POST", /^\/auth\/google\/callback\/$/, (request) => {
+  const email = readIdTokenEmail(field(request.body, "id_token"));
+  const users = getState().users;
+  const user =
+    users.find((u) => u.email === email) ??
+    users.find((u) => u.username === "student")!;
+  return loginResponse(user);
+});
+
+// Signs in as the first seeded user with the requested role (dev login)
+route("POST", /^\/auth\/dev-login\/$/, (request) => {
+  const role = field(request.body, "role");
+  const user = getState().users.find((u) => u.role === role);
+  if (!user) return fail(400, "Unknown role.");
+  return loginResponse(user);
+});
+
+route(
+  "GET",
+  /^\/auth\/user\/$/,
+  authenticated((_request, _params, user) => ok(user)),
+);
+
+// Restores the seed data, e.g. between end-to-end tests
+route("POST", /^\/mock\/reset\/$/, () => {
+  resetState();
+  return ok({ detail: "Mock backend state reset." });
+});
+
+// --- Quizzes ---
+
+function validateQuiz(body: unknown): MockResponse | null {
+  const quiz = body as Partial<QuizWritable> | null;
+  const errors: Record<string, string[]> = {};
+  if (!quiz?.title?.trim()) errors.title = ["This field is required."];
+  if (typeof quiz?.timing_minutes !== "number" || quiz.timing_minutes < 1) {
+    errors.timing_minutes = [
+      "Ensure this value is greater than or equal to 1.",
+    ];
+  }
+  return Object.keys(errors).length > 0 ? ok(errors, 400) : null;
+}
+
+const requireStaff = (user: User) =>
+  user.role === "STUDENT"
+    ? fail(403, "Only teachers and admins can manage quizzes.")
+    : null;
+
+route(
+  "GET",
+  /^\/quizzes\/$/,
+  authenticated((_request, _params, user) =>
+    ok(getState().quizzes.map((quiz) => forViewer(quiz, user))),
+  ),
+);
+
+route(
+  "POST",
+  /^\/quizzes\/$/,
+  authenticated((request, _params, user) => {
+    const denied = requireStaff(user) ?? validateQuiz(request.body);
+    if (denied) return denied;
+    const state = getState();
+    const quiz = buildQuiz(state, request.body as QuizWritable, user);
+    state.quizzes.push(quiz);
+    return ok(quiz, 201);
+  }),
+);
+
+const findQuiz = (id: string) =>
+  getState().quizzes.find((quiz) => quiz.id === Number(id));
+
+route(
+  "GET",
+  /^\/quizzes\/(\d+)\/$/,
+  authenticated((_request, [id], user) => {
+    const quiz = findQuiz(id);
+    return quiz ? ok(forViewer(quiz, user)) : fail(404, "Not found.");
+  }),
+);
+
+route(
+  "PUT",
+  /^\/quizzes\/(\d+)\/$/,
+  authenticated((request, [id], user) => {
+    const quiz = findQuiz(id);
+    if (!quiz) return fail(404, "Not found.");
+    if (!canManageQuiz(quiz, user)) {
+      return fail(403, "You can only edit your own quizzes.");
+    }
+    const invalid = validateQuiz(request.body);
+    if (invalid) return invalid;
+    const state = getState();
+    const updated = buildQuiz(
+      state,
+      request.body as QuizWritable,
+      quiz.teacher,
+      quiz.id,
+    );
+    state.quizzes = state.quizzes.map((q) => (q.id === quiz.id ? updated : q));
+    return ok(updated);
+  }),
+);
+
+route(
+  "DELETE",
+  /^\/quizzes\/(\d+)\/$/,
+  authenticated((_request, [id], user) => {
+    const quiz = findQuiz(id);
+    if (!quiz) return fail(404, "Not found.");
+    if (!canManageQuiz(quiz, user)) {
+      return fail(403, "You can only delete your own quizzes.");
+    }
+    const state = getState();
+    state.quizzes = state.quizzes.filter((q) => q.id !== quiz.id);
+    return { status: 204 };
+  }),
+);
+
+route(
+  "POST",
+  /^\/quizzes\/(\d+)\/submit\/$/,
+  authenticated((request, [id], user) => {
+    const quiz = findQuiz(id);
+    if (!quiz) return fail(404, "Not found.");
+    if (user.role !== "STUDENT") {
+      return fail(403, "Only students can attempt quizzes.");
+    }
+    if (user.is_marked) {
+      return fail(403, "Marked users cannot submit new attempts.");
+    }
+    const current = forViewer(quiz, quiz.teacher); // With answers, for grading
+    if (!current.is_available_for_submission) {
+      return fail(400, "This quiz is not currently open for submission.");
+    }
+    const submission = request.body as QuizSubmission | null;
+    if (!Array.isArray(submission?.answers)) {
+      return ok({ answers: ["This field is required."] }, 400);
+    }
+    return ok(
+      attemptForViewer(
+        recordAttempt(getState(), current, user, submission),
+        user,
+      ),
+      201,
+    );
+  }),
+);
+
+// --- Attempts ---
+
+route(
+  "GET",
+  /^\/attempts\/$/,
+  authenticated((_request, _params, user) =>
+    ok(
+      getState()
+        .attempts.filter((attempt) => canSeeAttempt(attempt, user))
+        .map((attempt) => attemptForViewer(attempt, user)),
+    ),
+  ),
+);
+
+route(
+  "GET",
+  /^\/attempts\/(\d+)\/$/,
+  authenticated((_request, [id], user) => {
+    const attempt = getState().attempts.find((a) => a.id === Number(id));
+    // Other users' attempts are reported as missing, like the backend's queryset filtering
+    return attempt && canSeeAttempt(attempt, user)
+      ? ok(attemptForViewer(attempt, user))
+      : fail(404, "Not found.");
+  }),
+);
+
+// --- Uploads (images in question content) ---
+
+route(
+  "POST",
+  /^\/uploads\/$/,
+  authenticated((request, _params, user) => {
+    const denied = requireStaff(user);
+    if (denied) return denied;
+    const file = request.body as MockFile | null;
+    if (!file?.data) return ok({ file: ["No file was submitted."] }, 400);
+    if (!file.contentType.startsWith("image/")) {
+      return ok({ file: ["Upload a valid image."] }, 400);
+    }
+    if (file.data.byteLength > MAX_IMAGE_BYTES) {
+      return ok({ file: ["The image is too large."] }, 400);
+    }
+    const state = getState();
+    const upload = {
+      id: nextId(state),
+      contentType: file.contentType,
+      data: file.data,
+    };
+    state.uploads.push(upload);
+    return ok({ url: `${request.baseUrl}/uploads/${upload.id}/` }, 201);
+  }),
+);
+
+// Public, like the backend's media files, so <img> tags can load them
+route("GET", /^\/uploads\/(\d+)\/$/, (_request, [id]) => {
+  const upload = getState().uploads.find((u) => u.id === Number(id));
+  return upload
+    ? {
+        status: 200,
+        file: { contentType: upload.contentType, data: upload.data },
+      }
+    : fail(404, "Not found.");
+});
+
+// --- Users (admin console) ---
+
+const requireAdmin = (user: User) =>
+  user.role === "ADMIN" ? null : fail(403, "Only admins can manage users.");
+
+route(
+  "GET",
+  /^\/users\/$/,
+  authenticated(
+    (_request, _params, user) => requireAdmin(user) ?? ok(getState().users),
+  ),
+);
+
+route(
+  "GET",
+  /^\/users\/(\d+)\/$/,
+  authenticated((_request, [id], user) => {
+    const denied = requireAdmin(user);
+    if (denied) return denied;
+    const found = getState().users.find((u) => u.id === Number(id));
+    return found ? ok(found) : fail(404, "Not found.");
+  }),
+);
+
+route(
+  "PATCH",
+  /^\/users\/(\d+)\/$/,
+  authenticated((request, [id], user) => {
+    const denied = requireAdmin(user);
+    if (denied) return denied;
+    const found = getState().users.find((u) => u.id === Number(id));
+    if (!found) return fail(404, "Not found.");
+    const changes = (request.body ?? {}) as UserAdminUpdate;
+    if (changes.role && found.id === user.id) {
+      return fail(400, "You can't change your own role.");
+    }
+    if (changes.is_marked && !changes.marked_reason?.trim()) {
+      return ok(
+        { marked_reason: ["A reason is required to mark a user."] },
+        400,
+      );
+    }
+    if (changes.role) found.role = changes.role;
+    if (changes.is_marked !== undefined) {
+      found.is_marked = changes.is_marked;
+      found.marked_reason = changes.is_marked ? changes.marked_reason! : null;
+    } else if (changes.marked_reason !== undefined && found.is_marked) {
+      found.marked_reason = changes.marked_reason;
+    }
+    return ok(found);
+  }),
+);
+
+/** Dispatches a request to the first matching route. */
+export async function handleMockRequest(
+  request: MockRequest,
+): Promise<MockResponse> {
+  const pathMatches = routes
+    .map((r) => ({ route: r, match: r.pattern.exec(request.path) }))
+    .filter((m) => m.match);
+  if (pathMatches.length === 0) {
+    return fail(404, `${request.path} is not implemented by the mock backend.`);
+  }
+  const matched = pathMatches.find((m) => m.route.method === request.method);
+  if (!matched) {
+    return fail(405, `Method "${request.method}" not allowed.`);
+  }
+  return matched.route.handler(request, matched.match!.slice(1));
+}
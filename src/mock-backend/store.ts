@@ -0,0 +1,260 @@
+import {
+  AnswerOption,
+  QuestionReadOnly,
+  QuestionWritable,
+  QuizAttemptResult,
+  QuizReadOnly,
+  QuizWritable,
+  User,
+} from "@/types/quiz";
+import { getExplanationRelease } from "@/lib/explanations";
+import { SEED_USERS, getSeedQuizzes } from "./fixtures";
+
+// In-memory state of the mock backend. It lives on globalThis so it survives
+// hot reloads of the route module in `next dev`; restarting the server (or
+// POST /mock/reset/) brings back the seed data.
+
+export interface MockState {
+  users: User[];
+  /** Quizzes with every answer field filled in; see `forViewer` for what is served. */
+  quizzes: QuizReadOnly[];
+  attempts: QuizAttemptResult[];
+  /** Images uploaded for question content, served by GET /uploads/{id}/. */
+  uploads: MockUpload[];
+  lastId: number;
+}
+
+export interface MockUpload {
+  id: number;
+  contentType: string;
+  data: Uint8Array;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __mockBackendState?: MockState;
+};
+
+export function getState(): MockState {
+  if (!globalStore.__mockBackendState) {
+    globalStore.__mockBackendState = createSeedState();
+  }
+  return globalStore.__mockBackendState;
+}
+
+export function resetState(): MockState {
+  globalStore.__mockBackendState = createSeedState();
+  return globalStore.__mockBackendState;
+}
+
+function createSeedState(): MockState {
+  // IDs of seeded quizzes, questions and options start above the user IDs
+  const state: MockState = {
+    users: SEED_USERS.map((user) => ({ ...user })),
+    quizzes: [],
+    attempts: [],
+    uploads: [],
+    lastId: 100,
+  };
+  for (const { teacher, quiz } of getSeedQuizzes()) {
+    const owner = state.users.find((user) => user.username === teacher)!;
+    state.quizzes.push(buildQuiz(state, quiz, owner));
+  }
+  return state;
+}
+
+export const nextId = (state: MockState) => ++state.lastId;
+
+/** Availability fields computed from the window, as the backend does. */
+function withAvailability(quiz: QuizReadOnly, now = Date.now()): QuizReadOnly {
+  const from = quiz.available_from ? Date.parse(quiz.available_from) : null;
+  const to = quiz.available_to ? Date.parse(quiz.available_to) : null;
+  return {
+    ...quiz,
+    has_availability_window: from !== null && to !== null,
+    is_available_for_submission:
+      (from === null || now >= from) && (to === null || now <= to),
+  };
+}
+
+function buildQuestion(
+  state: MockState,
+  question: QuestionWritable,
+): QuestionReadOnly {
+  const id = question.id ?? nextId(state);
+  const base = {
+    id,
+    question_type: question.question_type,
+    text: question.text,
+    points: question.points,
+    explanation: question.explanation ?? "",
+  };
+  const options = (question.answer_options ?? []).map((opt) => ({
+    id: opt.id ?? nextId(state),
+    text: opt.text,
+    is_correct: opt.is_correct,
+    explanation: opt.explanation ?? "",
+  }));
+
+  switch (question.question_type) {
+    case "TRUE_FALSE":
+      // Like the backend, T/F questions get generated "True"/"False" options
+      return {
+        ...base,
+        answer_options: [true, false].map((value) => ({
+          id: nextId(state),
+          text: value ? "True" : "False",
+          is_correct: question.correct_answer_bool === value,
+        })),
+      };
+    case "SHORT_ANSWER":
+      return {
+        ...base,
+        answer_options: [],
+        accepted_answers: question.accepted_answers ?? [],
+        case_sensitive: question.case_sensitive ?? false,
+      };
+    case "NUMERIC":
+      return {
+        ...base,
+        answer_options: [],
+        correct_answer_number: question.correct_answer_number ?? null,
+        tolerance: question.tolerance ?? 0,
+      };
+    case "ORDERING":
+      // Written in their correct order
+      return {
+        ...base,
+        answer_options: options.map((opt) => ({ ...opt, is_correct: false })),
+        correct_order_ids: options.map((opt) => opt.id),
+      };
+    case "MATCHING": {
+      const pairs = (question.matching_pairs ?? []).map((pair) => ({
+        prompt: { id: pair.id ?? nextId(state), text: pair.prompt },
+        choice: { id: nextId(state), text: pair.match },
+      }));
+      return {
+        ...base,
+        answer_options: [],
+        match_prompts: pairs.map((p) => p.prompt),
+        match_choices: pairs.map((p) => p.choice),
+        matching_pairs: pairs.map((p) => ({
+          prompt_id: p.prompt.id,
+          choice_id: p.choice.id,
+        })),
+      };
+    }
+    default:
+      return { ...base, answer_options: options };
+  }
+}
+
+/** Builds a stored quiz from a create/update payload. */
+export function buildQuiz(
+  state: MockState,
+  quiz: QuizWritable,
+  teacher: User,
+  id: number = nextId(state),
+): QuizReadOnly {
+  return withAvailability({
+    id,
+    title: quiz.title,
+    teacher,
+    timing_minutes: quiz.timing_minutes,
+    available_from: quiz.available_from ?? null,
+    available_to: quiz.available_to ?? null,
+    is_available_for_submission: false, // Set by withAvailability
+    has_availability_window: false,
+    scoring_policy: quiz.scoring_policy,
+    wrong_selection_penalty: quiz.wrong_selection_penalty,
+    shuffle_questions: quiz.shuffle_questions,
+    shuffle_options: quiz.shuffle_options,
+    question_layout: quiz.question_layout,
+    explanation_visibility: quiz.explanation_visibility,
+    question_pools: quiz.question_pools ?? [],
+    questions: (quiz.questions ?? []).map((q) => buildQuestion(state, q)),
+  });
+}
+
+export const canManageQuiz = (quiz: QuizReadOnly, user: User) =>
+  user.role === "ADMIN" || quiz.teacher.id === user.id;
+
+// Explanations give the answers away too
+const hideOptionExplanations = (options: AnswerOption[]) =>
+  options.map((opt) => {
+    const option = { ...opt };
+    delete option.explanation;
+    return option;
+  });
+
+function hideExplanations(question: QuestionReadOnly): QuestionReadOnly {
+  const visible = { ...question };
+  delete visible.explanation;
+  return {
+    ...visible,
+    answer_options: hideOptionExplanations(visible.answer_options),
+  };
+}
+
+// Students must not see the answers while attempting
+function hideAnswers(question: QuestionReadOnly): QuestionReadOnly {
+  const visible = hideExplanations(question);
+  delete visible.accepted_answers;
+  delete visible.correct_answer_number;
+  delete visible.correct_order_ids;
+  delete visible.matching_pairs;
+  const options = visible.answer_options.map((opt) => ({
+    ...opt,
+    is_correct: false,
+  }));
+  return {
+    ...visible,
+    // ORDERING items are stored in their correct order; serve them reversed
+    answer_options:
+      question.question_type === "ORDERING" ? options.reverse() : options,
+  };
+}
+
+/** The quiz as the given user may see it, with current availability. */
+export function forViewer(quiz: QuizReadOnly, user: User): QuizReadOnly {
+  const current = withAvailability(quiz);
+  if (canManageQuiz(quiz, user)) return current;
+  return {
+    ...current,
+    question_pools: undefined, // Owner/admin only
+    questions: current.questions.map(hideAnswers),
+  };
+}
+
+export function canSeeAttempt(attempt: QuizAttemptResult, user: User) {
+  return (
+    user.role === "ADMIN" ||
+    attempt.user.id === user.id ||
+    attempt.quiz.teacher.id === user.id
+  );
+}
+
+/** The attempt as the given user may see it: explanations follow the quiz's setting. */
+export function attemptForViewer(
+  attempt: QuizAttemptResult,
+  user: User,
+): QuizAttemptResult {
+  if (
+    canManageQuiz(attempt.quiz, user) ||
+    getExplanationRelease(attempt.quiz).visible
+  ) {
+    return attempt;
+  }
+  return {
+    ...attempt,
+    quiz: {
+      ...attempt.quiz,
+      questions: attempt.quiz.questions.map(hideExplanations),
+    },
+    participant_answers: attempt.participant_answers.map((answer) => ({
+      ...answer,
+      question: hideExplanations(answer.question),
+      selected_options: hideOptionExplanations(answer.selected_options),
+      correct_options: hideOptionExplanations(answer.correct_options),
+    })),
+  };
+}
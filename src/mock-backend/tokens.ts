@@ -0,0 +1,65 @@
+// Unsigned JWT-shaped tokens for the mock backend. They carry real `exp`
+// claims so the frontend's expiry and refresh handling (lib/auth.ts) behaves
+// as it would against the real backend. Never use these outside development.
+
+export const ACCESS_TOKEN_LIFETIME_S = 15 * 60;
+export const REFRESH_TOKEN_LIFETIME_S = 24 * 60 * 60;
+
+type TokenType = "access" | "refresh";
+
+interface TokenPayload {
+  user_id: number;
+  token_type: TokenType;
+  exp: number; // Seconds since epoch
+  jti: string; // Makes every issued token unique, like rotating refresh tokens
+}
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function issueToken(userId: number, type: TokenType, lifetimeS: number) {
+  const payload: TokenPayload = {
+    user_id: userId,
+    token_type: type,
+    exp: Math.floor(Date.now() / 1000) + lifetimeS,
+    jti: Math.random().toString(36).slice(2),
+  };
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode(payload)}.mock`;
+}
+
+export function issueTokenPair(userId: number) {
+  return {
+    access: issueToken(userId, "access", ACCESS_TOKEN_LIFETIME_S),
+    refresh: issueToken(userId, "refresh", REFRESH_TOKEN_LIFETIME_S),
+  };
+}
+
+/** Returns the user ID of a valid, unexpired token of the given type, or null. */
+export function readToken(
+  token: string | null | undefined,
+  type: TokenType,
+): number | null {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token!.split(".")[1], "base64url").toString("utf8"),
+    ) as TokenPayload;
+    if (payload.token_type !== type) return null;
+    if (payload.exp * 1000 <= Date.now()) return null;
+    return payload.user_id;
+  } catch {
+    return null;
+  }
+}
+
+/** Reads the `email` claim of an OAuth ID token, without verifying it. */
+export function readIdTokenEmail(idToken: unknown): string | null {
+  if (typeof idToken !== "string") return null;
+  try {
+    const payload = JSON.parse(
+      Buffer.from(idToken.split(".")[1], "base64url").toString("utf8"),
+    );
+    return typeof payload.email === "string" ? payload.email : null;
+  } catch {
+    return null;
+  }
+}
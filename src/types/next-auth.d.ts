@@ -0,0 +1,16 @@
+// src/types/next-auth.d.ts
+
+import "next-auth";
+
+/**
+ * Adds the backend token fields populated by the session callback in
+ * src/lib/auth.ts, so `session.accessToken` is typed in both
+ * getServerSession (server) and useSession (client).
+ */
+declare module "next-auth" {
+  interface Session {
+    accessToken?: string;
+    /** Set when the backend tokens could not be obtained or refreshed. */
+    error?: string;
+  }
+}
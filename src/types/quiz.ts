@@ -10,30 +10,131 @@ export interface User {
   email: string; // Should be in email format
   role: "ADMIN" | "TEACHER" | "STUDENT"; // Enum constraint
   is_marked: boolean;
+  /** Why the user was marked (only shown to admins). */
+  marked_reason?: string | null;
 }
 
+/**
+ * Changes an admin can make to a user via PATCH /users/{id}/.
+ * Marking a user requires a reason; unmarking clears it.
+ */
+export interface UserAdminUpdate {
+  role?: User["role"];
+  is_marked?: boolean;
+  marked_reason?: string | null;
+}
+
+/**
+ * The kinds of question a quiz can contain.
+ * - SINGLE_MCQ / MULTI_MCQ: pick one / several answer options.
+ * - TRUE_FALSE: pick True or False.
+ * - SHORT_ANSWER: type a short text, compared against accepted answers.
+ * - NUMERIC: type a number, correct within a tolerance.
+ * - ORDERING: arrange the answer options into the correct sequence.
+ * - MATCHING: pair each prompt with one of the choices.
+ */
+export type QuestionType =
+  | "SINGLE_MCQ"
+  | "MULTI_MCQ"
+  | "TRUE_FALSE"
+  | "SHORT_ANSWER"
+  | "NUMERIC"
+  | "ORDERING"
+  | "MATCHING";
+
+/**
+ * How MULTI_MCQ questions are scored; other question types are all-or-nothing.
+ * - ALL_OR_NOTHING: full points only for exactly the correct selection.
+ * - PARTIAL_CREDIT: a share per correct selection, each wrong one cancels one correct one (min 0).
+ * - NEGATIVE_MARKING: a share per correct selection minus a penalty per wrong selection.
+ */
+export type ScoringPolicy =
+  | "ALL_OR_NOTHING"
+  | "PARTIAL_CREDIT"
+  | "NEGATIVE_MARKING";
+
+/**
+ * How an attempt presents the questions.
+ * - ALL_AT_ONCE: every question on one page.
+ * - ONE_AT_A_TIME: one question per page with a navigator, flags and a review screen.
+ */
+export type QuestionLayout = "ALL_AT_ONCE" | "ONE_AT_A_TIME";
+
+/**
+ * When participants see the question and option explanations on their results.
+ * - IMMEDIATELY: as soon as the attempt is submitted.
+ * - AFTER_CLOSE: once the quiz's available_to has passed.
+ * - NEVER: only the owner/admin sees them.
+ */
+export type ExplanationVisibility = "IMMEDIATELY" | "AFTER_CLOSE" | "NEVER";
+
+/**
+ * How hard a question bank question is, as judged by its author.
+ */
+export type Difficulty = "EASY" | "MEDIUM" | "HARD";
+
 /**
  * Represents a single answer option for a multiple-choice question.
  * Based on definitions.AnswerOption schema.
  */
 export interface AnswerOption {
   id: number;
+  /** Markdown, like the question text. */
   text: string;
   /** Indicates if this is a correct option. Note: May be hidden in read-only serializers depending on context. */
   is_correct: boolean;
+  /** Markdown explaining why this option is (in)correct (conditionally shown). */
+  explanation?: string | null;
+}
+
+/**
+ * A prompt or choice of a MATCHING question.
+ */
+export interface MatchItem {
+  id: number;
+  text: string;
+}
+
+/**
+ * One prompt-to-choice pairing of a MATCHING question, by ID.
+ * Used both for the correct pairs and for a participant's answer.
+ */
+export interface MatchingPair {
+  prompt_id: number;
+  choice_id: number;
 }
 
 /**
  * Represents a question in read-only mode (e.g., when viewing or attempting a quiz).
  * Based on definitions.QuestionReadOnly schema.
+ * Fields that reveal the answer are only present for the owner/admin, or on results.
  */
 export interface QuestionReadOnly {
   id: number;
-  question_type: "SINGLE_MCQ" | "MULTI_MCQ" | "TRUE_FALSE"; // Enum constraint
+  question_type: QuestionType; // Enum constraint
+  /** Markdown with LaTeX math, code blocks and images (rendered by components/RichText). */
   text: string;
   points: number;
-  /** List of answer options for MCQ types. Note: 'is_correct' field may be hidden. */
+  /** List of answer options for MCQ types, or the items to arrange for ORDERING. Note: 'is_correct' field may be hidden. */
   answer_options: AnswerOption[];
+  /** For SHORT_ANSWER: accepted answers (conditionally shown). */
+  accepted_answers?: string[];
+  /** For SHORT_ANSWER: whether answers must match case. */
+  case_sensitive?: boolean;
+  /** For NUMERIC: the correct value (conditionally shown). */
+  correct_answer_number?: number | null;
+  /** For NUMERIC: largest accepted difference from the correct value. */
+  tolerance?: number;
+  /** For ORDERING: answer option IDs in the correct order (conditionally shown). */
+  correct_order_ids?: number[];
+  /** For MATCHING: the prompts to be matched. */
+  match_prompts?: MatchItem[];
+  /** For MATCHING: the choices each prompt can be matched with. */
+  match_choices?: MatchItem[];
+  /** For MATCHING: the correct pairs (conditionally shown). */
+  matching_pairs?: MatchingPair[];
+  /** Markdown explaining the answer, shown on results (conditionally shown). */
+  explanation?: string | null;
 }
 
 /**
@@ -43,8 +144,20 @@ export interface QuestionReadOnly {
 export interface AnswerOptionWritable {
   /** Required for updates, omit for creates */
   id?: number | null; // Optional and nullable
-  text: string;
+  text: string; // Markdown
   is_correct: boolean;
+  /** Markdown explaining why this option is (in)correct. */
+  explanation?: string | null;
+}
+
+/**
+ * Represents a writable prompt/choice pair of a MATCHING question.
+ */
+export interface MatchingPairWritable {
+  /** Required for updates, omit for creates */
+  id?: number | null; // Optional and nullable
+  prompt: string;
+  match: string;
 }
 
 /**
@@ -54,13 +167,25 @@ export interface AnswerOptionWritable {
 export interface QuestionWritable {
   /** Required for updates, omit for creates */
   id?: number | null; // Optional and nullable
-  question_type: "SINGLE_MCQ" | "MULTI_MCQ" | "TRUE_FALSE"; // Enum constraint
-  text: string;
+  question_type: QuestionType; // Enum constraint
+  text: string; // Markdown
   points: number;
   /** For True/False questions */
   correct_answer_bool?: boolean | null; // Optional and nullable
-  /** List of answer options for MCQ types. */
-  answer_options?: AnswerOptionWritable[]; // Optional array for MCQ types
+  /** List of answer options for MCQ types; for ORDERING, the items in their correct order. */
+  answer_options?: AnswerOptionWritable[]; // Optional array for MCQ/ORDERING types
+  /** For SHORT_ANSWER: accepted answers (at least one). */
+  accepted_answers?: string[];
+  /** For SHORT_ANSWER: whether answers must match case (default false). */
+  case_sensitive?: boolean;
+  /** For NUMERIC: the correct value. */
+  correct_answer_number?: number | null;
+  /** For NUMERIC: largest accepted difference from the correct value (default 0). */
+  tolerance?: number;
+  /** For MATCHING: the correct prompt/match pairs. */
+  matching_pairs?: MatchingPairWritable[];
+  /** Markdown explaining the answer, shown on results. */
+  explanation?: string | null;
 }
 
 /**
@@ -80,6 +205,21 @@ export interface QuizReadOnly {
   is_available_for_submission: boolean;
   /** Computed property indicating if both available_from and available_to are set. */
   has_availability_window: boolean;
+  /** Scoring policy for MULTI_MCQ questions (default ALL_OR_NOTHING). */
+  scoring_policy?: ScoringPolicy;
+  /** For NEGATIVE_MARKING: share of a question's points deducted per wrong selection (0-1). */
+  wrong_selection_penalty?: number;
+  /** Show the questions in a different (seeded) order for each attempt. */
+  shuffle_questions?: boolean;
+  /** Show the answer options (and MATCHING choices) in a different order for each attempt. */
+  shuffle_options?: boolean;
+  /** How attempts present the questions (default ALL_AT_ONCE). */
+  question_layout?: QuestionLayout;
+  /** When participants see the explanations on their results (default IMMEDIATELY). */
+  explanation_visibility?: ExplanationVisibility;
+  /** Random draws from the question bank, made per attempt (owner/admin only). */
+  question_pools?: QuestionPool[];
+  /** Questions of the quiz; for a student's attempt this includes the questions drawn from the pools. */
   questions: QuestionReadOnly[]; // Array of read-only questions
 }
 
@@ -96,8 +236,59 @@ export interface QuizWritable {
   available_from?: string | null; // Optional and nullable
   /** ISO date-time string or null */
   available_to?: string | null; // Optional and nullable
+  /** Scoring policy for MULTI_MCQ questions (default ALL_OR_NOTHING). */
+  scoring_policy?: ScoringPolicy;
+  /** For NEGATIVE_MARKING: share of a question's points deducted per wrong selection (0-1). */
+  wrong_selection_penalty?: number;
+  /** Show the questions in a different (seeded) order for each attempt. */
+  shuffle_questions?: boolean;
+  /** Show the answer options (and MATCHING choices) in a different order for each attempt. */
+  shuffle_options?: boolean;
+  /** How attempts present the questions (default ALL_AT_ONCE). */
+  question_layout?: QuestionLayout;
+  /** When participants see the explanations on their results (default IMMEDIATELY). */
+  explanation_visibility?: ExplanationVisibility;
+  /** Random draws from the question bank, made per attempt. */
+  question_pools?: QuestionPool[];
   /** Array of writable questions */
-  questions?: QuestionWritable[]; // Should contain at least one question for creation
+  questions?: QuestionWritable[]; // Should contain at least one question (or pool) for creation
+}
+
+/**
+ * A reusable question saved in the question bank.
+ * Inserting it into a quiz copies it; later edits to the bank don't affect the quiz.
+ */
+export interface BankQuestion extends QuestionWritable {
+  id: number;
+  subject: string;
+  tags: string[];
+  difficulty: Difficulty;
+  owner: User; // Only the owner (or an admin) can edit or delete it
+  /** ISO date-time string */
+  updated_at: string;
+}
+
+/**
+ * Represents a writable question bank entry, used when saving a question to the bank.
+ */
+export interface BankQuestionWritable extends Omit<QuestionWritable, "id"> {
+  subject: string;
+  tags: string[];
+  difficulty: Difficulty;
+}
+
+/**
+ * A random draw from the question bank: each attempt gets `count` questions
+ * picked from the bank questions that have all of `tags` (and match
+ * `subject`/`difficulty` when set).
+ */
+export interface QuestionPool {
+  /** Required for updates, omit for creates */
+  id?: number | null; // Optional and nullable
+  tags: string[];
+  subject?: string;
+  difficulty?: Difficulty | null;
+  count: number;
 }
 
 /**
@@ -110,6 +301,14 @@ export interface ParticipantAnswerSubmit {
   selected_option_ids?: number[] | null;
   /** Boolean answer for True/False questions (True or False). Nullable. */
   selected_answer_bool?: boolean | null;
+  /** Typed answer for SHORT_ANSWER questions. Nullable. */
+  answer_text?: string | null;
+  /** Typed answer for NUMERIC questions. Nullable. */
+  answer_number?: number | null;
+  /** Answer option IDs in the participant's order (for ORDERING). Nullable. */
+  ordered_option_ids?: number[] | null;
+  /** Prompt/choice pairs chosen by the participant (for MATCHING). Nullable. */
+  matches?: MatchingPair[] | null;
 }
 
 /**
@@ -121,6 +320,23 @@ export interface QuizSubmission {
   answers: ParticipantAnswerSubmit[]; // Array of answers submitted
 }
 
+/**
+ * Represents an in-progress (not yet submitted) quiz attempt.
+ * Used for autosave via GET/PUT/DELETE /quizzes/{id}/draft/ and local storage.
+ */
+export interface AttemptDraft {
+  quiz_id: number;
+  answers: ParticipantAnswerSubmit[];
+  /** ISO date-time string of when the attempt was started */
+  started_at: string | null;
+  /** Seed of the attempt's question/option shuffle, so a resumed attempt keeps its order */
+  shuffle_seed?: number | null;
+  /** Questions the participant flagged for review (ONE_AT_A_TIME layout) */
+  flagged_question_ids?: number[];
+  /** ISO date-time string of when the draft was last saved */
+  updated_at: string;
+}
+
 /**
  * Represents the result details for a participant's answer to a single question within an attempt.
  * Based on definitions.ParticipantAnswerResult schema.
@@ -134,10 +350,20 @@ export interface ParticipantAnswerResult {
   selected_answer_bool: boolean | null;
   /** Whether the participant's answer was correct. Nullable if not graded yet. */
   is_correct: boolean | null;
+  /** Points earned for this answer under the quiz's scoring policy. May be negative with NEGATIVE_MARKING. */
+  points_awarded?: number | null;
   /** The correct boolean answer (conditionally shown). */
   correct_answer_bool: boolean | null;
   /** The correct answer options (conditionally shown). */
   correct_options: AnswerOption[];
+  /** Typed answer by the participant (for SHORT_ANSWER). */
+  answer_text?: string | null;
+  /** Typed answer by the participant (for NUMERIC). */
+  answer_number?: number | null;
+  /** Answer option IDs in the participant's order (for ORDERING). */
+  ordered_option_ids?: number[] | null;
+  /** Prompt/choice pairs chosen by the participant (for MATCHING). */
+  matches?: MatchingPair[] | null;
 }
 
 /**
@@ -159,7 +385,23 @@ export interface QuizAttemptResult {
   best_score_for_quiz: number | null;
 }
 
-// You can also add types for API list responses if needed, although often
-// using Array<Type> (e.g., QuizReadOnly[]) is sufficient.
-// export type QuizListResponse = QuizReadOnly[];
-// export type AttemptListResponse = QuizAttemptResult[];
+/**
+ * Paginated list response, returned by list endpoints when `page`/`limit`
+ * query parameters are supplied and the backend supports them.
+ * Endpoints without pagination return a plain array instead.
+ */
+export interface PaginatedResponse<T> {
+  count: number; // Total number of matching items across all pages
+  next: string | null;
+  previous: string | null;
+  results: T[];
+}
+
+/**
+ * An image uploaded for use in question or option text.
+ * Returned by POST /uploads/ (multipart form with a "file" field).
+ */
+export interface UploadedImage {
+  /** Absolute URL to reference from Markdown, e.g. ![diagram](url) */
+  url: string;
+}
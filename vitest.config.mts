@@ -0,0 +1,23 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Unit and component tests (*.test.ts / *.test.tsx next to the code they
+// cover). The browser journeys live in e2e/ and run with Playwright.
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  css: {
+    // Stylesheets (e.g. KaTeX's) need no processing in tests; this also stops
+    // Vite loading postcss.config.mjs, whose plugin list is in Next.js' format
+    postcss: { plugins: [] },
+  },
+  esbuild: {
+    jsx: "automatic", // tsconfig's "preserve" is for Next.js only
+  },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+    environment: "node",
+    restoreMocks: true,
+  },
+});